@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { readingMinutes } from '@shared/reading';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// The syllabus_assignments columns a student can edit
+export interface AssignmentFields {
+  title: string;
+  due_date: string | null;
+  type: string;
+  estimated_minutes: number;
+  weight: number | null;
+  page_start: number | null;
+  page_end: number | null;
+}
+
+interface AssignmentEditFormProps {
+  initial?: Partial<AssignmentFields>;
+  minutesPerPage: number;
+  saving: boolean;
+  onSave: (fields: AssignmentFields) => void;
+  onCancel: () => void;
+}
+
+const ASSIGNMENT_TYPES: Record<string, string> = {
+  reading: 'Reading',
+  hw: 'Homework',
+  project: 'Project',
+  exam: 'Exam',
+};
+
+const numberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Inline form for adding or editing one syllabus assignment. A reading with a page
+// range is timed from the student's reading speed instead of a typed estimate.
+export const AssignmentEditForm = ({ initial, minutesPerPage, saving, onSave, onCancel }: AssignmentEditFormProps) => {
+  const [title, setTitle] = useState(initial?.title ?? '');
+  const [dueDate, setDueDate] = useState(initial?.due_date ?? '');
+  const [type, setType] = useState(initial?.type ?? 'hw');
+  const [minutes, setMinutes] = useState(String(initial?.estimated_minutes ?? 60));
+  const [weight, setWeight] = useState(initial?.weight != null ? String(initial.weight) : '');
+  const [pageStart, setPageStart] = useState(initial?.page_start != null ? String(initial.page_start) : '');
+  const [pageEnd, setPageEnd] = useState(initial?.page_end != null ? String(initial.page_end) : '');
+
+  const isReading = type === 'reading';
+  const pageMinutes = isReading
+    ? readingMinutes({ pageStart: numberOrNull(pageStart), pageEnd: numberOrNull(pageEnd) }, minutesPerPage)
+    : null;
+
+  const handleSave = () => {
+    const estimate = pageMinutes ?? Number(minutes);
+    const gradeWeight = numberOrNull(weight);
+
+    if (!title.trim()) {
+      toast.error('Give the assignment a title');
+      return;
+    }
+    if (!Number.isFinite(estimate) || estimate <= 0) {
+      toast.error('Estimate how many minutes it will take');
+      return;
+    }
+    if (gradeWeight !== null && (!Number.isFinite(gradeWeight) || gradeWeight < 0 || gradeWeight > 100)) {
+      toast.error('The grade weight must be between 0 and 100%');
+      return;
+    }
+
+    onSave({
+      title: title.trim(),
+      due_date: dueDate || null,
+      type,
+      estimated_minutes: Math.round(estimate),
+      weight: gradeWeight,
+      page_start: isReading ? numberOrNull(pageStart) : null,
+      page_end: isReading ? numberOrNull(pageEnd) : null,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input placeholder="e.g. Problem Set 3" value={title} onChange={(e) => setTitle(e.target.value)} autoFocus />
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Due</Label>
+          <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ASSIGNMENT_TYPES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {isReading && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>First page</Label>
+            <Input type="number" min={1} value={pageStart} onChange={(e) => setPageStart(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Last page</Label>
+            <Input type="number" min={1} value={pageEnd} onChange={(e) => setPageEnd(e.target.value)} />
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Minutes</Label>
+          {pageMinutes !== null ? (
+            <p className="h-10 flex items-center text-sm text-muted-foreground">~{pageMinutes}m at your reading speed</p>
+          ) : (
+            <Input type="number" min={1} value={minutes} onChange={(e) => setMinutes(e.target.value)} />
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label>% of grade</Label>
+          <Input type="number" min={0} max={100} placeholder="Optional" value={weight} onChange={(e) => setWeight(e.target.value)} />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { Calendar, Clock, Pencil, Plus, Sparkles, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { DEFAULT_MINUTES_PER_PAGE, resolveReadingSpeed } from '@shared/reading';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { AssignmentEditForm, AssignmentFields } from '@/components/AssignmentEditForm';
+import { changesStudyPlan, deleteAssignment, replanAfterAssignmentEdit, replanMessage } from '@/lib/studyPlanner';
+
+interface Assignment extends AssignmentFields {
+  id: string;
+  category: string | null;
+}
+
+interface AssignmentsCardProps {
+  classId: string;
+  userId: string;
+  // Bumped by the page when another card changed the class's assignments
+  refreshKey?: number;
+  onChanged?: () => void;
+}
+
+const TYPE_EMOJI: Record<string, string> = {
+  reading: '📖',
+  hw: '✏️',
+  project: '🎯',
+  exam: '📝',
+  quiz: '❓',
+};
+
+// Everything except readings, which have their own checklist
+export const AssignmentsCard = ({ classId, userId, refreshKey, onChanged }: AssignmentsCardProps) => {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [minutesPerPage, setMinutesPerPage] = useState(DEFAULT_MINUTES_PER_PAGE);
+  // An assignment id, 'new' for the add form, or null
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [classId, userId, refreshKey]);
+
+  const loadAssignments = async () => {
+    const [assignmentsResult, profileResult] = await Promise.all([
+      supabase
+        .from('syllabus_assignments')
+        .select('id, title, due_date, type, estimated_minutes, category, weight, page_start, page_end')
+        .eq('class_id', classId)
+        .order('due_date'),
+      supabase.from('profiles').select('reading_minutes_per_page').eq('user_id', userId).maybeSingle(),
+    ]);
+
+    if (assignmentsResult.error) {
+      console.error('Error loading assignments:', assignmentsResult.error);
+      return;
+    }
+    setAssignments(
+      (assignmentsResult.data || [])
+        .filter((a) => a.type !== 'reading')
+        .map((a) => ({ ...a, type: a.type || 'hw' }))
+    );
+    setMinutesPerPage(resolveReadingSpeed(profileResult.data?.reading_minutes_per_page));
+  };
+
+  // Rebuilds the class's study sessions when a deadline or estimate changed
+  const replan = async () => {
+    const result = await replanAfterAssignmentEdit(userId, classId);
+    toast.success(replanMessage(result));
+  };
+
+  const handleSave = async (fields: AssignmentFields) => {
+    const before = assignments.find((a) => a.id === editing) ?? null;
+
+    setSaving(true);
+    try {
+      const { error } = before
+        ? await supabase.from('syllabus_assignments').update(fields).eq('id', before.id)
+        : await supabase.from('syllabus_assignments').insert({ ...fields, class_id: classId });
+      if (error) throw error;
+
+      setEditing(null);
+      await loadAssignments();
+      if (changesStudyPlan(before, fields)) {
+        await replan();
+      }
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save assignment';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    setSaving(true);
+    try {
+      toast.success(replanMessage(await deleteAssignment(userId, classId, assignment.id)));
+      await loadAssignments();
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete assignment';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-black text-lg flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-neon-cyan" />
+          Assignments & Deadlines
+        </h2>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">{assignments.length} items</span>
+          <Button variant="ghost" size="sm" onClick={() => setEditing('new')} disabled={saving || editing !== null}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {editing === 'new' && (
+        <div className="bg-card border border-neon-cyan/30 rounded-2xl p-4">
+          <AssignmentEditForm
+            minutesPerPage={minutesPerPage}
+            saving={saving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      <div className="grid gap-3">
+        {assignments.map((assignment) =>
+          editing === assignment.id ? (
+            <div key={assignment.id} className="bg-card border border-neon-cyan/30 rounded-2xl p-4">
+              <AssignmentEditForm
+                initial={assignment}
+                minutesPerPage={minutesPerPage}
+                saving={saving}
+                onSave={handleSave}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          ) : (
+            <div key={assignment.id} className="bg-card border border-border rounded-2xl p-4 hover:border-neon-cyan/30 transition-all">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-3 flex-1">
+                  <span className="text-2xl">{TYPE_EMOJI[assignment.type] || '📄'}</span>
+                  <div>
+                    <h3 className="font-bold mb-1">{assignment.title}</h3>
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      {assignment.due_date && (
+                        <div className="flex items-center gap-1.5 text-muted-foreground">
+                          <Calendar className="w-3 h-3" />
+                          <span>Due {format(parseISO(assignment.due_date), 'MMM d, yyyy')}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center gap-1.5 bg-neon-cyan/10 px-2 py-1 rounded-full border border-neon-cyan/30">
+                        <Clock className="w-3 h-3 text-neon-cyan" />
+                        <span className="text-xs font-bold text-neon-cyan">~{assignment.estimated_minutes}m</span>
+                      </div>
+                      <span className="text-xs px-2 py-1 bg-secondary/10 text-secondary rounded-full font-bold uppercase">
+                        {assignment.type}
+                      </span>
+                      {assignment.weight !== null && (
+                        <span className="text-xs px-2 py-1 bg-neon-teal/10 text-neon-teal rounded-full font-bold">
+                          {assignment.weight}% of grade
+                        </span>
+                      )}
+                      {assignment.category && (
+                        <span className="text-xs text-muted-foreground">{assignment.category}</span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setEditing(assignment.id)}
+                    disabled={saving || editing !== null}
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(assignment)}
+                    disabled={saving || editing !== null}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      {assignments.length === 0 && editing !== 'new' && (
+        <p className="text-sm text-muted-foreground">
+          No assignments yet. Add homework, projects and exams to get study sessions before they're due.
+        </p>
+      )}
+    </div>
+  );
+};
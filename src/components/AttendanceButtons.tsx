@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Ban, Check, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Attendance, ATTENDANCE_LABELS } from '@/lib/attendance';
+import { markAttendance } from '@/lib/studyPlanner';
+import { cn } from '@/lib/utils';
+
+interface MeetingBlock {
+  id: string;
+  class_id: string;
+  block_date: string;
+  duration_minutes: number;
+  attendance?: string | null;
+}
+
+interface AttendanceButtonsProps {
+  meeting: MeetingBlock;
+  userId: string;
+  onChanged?: () => void;
+  className?: string;
+}
+
+const ATTENDANCE_ICONS: Record<Attendance, typeof Check> = {
+  attended: Check,
+  missed: X,
+  cancelled: Ban,
+};
+
+// One-tap attendance for a class meeting. Tapping the current mark again clears it.
+export const AttendanceButtons = ({ meeting, userId, onChanged, className }: AttendanceButtonsProps) => {
+  const [saving, setSaving] = useState(false);
+
+  const handleMark = async (attendance: Attendance) => {
+    const next = meeting.attendance === attendance ? null : attendance;
+
+    setSaving(true);
+    try {
+      const catchUp = await markAttendance(userId, meeting, next);
+      if (next === 'missed') {
+        if (catchUp) {
+          const time = catchUp.start_time ? ` at ${catchUp.start_time.slice(0, 5)}` : '';
+          toast.success(`Catch-up session added for ${format(parseISO(catchUp.block_date), 'EEE, MMM d')}${time}`);
+        } else {
+          toast.info('No room for a catch-up session this week');
+        }
+      }
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save attendance';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex gap-2', className)}>
+      {(Object.keys(ATTENDANCE_LABELS) as Attendance[]).map((attendance) => {
+        const Icon = ATTENDANCE_ICONS[attendance];
+        return (
+          <Button
+            key={attendance}
+            size="sm"
+            variant={meeting.attendance === attendance ? 'default' : 'outline'}
+            onClick={(e) => {
+              e.stopPropagation();
+              handleMark(attendance);
+            }}
+            disabled={saving}
+          >
+            <Icon className="h-4 w-4 mr-1" />
+            {ATTENDANCE_LABELS[attendance]}
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
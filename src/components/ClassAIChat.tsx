@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Send, Sparkles, Loader2, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -38,13 +39,18 @@ export function ClassAIChat({ classId, className, onClose }: ClassAIChatProps) {
   const streamChat = async (userMessage: string) => {
     const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/class-tutor`;
     
+    // The function answers only for the signed-in owner of the class
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Please sign in again to chat with the tutor.');
+
     abortControllerRef.current = new AbortController();
 
     const response = await fetch(CHAT_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
       },
       body: JSON.stringify({ 
         messages: [...messages, { role: 'user', content: userMessage }],
@@ -60,6 +66,9 @@ export function ClassAIChat({ classId, className, onClose }: ClassAIChatProps) {
       if (response.status === 402) {
         throw new Error('AI credits depleted. Please add credits to continue.');
       }
+      if (response.status === 401) {
+        throw new Error('Your session has expired. Please sign in again.');
+      }
       throw new Error('Failed to get AI response');
     }
 
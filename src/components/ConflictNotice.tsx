@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { BLOCK_KIND_LABELS, BlockKind } from '@/lib/blockKinds';
+import { resolveBlockConflict } from '@/lib/studyPlanner';
+import { cn } from '@/lib/utils';
+
+interface ConflictNoticeProps {
+  blockId: string;
+  userId: string;
+  // What the block overlaps, e.g. "BIO 101 · Lecture"
+  overlaps: string[];
+  onResolved?: () => void;
+  className?: string;
+}
+
+// Flags a block that overlaps others, with a one-tap fix that moves the less important
+// block of the clash to the next free slot
+export const ConflictNotice = ({ blockId, userId, overlaps, onResolved, className }: ConflictNoticeProps) => {
+  const [resolving, setResolving] = useState(false);
+
+  const handleResolve = async () => {
+    setResolving(true);
+    try {
+      const moved = await resolveBlockConflict(userId, blockId);
+      if (moved) {
+        const label = BLOCK_KIND_LABELS[moved.kind as BlockKind] || 'Block';
+        toast.success(`${label} moved to ${format(parseISO(moved.blockDate), 'EEE, MMM d')} at ${moved.startTime}`);
+      }
+      onResolved?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to resolve the overlap';
+      toast.error(errorMessage);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center justify-between gap-2 rounded-md bg-amber-500/10 px-3 py-2', className)}>
+      <span className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+        Overlaps {overlaps.join(', ')}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={(e) => {
+          e.stopPropagation();
+          handleResolve();
+        }}
+        disabled={resolving}
+      >
+        Resolve
+      </Button>
+    </div>
+  );
+};
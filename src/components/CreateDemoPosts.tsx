@@ -47,10 +47,7 @@ export function CreateDemoPosts() {
       });
 
       const functionPromise = supabase.functions.invoke('create-demo-posts', {
-        body: { 
-          userId: user.id,
-          classIds 
-        }
+        body: { classIds }
       });
 
       const result = await Promise.race([functionPromise, timeoutPromise]);
@@ -0,0 +1,40 @@
+import { Difficulty, DIFFICULTIES } from '@shared/difficulty';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+interface DifficultyPickerProps {
+  value: Difficulty;
+  onChange: (difficulty: Difficulty) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  chill: '😌 Chill',
+  normal: '📘 Normal',
+  heavy: '🔥 Heavy',
+};
+
+const DIFFICULTY_HINTS: Record<Difficulty, string> = {
+  chill: 'Less study time than the syllabus suggests',
+  normal: 'Study time as estimated',
+  heavy: 'More study time, and a bigger share of each day',
+};
+
+// Chill / normal / heavy for one class. A selected option can't be toggled off.
+export const DifficultyPicker = ({ value, onChange, disabled, className }: DifficultyPickerProps) => (
+  <ToggleGroup
+    type="single"
+    variant="outline"
+    size="sm"
+    value={value}
+    onValueChange={(next) => next && onChange(next as Difficulty)}
+    disabled={disabled}
+    className={className}
+  >
+    {DIFFICULTIES.map((difficulty) => (
+      <ToggleGroupItem key={difficulty} value={difficulty} title={DIFFICULTY_HINTS[difficulty]}>
+        {DIFFICULTY_LABELS[difficulty]}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
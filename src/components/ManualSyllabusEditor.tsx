@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ClipboardList, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MeetingSchedule } from '@shared/meetings';
+import { resolveReadingSpeed } from '@shared/reading';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MeetingScheduleEditor } from '@/components/MeetingScheduleEditor';
+import { SyllabusDraftReview } from '@/components/SyllabusDraftReview';
+import { parseAssignmentList } from '@/lib/assignmentList';
+import { startParseJob } from '@/lib/parseSyllabus';
+import { draftProblems, scheduleProblems, SyllabusDraft } from '@/lib/syllabusDraft';
+
+interface ManualSyllabusEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  classId: string;
+  className: string;
+  userId: string;
+}
+
+// What is stored for the class, as a draft. Saving sends the whole syllabus, so the
+// syllabus holidays and grading breakdown are carried along even though they are not edited here.
+async function loadStoredDraft(classId: string): Promise<SyllabusDraft> {
+  const [classResult, topicsResult, assignmentsResult, exceptionsResult, categoriesResult] = await Promise.all([
+    supabase.from('classes').select('meeting_schedule').eq('id', classId).maybeSingle(),
+    supabase
+      .from('syllabus_topics')
+      .select('title, description, order_index, estimated_minutes')
+      .eq('class_id', classId)
+      .order('order_index'),
+    supabase
+      .from('syllabus_assignments')
+      .select('title, due_date, type, estimated_minutes, category, weight, textbook, chapter, page_start, page_end')
+      .eq('class_id', classId)
+      .order('due_date'),
+    supabase
+      .from('term_exceptions')
+      .select('name, kind, start_date, end_date')
+      .eq('class_id', classId)
+      .eq('source', 'syllabus'),
+    supabase.from('grading_categories').select('name, weight').eq('class_id', classId),
+  ]);
+
+  const error = [classResult, topicsResult, assignmentsResult, exceptionsResult, categoriesResult].find((r) => r.error)?.error;
+  if (error) throw error;
+
+  return {
+    schedule: (classResult.data?.meeting_schedule as unknown as MeetingSchedule | null) ?? null,
+    topics: (topicsResult.data || []).map((topic) => ({
+      title: topic.title,
+      description: topic.description ?? undefined,
+      orderIndex: topic.order_index ?? undefined,
+      estimatedMinutes: topic.estimated_minutes,
+    })),
+    assignments: (assignmentsResult.data || []).map((assignment) => ({
+      title: assignment.title,
+      dueDate: assignment.due_date,
+      type: assignment.type,
+      estimatedMinutes: assignment.estimated_minutes,
+      category: assignment.category,
+      weight: assignment.weight,
+      textbook: assignment.textbook,
+      chapter: assignment.chapter,
+      pageStart: assignment.page_start,
+      pageEnd: assignment.page_end,
+    })),
+    exceptions: (exceptionsResult.data || []).map((exception) => ({
+      name: exception.name,
+      kind: exception.kind,
+      startDate: exception.start_date,
+      endDate: exception.end_date,
+    })),
+    gradingCategories: categoriesResult.data || [],
+  };
+}
+
+// Form-driven syllabus entry for classes without a syllabus to upload. The result goes
+// through the same apply path as a reviewed parse, so meetings and study blocks are
+// generated exactly as they would be for an uploaded syllabus.
+export const ManualSyllabusEditor = ({ open, onOpenChange, classId, className, userId }: ManualSyllabusEditorProps) => {
+  const navigate = useNavigate();
+  const [draft, setDraft] = useState<SyllabusDraft | null>(null);
+  const [pasted, setPasted] = useState('');
+  const [minutesPerPage, setMinutesPerPage] = useState(resolveReadingSpeed(null));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadDraft();
+    } else {
+      setDraft(null);
+      setPasted('');
+    }
+  }, [open, classId]);
+
+  const loadDraft = async () => {
+    try {
+      const [stored, { data: profile }] = await Promise.all([
+        loadStoredDraft(classId),
+        supabase.from('profiles').select('reading_minutes_per_page').eq('user_id', userId).maybeSingle(),
+      ]);
+      setDraft(stored);
+      setMinutesPerPage(resolveReadingSpeed(profile?.reading_minutes_per_page));
+    } catch (error) {
+      console.error('Error loading class syllabus:', error);
+      toast.error('Could not load this class');
+      onOpenChange(false);
+    }
+  };
+
+  const handleAddPasted = () => {
+    if (!draft) return;
+
+    // Dates without a year fall in the year the term starts
+    const year = Number((draft.schedule?.startDate || new Date().toISOString()).slice(0, 4));
+    const parsed = parseAssignmentList(pasted, year, minutesPerPage);
+    if (parsed.length === 0) {
+      toast.error('No assignments found. Put one assignment on each line.');
+      return;
+    }
+
+    setDraft({ ...draft, assignments: [...draft.assignments, ...parsed] });
+    setPasted('');
+    const undated = parsed.filter((assignment) => !assignment.dueDate).length;
+    toast.success(
+      `Added ${parsed.length} assignment${parsed.length === 1 ? '' : 's'}` +
+        (undated > 0 ? ` • ${undated} without a due date` : '')
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const problems = [...scheduleProblems(draft.schedule), ...draftProblems(draft)];
+    if (problems.length > 0) {
+      toast.error(problems[0]);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const jobId = await startParseJob({
+        classId,
+        mode: 'apply',
+        parsed: {
+          ...draft,
+          schedule: draft.schedule?.meetings.length || draft.schedule?.startDate ? draft.schedule : null,
+          topics: draft.topics.map((topic, index) => ({ ...topic, title: topic.title.trim(), orderIndex: index + 1 })),
+          assignments: draft.assignments.map((assignment) => ({ ...assignment, title: assignment.title.trim() })),
+        },
+      });
+      navigate(`/ai-processing/${classId}?job=${jobId}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save the class schedule';
+      toast.error(errorMessage);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Enter {className} by hand</DialogTitle>
+          <DialogDescription>
+            Add your class times, topics and assignments and we'll build the study plan from them, just like from a syllabus.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <div className="space-y-3">
+              <h2 className="font-bold text-lg text-foreground">Class schedule</h2>
+              <MeetingScheduleEditor
+                schedule={draft.schedule ?? null}
+                onChange={(schedule) => setDraft({ ...draft, schedule })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <h2 className="font-bold text-lg text-foreground">Paste an assignment list</h2>
+              <Textarea
+                rows={4}
+                value={pasted}
+                onChange={(e) => setPasted(e.target.value)}
+                placeholder={'One per line, e.g.\nProblem Set 1 - due 9/15\nOct 20: Midterm Exam (20%)\nRead Ch. 3, pp. 45-72 by Sept 5'}
+              />
+              <Button variant="outline" size="sm" onClick={handleAddPasted} disabled={!pasted.trim()}>
+                <ClipboardList className="h-4 w-4 mr-1" />
+                Add to assignments
+              </Button>
+            </div>
+
+            <SyllabusDraftReview draft={draft} onChange={setDraft} manual />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!draft || saving} className="bg-gradient-neon">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save and build my plan'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
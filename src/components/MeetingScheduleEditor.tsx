@@ -0,0 +1,152 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { ClassMeeting, MeetingKind, MeetingSchedule } from '@shared/meetings';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+interface MeetingScheduleEditorProps {
+  schedule: MeetingSchedule | null;
+  onChange: (schedule: MeetingSchedule) => void;
+}
+
+const MEETING_KINDS: Record<MeetingKind, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  recitation: 'Recitation',
+  office_hours: 'Office hours',
+};
+
+// Monday first, the way class timetables are written
+const WEEKDAYS = [
+  ['Monday', 'M'],
+  ['Tuesday', 'T'],
+  ['Wednesday', 'W'],
+  ['Thursday', 'Th'],
+  ['Friday', 'F'],
+  ['Saturday', 'Sa'],
+  ['Sunday', 'Su'],
+] as const;
+
+const WEEKDAY_ORDER: string[] = WEEKDAYS.map(([day]) => day);
+
+// Term dates and the weekly meeting pattern of a class, for classes entered by hand
+export const MeetingScheduleEditor = ({ schedule, onChange }: MeetingScheduleEditorProps) => {
+  const current: MeetingSchedule = schedule ?? { meetings: [] };
+
+  const update = (changes: Partial<MeetingSchedule>) => onChange({ ...current, ...changes });
+
+  const updateMeeting = (index: number, changes: Partial<ClassMeeting>) => {
+    update({ meetings: current.meetings.map((meeting, i) => (i === index ? { ...meeting, ...changes } : meeting)) });
+  };
+
+  const addMeeting = () => {
+    update({
+      meetings: [...current.meetings, { kind: 'lecture', days: [], startTime: '10:00', endTime: '10:50' }],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="term-start">First day of classes</Label>
+          <Input
+            id="term-start"
+            type="date"
+            value={current.startDate || ''}
+            onChange={(e) => update({ startDate: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="term-end">Last day of classes</Label>
+          <Input
+            id="term-end"
+            type="date"
+            value={current.endDate || ''}
+            onChange={(e) => update({ endDate: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {current.meetings.map((meeting, index) => (
+          <div key={index} className="bg-card border border-border rounded-xl p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Select
+                value={meeting.kind}
+                onValueChange={(kind) => updateMeeting(index, { kind: kind as MeetingKind })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MEETING_KINDS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Location (optional)"
+                value={meeting.location || ''}
+                onChange={(e) => updateMeeting(index, { location: e.target.value || undefined })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove"
+                onClick={() => update({ meetings: current.meetings.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={meeting.days}
+                onValueChange={(days) =>
+                  updateMeeting(index, {
+                    days: [...days].sort((a, b) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b)),
+                  })
+                }
+              >
+                {WEEKDAYS.map(([day, label]) => (
+                  <ToggleGroupItem key={day} value={day} title={day} className="w-9">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={meeting.startTime}
+                  onChange={(e) => updateMeeting(index, { startTime: e.target.value })}
+                />
+                <span className="text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={meeting.endTime}
+                  onChange={(e) => updateMeeting(index, { endTime: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+        {current.meetings.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No class meetings yet. Add lectures, labs and sections so they show up on your calendar.
+          </p>
+        )}
+        <Button variant="outline" size="sm" onClick={addMeeting}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add meeting
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { BookOpen, Calendar, Pencil, Plus, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AssignmentEditForm, AssignmentFields } from '@/components/AssignmentEditForm';
+import { changesStudyPlan, deleteAssignment, replanAfterAssignmentEdit, replanMessage } from '@/lib/studyPlanner';
+import { cn } from '@/lib/utils';
+import { DEFAULT_MINUTES_PER_PAGE, pageCount, readingMinutes, resolveReadingSpeed } from '@shared/reading';
+
+interface Reading {
+  id: string;
+  title: string;
+  due_date: string | null;
+  type: string | null;
+  estimated_minutes: number;
+  weight: number | null;
+  textbook: string | null;
+  chapter: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  completed_at: string | null;
+}
+
+interface ReadingListCardProps {
+  classId: string;
+  userId: string;
+  // Bumped by the page when another card changed the class's assignments
+  refreshKey?: number;
+  onChanged?: () => void;
+}
+
+const READING_SPEEDS = [2, 3, 4, 5, 6, 8];
+
+export const ReadingListCard = ({ classId, userId, refreshKey, onChanged }: ReadingListCardProps) => {
+  const [readings, setReadings] = useState<Reading[]>([]);
+  const [minutesPerPage, setMinutesPerPage] = useState(DEFAULT_MINUTES_PER_PAGE);
+  // A reading id, 'new' for the add form, or null
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadReadings();
+  }, [classId, userId, refreshKey]);
+
+  const loadReadings = async () => {
+    const [readingsResult, profileResult] = await Promise.all([
+      supabase
+        .from('syllabus_assignments')
+        .select('id, title, due_date, type, estimated_minutes, weight, textbook, chapter, page_start, page_end, completed_at')
+        .eq('class_id', classId)
+        .eq('type', 'reading')
+        .order('due_date'),
+      supabase.from('profiles').select('reading_minutes_per_page').eq('user_id', userId).maybeSingle(),
+    ]);
+
+    if (readingsResult.error) {
+      console.error('Error loading readings:', readingsResult.error);
+      return;
+    }
+    setReadings(readingsResult.data || []);
+    setMinutesPerPage(resolveReadingSpeed(profileResult.data?.reading_minutes_per_page));
+  };
+
+  const handleToggle = async (reading: Reading, done: boolean) => {
+    const completedAt = done ? new Date().toISOString() : null;
+    setReadings((current) => current.map((r) => (r.id === reading.id ? { ...r, completed_at: completedAt } : r)));
+
+    const { error } = await supabase
+      .from('syllabus_assignments')
+      .update({ completed_at: completedAt })
+      .eq('id', reading.id);
+
+    if (error) {
+      toast.error('Failed to update reading');
+      setReadings((current) => current.map((r) => (r.id === reading.id ? reading : r)));
+    }
+  };
+
+  const handleSpeedChange = async (value: string) => {
+    const speed = Number(value);
+    const previous = minutesPerPage;
+    setMinutesPerPage(speed);
+
+    const { error } = await supabase.from('profiles').update({ reading_minutes_per_page: speed }).eq('user_id', userId);
+    if (error) {
+      toast.error('Failed to save reading speed');
+      setMinutesPerPage(previous);
+    }
+  };
+
+  // Saving an edit that changes the due date or time needed rebuilds the class's study sessions
+  const handleSave = async (fields: AssignmentFields) => {
+    const before = readings.find((r) => r.id === editing);
+    const previous = before ? { ...before, type: before.type || 'reading' } : null;
+
+    setSaving(true);
+    try {
+      const { error } = previous
+        ? await supabase.from('syllabus_assignments').update(fields).eq('id', previous.id)
+        : await supabase.from('syllabus_assignments').insert({ ...fields, class_id: classId });
+      if (error) throw error;
+
+      setEditing(null);
+      await loadReadings();
+      if (changesStudyPlan(previous, fields)) {
+        toast.success(replanMessage(await replanAfterAssignmentEdit(userId, classId)));
+      }
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save reading';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (reading: Reading) => {
+    setSaving(true);
+    try {
+      toast.success(replanMessage(await deleteAssignment(userId, classId, reading.id)));
+      await loadReadings();
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete reading';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Page-ranged readings are timed at the student's current speed; the rest keep the parser's guess
+  const minutesFor = (reading: Reading) =>
+    readingMinutes({ pageStart: reading.page_start, pageEnd: reading.page_end }, minutesPerPage) ??
+    reading.estimated_minutes;
+
+  const describe = (reading: Reading) => {
+    const pages = pageCount({ pageStart: reading.page_start, pageEnd: reading.page_end });
+    return [
+      reading.textbook,
+      reading.chapter && `Ch. ${reading.chapter}`,
+      pages !== null &&
+        (pages === 1 ? `p. ${reading.page_start}` : `pp. ${reading.page_start}–${reading.page_end} (${pages} pages)`),
+    ]
+      .filter(Boolean)
+      .join(' • ');
+  };
+
+  if (readings.length === 0) return null;
+
+  const done = readings.filter((r) => r.completed_at).length;
+  const remainingMinutes = readings.filter((r) => !r.completed_at).reduce((sum, r) => sum + minutesFor(r), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-black text-lg flex items-center gap-2">
+          <BookOpen className="w-5 h-5 text-neon-lime" />
+          Reading List
+        </h2>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {done}/{readings.length} done • ~{remainingMinutes}m left
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setEditing('new')} disabled={saving || editing !== null}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-card border border-border rounded-2xl divide-y divide-border">
+        {editing === 'new' && (
+          <div className="p-4">
+            <AssignmentEditForm
+              initial={{ type: 'reading' }}
+              minutesPerPage={minutesPerPage}
+              saving={saving}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          </div>
+        )}
+        {readings.map((reading) =>
+          editing === reading.id ? (
+            <div key={reading.id} className="p-4">
+              <AssignmentEditForm
+                initial={{ ...reading, type: reading.type || 'reading' }}
+                minutesPerPage={minutesPerPage}
+                saving={saving}
+                onSave={handleSave}
+                onCancel={() => setEditing(null)}
+              />
+            </div>
+          ) : (
+            <label key={reading.id} className="flex items-start gap-3 p-4 cursor-pointer">
+              <Checkbox
+                className="mt-1"
+                checked={!!reading.completed_at}
+                onCheckedChange={(checked) => handleToggle(reading, checked === true)}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={cn('font-bold', reading.completed_at && 'line-through text-muted-foreground')}>
+                  {reading.title}
+                </div>
+                {describe(reading) && <div className="text-sm text-muted-foreground">{describe(reading)}</div>}
+              </div>
+              <div className="text-right text-sm text-muted-foreground shrink-0">
+                <div>~{minutesFor(reading)}m</div>
+                {reading.due_date && (
+                  <div className="flex items-center gap-1 justify-end">
+                    <Calendar className="w-3 h-3" />
+                    {format(parseISO(reading.due_date), 'MMM d')}
+                  </div>
+                )}
+              </div>
+              <div className="flex shrink-0 -my-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setEditing(reading.id)}
+                  disabled={saving || editing !== null}
+                  title="Edit"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(reading)}
+                  disabled={saving || editing !== null}
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </label>
+          )
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 text-sm text-muted-foreground">
+        <span>Your reading speed</span>
+        <Select value={String(minutesPerPage)} onValueChange={handleSpeedChange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {/* Keep a custom speed from the profile selectable */}
+            {[...new Set([...READING_SPEEDS, minutesPerPage])].sort((a, b) => a - b).map((speed) => (
+              <SelectItem key={speed} value={String(speed)}>{speed} min / page</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import {
+  countUnsureFields,
+  DraftAssignment,
+  DraftTopic,
+  FieldConfidence,
+  isUnsure,
+  readingLocation,
+  SyllabusDraft,
+} from '@/lib/syllabusDraft';
+
+interface SyllabusDraftReviewProps {
+  draft: SyllabusDraft;
+  onChange: (draft: SyllabusDraft) => void;
+  // Entered by hand rather than parsed: topics can be added and nothing refers to the parser
+  manual?: boolean;
+}
+
+const ASSIGNMENT_TYPES: Record<string, string> = {
+  reading: 'Reading',
+  hw: 'Homework',
+  project: 'Project',
+  exam: 'Exam',
+};
+
+export const SyllabusDraftReview = ({ draft, onChange, manual = false }: SyllabusDraftReviewProps) => {
+  // Editing a field counts as checking it, so it is no longer highlighted
+  const edited = <T extends { confidence?: FieldConfidence }>(item: T, field: string, changes: Partial<T>): T => ({
+    ...item,
+    ...changes,
+    confidence: { ...item.confidence, [field]: 1 },
+  });
+
+  const updateTopic = (index: number, field: keyof DraftTopic, changes: Partial<DraftTopic>) => {
+    onChange({
+      ...draft,
+      topics: draft.topics.map((topic, i) => (i === index ? edited(topic, field, changes) : topic)),
+    });
+  };
+
+  const updateAssignment = (index: number, field: keyof DraftAssignment, changes: Partial<DraftAssignment>) => {
+    onChange({
+      ...draft,
+      assignments: draft.assignments.map((assignment, i) => (i === index ? edited(assignment, field, changes) : assignment)),
+    });
+  };
+
+  const addAssignment = () => {
+    onChange({
+      ...draft,
+      assignments: [...draft.assignments, { title: '', dueDate: null, type: 'hw', estimatedMinutes: 60 }],
+    });
+  };
+
+  const addTopic = () => {
+    onChange({
+      ...draft,
+      topics: [...draft.topics, { title: '', orderIndex: draft.topics.length + 1, estimatedMinutes: 60 }],
+    });
+  };
+
+  const minutesValue = (value: string) => (value === '' ? undefined : Number(value));
+
+  const unsureClass = (unsure: boolean) => cn(unsure && 'border-amber-500 bg-amber-500/5');
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-bold text-lg text-foreground">Assignments</h2>
+          <Button variant="ghost" size="sm" onClick={addAssignment}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        <div className="bg-card border border-border rounded-xl">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead className="w-40">Due</TableHead>
+                <TableHead className="w-36">Type</TableHead>
+                <TableHead className="w-28">Minutes</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draft.assignments.map((assignment, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={assignment.title}
+                      onChange={(e) => updateAssignment(index, 'title', { title: e.target.value })}
+                      className={unsureClass(isUnsure(assignment, 'title'))}
+                    />
+                    {assignment.weight != null && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {assignment.category ? `${assignment.category} • ` : ''}{assignment.weight}% of grade
+                      </div>
+                    )}
+                    {readingLocation(assignment) && (
+                      <div className="text-xs text-muted-foreground mt-1">{readingLocation(assignment)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={assignment.dueDate || ''}
+                      onChange={(e) => updateAssignment(index, 'dueDate', { dueDate: e.target.value || null })}
+                      className={unsureClass(isUnsure(assignment, 'dueDate'))}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={assignment.type || 'reading'}
+                      onValueChange={(type) => updateAssignment(index, 'type', { type })}
+                    >
+                      <SelectTrigger className={unsureClass(isUnsure(assignment, 'type'))}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ASSIGNMENT_TYPES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={assignment.estimatedMinutes ?? ''}
+                      onChange={(e) =>
+                        updateAssignment(index, 'estimatedMinutes', { estimatedMinutes: minutesValue(e.target.value) })
+                      }
+                      className={unsureClass(isUnsure(assignment, 'estimatedMinutes'))}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Remove"
+                      onClick={() => onChange({ ...draft, assignments: draft.assignments.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {draft.assignments.length === 0 && (
+            <p className="p-4 text-sm text-muted-foreground">
+              {manual ? 'No assignments yet.' : 'No assignments found. Add any the parser missed.'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {(manual || draft.topics.length > 0) && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-bold text-lg text-foreground">Topics</h2>
+            {manual && (
+              <Button variant="ghost" size="sm" onClick={addTopic}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            )}
+          </div>
+          <div className="bg-card border border-border rounded-xl">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead className="w-28">Minutes</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.topics.map((topic, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={topic.title}
+                        onChange={(e) => updateTopic(index, 'title', { title: e.target.value })}
+                        className={unsureClass(isUnsure(topic, 'title'))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={topic.estimatedMinutes ?? ''}
+                        onChange={(e) =>
+                          updateTopic(index, 'estimatedMinutes', { estimatedMinutes: minutesValue(e.target.value) })
+                        }
+                        className={unsureClass(isUnsure(topic, 'estimatedMinutes'))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove"
+                        onClick={() => onChange({ ...draft, topics: draft.topics.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {draft.topics.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">No topics yet.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {(!manual || countUnsureFields(draft) > 0) && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          {manual
+            ? 'Highlighted fields could not be read from the pasted list.'
+            : 'Highlighted fields are ones the parser was unsure about.'}
+        </p>
+      )}
+    </div>
+  );
+};
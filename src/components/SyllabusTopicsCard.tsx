@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { Brain, Clock, GripVertical, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { refreshClassEstimate } from '@/lib/studyPlanner';
+import { cn } from '@/lib/utils';
+
+interface SyllabusTopic {
+  id: string;
+  title: string;
+  description: string | null;
+  estimated_minutes: number;
+  order_index: number;
+}
+
+interface SyllabusTopicsCardProps {
+  classId: string;
+  onChanged?: () => void;
+}
+
+// Moves the item at `from` to `to`, shifting the ones in between
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Topics in course order. Drag a topic by its handle to reorder; the new order is
+// saved to order_index when it is let go.
+export const SyllabusTopicsCard = ({ classId, onChanged }: SyllabusTopicsCardProps) => {
+  const [topics, setTopics] = useState<SyllabusTopic[]>([]);
+  // A topic id, 'new' for the add form, or null
+  const [editing, setEditing] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [minutes, setMinutes] = useState('60');
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTopics();
+  }, [classId]);
+
+  const loadTopics = async () => {
+    const { data, error } = await supabase
+      .from('syllabus_topics')
+      .select('id, title, description, estimated_minutes, order_index')
+      .eq('class_id', classId)
+      .order('order_index');
+
+    if (error) {
+      console.error('Error loading topics:', error);
+      return;
+    }
+    setTopics(data || []);
+  };
+
+  const startEditing = (topic: SyllabusTopic | null) => {
+    setEditing(topic ? topic.id : 'new');
+    setTitle(topic?.title ?? '');
+    setDescription(topic?.description ?? '');
+    setMinutes(String(topic?.estimated_minutes ?? 60));
+  };
+
+  const handleSave = async () => {
+    const estimate = Number(minutes);
+    if (!title.trim()) {
+      toast.error('Give the topic a title');
+      return;
+    }
+    if (!Number.isFinite(estimate) || estimate < 0) {
+      toast.error('Estimate how many minutes the topic takes');
+      return;
+    }
+
+    const fields = {
+      title: title.trim(),
+      description: description.trim() || null,
+      estimated_minutes: Math.round(estimate),
+    };
+
+    setSaving(true);
+    try {
+      const { error } =
+        editing === 'new'
+          ? await supabase.from('syllabus_topics').insert({
+              ...fields,
+              class_id: classId,
+              order_index: Math.max(0, ...topics.map((t) => t.order_index)) + 1,
+            })
+          : await supabase.from('syllabus_topics').update(fields).eq('id', editing!);
+      if (error) throw error;
+
+      setEditing(null);
+      await loadTopics();
+      await refreshClassEstimate(classId);
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save topic';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (topic: SyllabusTopic) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('syllabus_topics').delete().eq('id', topic.id);
+      if (error) throw error;
+
+      await loadTopics();
+      await refreshClassEstimate(classId);
+      onChanged?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete topic';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The list is reordered live while dragging; only topics whose position changed are written
+  const handleDragOver = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (!draggingId || draggingId === targetId) return;
+
+    const from = topics.findIndex((t) => t.id === draggingId);
+    const to = topics.findIndex((t) => t.id === targetId);
+    setTopics(moveItem(topics, from, to));
+  };
+
+  const handleDragEnd = async () => {
+    setDraggingId(null);
+
+    const moved = topics
+      .map((topic, index) => ({ ...topic, order_index: index + 1 }))
+      .filter((topic, index) => topic.order_index !== topics[index].order_index);
+    if (moved.length === 0) return;
+
+    setTopics(topics.map((topic, index) => ({ ...topic, order_index: index + 1 })));
+    const results = await Promise.all(
+      moved.map((topic) => supabase.from('syllabus_topics').update({ order_index: topic.order_index }).eq('id', topic.id))
+    );
+
+    if (results.some((r) => r.error)) {
+      toast.error('Failed to save the new topic order');
+      await loadTopics();
+    }
+  };
+
+  const editForm = (
+    <div className="bg-card border border-neon-lime/30 rounded-2xl p-4 space-y-3">
+      <Input placeholder="e.g. Cell Respiration" value={title} onChange={(e) => setTitle(e.target.value)} autoFocus />
+      <Textarea
+        rows={2}
+        placeholder="What the topic covers (optional)"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+      />
+      <div className="flex items-center gap-3">
+        <Input type="number" min={0} className="w-28" value={minutes} onChange={(e) => setMinutes(e.target.value)} />
+        <span className="text-sm text-muted-foreground flex-1">minutes to study</span>
+        <Button variant="outline" size="sm" onClick={() => setEditing(null)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-black text-lg flex items-center gap-2">
+          <Brain className="w-5 h-5 text-neon-lime" />
+          Topics Covered
+        </h2>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">{topics.length} topics</span>
+          <Button variant="ghost" size="sm" onClick={() => startEditing(null)} disabled={saving || editing !== null}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3">
+        {topics.map((topic) =>
+          editing === topic.id ? (
+            <div key={topic.id}>{editForm}</div>
+          ) : (
+            <div
+              key={topic.id}
+              onDragOver={(e) => handleDragOver(e, topic.id)}
+              className={cn(
+                'bg-card border border-border rounded-2xl p-4 hover:border-neon-lime/30 transition-all',
+                draggingId === topic.id && 'opacity-50'
+              )}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div
+                  draggable={editing === null && !saving}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingId(topic.id);
+                  }}
+                  onDragEnd={handleDragEnd}
+                  className="cursor-grab text-muted-foreground pt-0.5"
+                  title="Drag to reorder"
+                >
+                  <GripVertical className="w-4 h-4" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-bold mb-1">{topic.title}</h3>
+                  {topic.description && (
+                    <p className="text-sm text-muted-foreground">{topic.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1.5 bg-neon-lime/10 px-3 py-1.5 rounded-full border border-neon-lime/30">
+                  <Clock className="w-3 h-3 text-neon-lime" />
+                  <span className="text-xs font-bold text-neon-lime">{topic.estimated_minutes}m</span>
+                </div>
+                <div className="flex shrink-0 -my-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => startEditing(topic)}
+                    disabled={saving || editing !== null}
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(topic)}
+                    disabled={saving || editing !== null}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      {editing === 'new' && editForm}
+
+      {topics.length === 0 && editing !== 'new' && (
+        <p className="text-sm text-muted-foreground">No topics yet. Add the units the course covers, in order.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { CalendarOff, Loader2, Plus, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { reflowAfterExceptionChange } from '@/lib/studyPlanner';
+
+interface TermException {
+  id: string;
+  class_id: string | null;
+  name: string;
+  kind: string;
+  start_date: string;
+  end_date: string;
+  source: string;
+}
+
+interface TermExceptionsCardProps {
+  classId: string;
+  userId: string;
+  onChanged?: () => void;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  holiday: 'Holiday',
+  break: 'Break',
+  cancelled: 'Class cancelled',
+};
+
+export const TermExceptionsCard = ({ classId, userId, onChanged }: TermExceptionsCardProps) => {
+  const [exceptions, setExceptions] = useState<TermException[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState('holiday');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [allClasses, setAllClasses] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadExceptions();
+  }, [classId, userId]);
+
+  const loadExceptions = async () => {
+    const { data, error } = await supabase
+      .from('term_exceptions')
+      .select('id, class_id, name, kind, start_date, end_date, source')
+      .eq('user_id', userId)
+      .or(`class_id.eq.${classId},class_id.is.null`)
+      .order('start_date');
+
+    if (error) {
+      console.error('Error loading term exceptions:', error);
+      return;
+    }
+    setExceptions(data || []);
+  };
+
+  // Moves class meetings and study sessions off (or back onto) the changed dates
+  const reflow = async (affectedClassId: string | null) => {
+    const result = await reflowAfterExceptionChange(userId, affectedClassId);
+    const moved = result.meetingsRemoved + result.meetingsAdded;
+    toast.success(`Calendar updated: ${moved} class meetings adjusted, ${result.inserted} study sessions rescheduled`);
+    onChanged?.();
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim() || !startDate) {
+      toast.error('Give the exception a name and a start date');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast.error('The end date must be on or after the start date');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const affectedClassId = allClasses ? null : classId;
+      const { error } = await supabase.from('term_exceptions').insert({
+        user_id: userId,
+        class_id: affectedClassId,
+        name: name.trim(),
+        kind,
+        start_date: startDate,
+        end_date: endDate || startDate,
+        source: 'user',
+      });
+      if (error) throw error;
+
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      setAllClasses(false);
+      setShowForm(false);
+      await loadExceptions();
+      await reflow(affectedClassId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to add exception';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (exception: TermException) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('term_exceptions').delete().eq('id', exception.id);
+      if (error) throw error;
+
+      await loadExceptions();
+      await reflow(exception.class_id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove exception';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatRange = (exception: TermException) => {
+    const start = format(parseISO(exception.start_date), 'MMM d');
+    if (exception.end_date === exception.start_date) return start;
+    return `${start} – ${format(parseISO(exception.end_date), 'MMM d')}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-black text-lg flex items-center gap-2">
+          <CalendarOff className="w-5 h-5 text-neon-lime" />
+          No-Class Dates
+        </h2>
+        <Button variant="ghost" size="sm" onClick={() => setShowForm(!showForm)} disabled={saving}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="bg-card border border-border rounded-2xl p-4 space-y-3">
+          <Input
+            placeholder="e.g. Spring Break"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Select value={kind} onValueChange={setKind}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(KIND_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-3">
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox checked={allClasses} onCheckedChange={(checked) => setAllClasses(checked === true)} />
+            Applies to all my classes
+          </label>
+          <Button onClick={handleAdd} disabled={saving} className="w-full">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save and update calendar'}
+          </Button>
+        </div>
+      )}
+
+      {exceptions.length > 0 ? (
+        <div className="grid gap-2">
+          {exceptions.map((exception) => (
+            <div key={exception.id} className="bg-card border border-border rounded-2xl p-4 flex items-center justify-between gap-3">
+              <div>
+                <div className="font-bold">{exception.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  {formatRange(exception)} • {KIND_LABELS[exception.kind] || exception.kind}
+                  {exception.class_id === null && ' • All classes'}
+                  {exception.source === 'syllabus' && ' • From syllabus'}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(exception)}
+                disabled={saving}
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !showForm && (
+          <p className="text-sm text-muted-foreground">
+            No holidays or breaks yet. Class meetings and study sessions skip any dates you add here.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 import { createContext, useContext, useState, ReactNode } from 'react';
+import { Difficulty } from '@shared/difficulty';
 
 interface ClassItem {
   id: string;
   name: string;
+  difficulty: Difficulty;
   syllabusUploaded: boolean;
   assignments?: Assignment[];
   studyPlan?: StudyBlock[];
@@ -60,6 +62,7 @@ export const OnboardingProvider = ({ children }: { children: ReactNode }) => {
     const newClass: ClassItem = {
       id: `${Date.now()}-${Math.random()}`,
       name: className,
+      difficulty: 'normal',
       syllabusUploaded: false,
     };
     setState(prev => ({ ...prev, classes: [...prev.classes, newClass] }));
@@ -1,6 +1,8 @@
 import { useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { format, parseISO, differenceInMinutes } from 'date-fns';
+import { minutesUntil, zonedNow } from '@shared/dates';
+import { getUserTimeZone } from '@/lib/timeZone';
+import { blockEmoji, blockLabel, isStudyKind } from '@/lib/blockKinds';
 
 export const useStudyReminders = () => {
   useEffect(() => {
@@ -25,9 +27,10 @@ export const useStudyReminders = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Block times are wall-clock times in the user's timezone
+      const timeZone = await getUserTimeZone(user.id);
       const now = new Date();
-      const todayDate = format(now, 'yyyy-MM-dd');
-      const currentTime = format(now, 'HH:mm');
+      const { date: todayDate } = zonedNow(timeZone, now);
 
       // Get study blocks for today
       const { data: blocks } = await supabase
@@ -45,16 +48,15 @@ export const useStudyReminders = () => {
       for (const block of blocks) {
         if (!block.start_time) continue;
 
-        const blockDateTime = parseISO(`${block.block_date}T${block.start_time}`);
-        const minutesUntil = differenceInMinutes(blockDateTime, now);
+        const minutesLeft = minutesUntil(block.block_date, block.start_time, timeZone, now);
 
         // Notify 15 minutes before
-        if (minutesUntil === 15) {
+        if (minutesLeft === 15) {
           showNotification(block);
         }
 
         // Notify at start time
-        if (minutesUntil === 0) {
+        if (minutesLeft === 0) {
           showNotification(block, true);
         }
       }
@@ -66,13 +68,21 @@ export const useStudyReminders = () => {
   const showNotification = (block: any, isNow: boolean = false) => {
     if (Notification.permission !== 'granted') return;
 
-    const title = isNow 
-      ? '🎯 Study Time NOW!'
-      : '⏰ Study Session Starting Soon';
-    
-    const body = isNow
-      ? `Time to study ${block.classes?.name}! Tap to start your nudge.`
-      : `${block.classes?.name} in 15 minutes. Get ready!`;
+    // Only study and review blocks have a nudge to start; the rest are plain heads-ups
+    const studying = isStudyKind(block.kind);
+    const label = blockLabel(block);
+
+    const title = studying
+      ? isNow
+        ? '🎯 Study Time NOW!'
+        : '⏰ Study Session Starting Soon'
+      : `${blockEmoji(block.kind)} ${label} ${isNow ? 'now' : 'in 15 minutes'}`;
+
+    const body = studying
+      ? isNow
+        ? `Time to study ${block.classes?.name}! Tap to start your nudge.`
+        : `${block.classes?.name} in 15 minutes. Get ready!`
+      : `${block.classes?.name}: ${label} ${isNow ? 'is starting now' : 'starts in 15 minutes'}.`;
 
     const notification = new Notification(title, {
       body,
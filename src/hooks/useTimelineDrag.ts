@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type TimelineDragMode = 'move' | 'resize';
+
+// Where a dragged block would land: minutes since midnight, and days from its own day
+export interface TimelinePreview {
+  blockId: string;
+  startMinutes: number;
+  durationMinutes: number;
+  dayOffset: number;
+}
+
+interface TimelineDragOptions {
+  // First and last minute of the day the timeline shows
+  dayStart: number;
+  dayEnd: number;
+  // Minutes one pixel of the timeline stands for, measured when a drag starts. Without
+  // it, dragging never changes the time.
+  minutesPerPixel?: () => number;
+  // Width of one day column in pixels, for timelines laid out in days side by side.
+  // Without it, dragging never changes the day.
+  pixelsPerDay?: () => number;
+  onDrop: (preview: TimelinePreview) => void;
+  snapMinutes?: number;
+  minDuration?: number;
+}
+
+interface ActiveDrag {
+  blockId: string;
+  mode: TimelineDragMode;
+  startX: number;
+  startY: number;
+  startMinutes: number;
+  durationMinutes: number;
+  scale: number;
+  dayWidth: number;
+  dayOffsets: [number, number];
+}
+
+// Pointer movement below this many pixels is a click, not a drag
+const DRAG_THRESHOLD = 4;
+
+// Dragging blocks up and down a day timeline to move them, or dragging their bottom
+// edge to resize them. Times snap to snapMinutes and stay inside the visible day. With
+// day columns, dragging sideways moves a block to another visible day. Pointer events
+// work the same for mouse, pen and touch.
+export const useTimelineDrag = ({
+  dayStart,
+  dayEnd,
+  minutesPerPixel,
+  pixelsPerDay,
+  onDrop,
+  snapMinutes = 15,
+  minDuration = 15,
+}: TimelineDragOptions) => {
+  const [active, setActive] = useState<ActiveDrag | null>(null);
+  const [preview, setPreview] = useState<TimelinePreview | null>(null);
+  // Set when a drag ends, so the click that follows the pointerup is ignored
+  const draggedRef = useRef(false);
+
+  // dayOffsets: how many visible days lie before and after the block's own day
+  const startDrag = useCallback(
+    (
+      e: React.PointerEvent,
+      blockId: string,
+      mode: TimelineDragMode,
+      startMinutes: number,
+      durationMinutes: number,
+      dayOffsets: [number, number] = [0, 0]
+    ) => {
+      if (e.button !== 0) return;
+      e.stopPropagation();
+      draggedRef.current = false;
+      setActive({
+        blockId,
+        mode,
+        startX: e.clientX,
+        startY: e.clientY,
+        startMinutes,
+        durationMinutes,
+        scale: minutesPerPixel?.() ?? 0,
+        dayWidth: pixelsPerDay?.() ?? 0,
+        dayOffsets,
+      });
+    },
+    [minutesPerPixel, pixelsPerDay]
+  );
+
+  useEffect(() => {
+    if (!active) return;
+
+    const landing = (clientX: number, clientY: number): TimelinePreview | null => {
+      const distanceX = clientX - active.startX;
+      const distanceY = clientY - active.startY;
+      if (Math.hypot(distanceX, distanceY) < DRAG_THRESHOLD) return null;
+
+      const delta = Math.round((distanceY * active.scale) / snapMinutes) * snapMinutes;
+      if (active.mode === 'move') {
+        const startMinutes = active.scale
+          ? Math.min(Math.max(active.startMinutes + delta, dayStart), dayEnd - active.durationMinutes)
+          : active.startMinutes;
+        const [daysBefore, daysAfter] = active.dayOffsets;
+        const dayOffset = active.dayWidth
+          ? Math.min(Math.max(Math.round(distanceX / active.dayWidth), -daysBefore), daysAfter)
+          : 0;
+        return { blockId: active.blockId, startMinutes, durationMinutes: active.durationMinutes, dayOffset };
+      }
+
+      const durationMinutes = Math.min(Math.max(active.durationMinutes + delta, minDuration), dayEnd - active.startMinutes);
+      return { blockId: active.blockId, startMinutes: active.startMinutes, durationMinutes, dayOffset: 0 };
+    };
+
+    const handleMove = (e: PointerEvent) => setPreview(landing(e.clientX, e.clientY));
+
+    const handleUp = (e: PointerEvent) => {
+      const result = landing(e.clientX, e.clientY);
+      setActive(null);
+      setPreview(null);
+      if (!result) return;
+
+      // The click that follows a drag lands wherever the pointer was let go, which may
+      // not be the dragged block, so the mark only lasts until that click is dispatched
+      draggedRef.current = true;
+      setTimeout(() => {
+        draggedRef.current = false;
+      }, 0);
+      if (
+        result.startMinutes !== active.startMinutes ||
+        result.durationMinutes !== active.durationMinutes ||
+        result.dayOffset !== 0
+      ) {
+        onDrop(result);
+      }
+    };
+
+    const handleCancel = () => {
+      setActive(null);
+      setPreview(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleCancel);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleCancel);
+    };
+  }, [active, dayStart, dayEnd, snapMinutes, minDuration, onDrop]);
+
+  // True once for the click that ends a drag
+  const consumeDrag = useCallback(() => {
+    const dragged = draggedRef.current;
+    draggedRef.current = false;
+    return dragged;
+  }, []);
+
+  return { preview, dragging: active !== null, startDrag, consumeDrag };
+};
@@ -14,43 +14,34 @@ export type Database = {
   }
   public: {
     Tables: {
-      assignments: {
+      calendar_class_rules: {
         Row: {
-          class_id: string
+          class_id: string | null
           created_at: string | null
-          description: string | null
-          due_date: string | null
-          estimated_minutes: number | null
+          event_label: string
           id: string
-          title: string
-          type: string | null
+          skip: boolean
           user_id: string
         }
         Insert: {
-          class_id: string
+          class_id?: string | null
           created_at?: string | null
-          description?: string | null
-          due_date?: string | null
-          estimated_minutes?: number | null
+          event_label: string
           id?: string
-          title: string
-          type?: string | null
+          skip?: boolean
           user_id: string
         }
         Update: {
-          class_id?: string
+          class_id?: string | null
           created_at?: string | null
-          description?: string | null
-          due_date?: string | null
-          estimated_minutes?: number | null
+          event_label?: string
           id?: string
-          title?: string
-          type?: string | null
+          skip?: boolean
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "assignments_class_id_fkey"
+            foreignKeyName: "calendar_class_rules_class_id_fkey"
             columns: ["class_id"]
             isOneToOne: false
             referencedRelation: "classes"
@@ -58,6 +49,27 @@ export type Database = {
           },
         ]
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          rotated_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          rotated_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          rotated_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       classes: {
         Row: {
           ai_parsed: boolean | null
@@ -67,6 +79,7 @@ export type Database = {
           estimated_total_minutes: number | null
           id: string
           last_studied_date: string | null
+          meeting_schedule: Json | null
           name: string
           progress_percentage: number | null
           streak: number | null
@@ -83,6 +96,7 @@ export type Database = {
           estimated_total_minutes?: number | null
           id?: string
           last_studied_date?: string | null
+          meeting_schedule?: Json | null
           name: string
           progress_percentage?: number | null
           streak?: number | null
@@ -99,6 +113,7 @@ export type Database = {
           estimated_total_minutes?: number | null
           id?: string
           last_studied_date?: string | null
+          meeting_schedule?: Json | null
           name?: string
           progress_percentage?: number | null
           streak?: number | null
@@ -249,6 +264,94 @@ export type Database = {
         }
         Relationships: []
       }
+      grading_categories: {
+        Row: {
+          class_id: string
+          created_at: string | null
+          id: string
+          name: string
+          weight: number
+        }
+        Insert: {
+          class_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          weight: number
+        }
+        Update: {
+          class_id?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grading_categories_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parse_jobs: {
+        Row: {
+          assignments_count: number | null
+          blocks_count: number | null
+          class_id: string
+          created_at: string | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          mode: string
+          result: Json | null
+          status: string
+          topics_count: number | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          assignments_count?: number | null
+          blocks_count?: number | null
+          class_id: string
+          created_at?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          mode?: string
+          result?: Json | null
+          status?: string
+          topics_count?: number | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          assignments_count?: number | null
+          blocks_count?: number | null
+          class_id?: string
+          created_at?: string | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          mode?: string
+          result?: Json | null
+          status?: string
+          topics_count?: number | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parse_jobs_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pinky_promises: {
         Row: {
           block_id: string
@@ -290,7 +393,9 @@ export type Database = {
           latest_study_time: string | null
           longest_streak: number | null
           photo_url: string | null
+          reading_minutes_per_page: number | null
           streak: number | null
+          timezone: string | null
           total_minutes: number | null
           updated_at: string | null
           user_id: string
@@ -311,7 +416,9 @@ export type Database = {
           latest_study_time?: string | null
           longest_streak?: number | null
           photo_url?: string | null
+          reading_minutes_per_page?: number | null
           streak?: number | null
+          timezone?: string | null
           total_minutes?: number | null
           updated_at?: string | null
           user_id: string
@@ -332,7 +439,9 @@ export type Database = {
           latest_study_time?: string | null
           longest_streak?: number | null
           photo_url?: string | null
+          reading_minutes_per_page?: number | null
           streak?: number | null
+          timezone?: string | null
           total_minutes?: number | null
           updated_at?: string | null
           user_id?: string
@@ -377,31 +486,58 @@ export type Database = {
       study_blocks: {
         Row: {
           assignment_id: string | null
+          attendance: string | null
           block_date: string
+          catch_up_for_block_id: string | null
           class_id: string
           created_at: string | null
           duration_minutes: number
+          external_recurrence_id: string | null
+          external_uid: string | null
           id: string
+          import_source: string | null
+          kind: string
+          location: string | null
+          meeting_kind: string | null
+          source: string
           start_time: string | null
           user_id: string
         }
         Insert: {
           assignment_id?: string | null
+          attendance?: string | null
           block_date: string
+          catch_up_for_block_id?: string | null
           class_id: string
           created_at?: string | null
           duration_minutes: number
+          external_recurrence_id?: string | null
+          external_uid?: string | null
           id?: string
+          import_source?: string | null
+          kind?: string
+          location?: string | null
+          meeting_kind?: string | null
+          source?: string
           start_time?: string | null
           user_id: string
         }
         Update: {
           assignment_id?: string | null
+          attendance?: string | null
           block_date?: string
+          catch_up_for_block_id?: string | null
           class_id?: string
           created_at?: string | null
           duration_minutes?: number
+          external_recurrence_id?: string | null
+          external_uid?: string | null
           id?: string
+          import_source?: string | null
+          kind?: string
+          location?: string | null
+          meeting_kind?: string | null
+          source?: string
           start_time?: string | null
           user_id?: string
         }
@@ -410,7 +546,14 @@ export type Database = {
             foreignKeyName: "study_blocks_assignment_id_fkey"
             columns: ["assignment_id"]
             isOneToOne: false
-            referencedRelation: "assignments"
+            referencedRelation: "syllabus_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_blocks_catch_up_for_block_id_fkey"
+            columns: ["catch_up_for_block_id"]
+            isOneToOne: false
+            referencedRelation: "study_blocks"
             referencedColumns: ["id"]
           },
           {
@@ -479,7 +622,7 @@ export type Database = {
             foreignKeyName: "study_sessions_assignment_id_fkey"
             columns: ["assignment_id"]
             isOneToOne: false
-            referencedRelation: "assignments"
+            referencedRelation: "syllabus_assignments"
             referencedColumns: ["id"]
           },
           {
@@ -493,31 +636,55 @@ export type Database = {
       }
       syllabus_assignments: {
         Row: {
+          category: string | null
+          chapter: string | null
           class_id: string
+          completed_at: string | null
           created_at: string | null
+          description: string | null
           due_date: string | null
           estimated_minutes: number
           id: string
+          page_end: number | null
+          page_start: number | null
+          textbook: string | null
           title: string
           type: string | null
+          weight: number | null
         }
         Insert: {
+          category?: string | null
+          chapter?: string | null
           class_id: string
+          completed_at?: string | null
           created_at?: string | null
+          description?: string | null
           due_date?: string | null
           estimated_minutes?: number
           id?: string
+          page_end?: number | null
+          page_start?: number | null
+          textbook?: string | null
           title: string
           type?: string | null
+          weight?: number | null
         }
         Update: {
+          category?: string | null
+          chapter?: string | null
           class_id?: string
+          completed_at?: string | null
           created_at?: string | null
+          description?: string | null
           due_date?: string | null
           estimated_minutes?: number
           id?: string
+          page_end?: number | null
+          page_start?: number | null
+          textbook?: string | null
           title?: string
           type?: string | null
+          weight?: number | null
         }
         Relationships: [
           {
@@ -567,11 +734,90 @@ export type Database = {
           },
         ]
       }
+      term_exceptions: {
+        Row: {
+          class_id: string | null
+          created_at: string | null
+          end_date: string
+          id: string
+          kind: string
+          name: string
+          source: string
+          start_date: string
+          user_id: string
+        }
+        Insert: {
+          class_id?: string | null
+          created_at?: string | null
+          end_date: string
+          id?: string
+          kind?: string
+          name: string
+          source?: string
+          start_date: string
+          user_id: string
+        }
+        Update: {
+          class_id?: string | null
+          created_at?: string | null
+          end_date?: string
+          id?: string
+          kind?: string
+          name?: string
+          source?: string
+          start_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "term_exceptions_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_calendar_import: {
+        Args: {
+          p_deleted_block_ids: string[]
+          p_inserts: Json
+          p_updates: Json
+        }
+        Returns: Json
+      }
+      apply_syllabus_diff: {
+        Args: {
+          p_assignments: Json
+          p_blocks: Json
+          p_class_id: string
+          p_exceptions?: Json
+          p_grading_categories?: Json
+          p_removed_assignment_ids: string[]
+          p_removed_topic_ids: string[]
+          p_schedule?: Json
+          p_topics: Json
+          p_total_minutes: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      replace_study_blocks: {
+        Args: {
+          p_blocks: Json
+          p_removed_block_ids: string[]
+        }
+        Returns: Json
+      }
+      rotate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       update_class_streak: {
         Args: { p_class_id: string; p_minutes: number; p_user_id: string }
         Returns: undefined
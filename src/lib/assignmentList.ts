@@ -0,0 +1,132 @@
+import { normalizeDate } from '@shared/dateText';
+import { readingMinutes } from '@shared/reading';
+import { DraftAssignment } from '@/lib/syllabusDraft';
+
+// Reads a pasted plain-text assignment list, one assignment per line, such as
+//   Problem Set 1 - due 9/15
+//   Oct 20: Midterm Exam (20%)
+//   Read Campbell Ch. 3, pp. 45-72 by Sept 5
+// Parsed in the browser without the AI. Whatever cannot be worked out from a line is
+// left for the student to fill in and highlighted like an unsure parser field.
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const WEEKDAY = '(?:(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)[a-z]*\\.?,?\\s+)?';
+
+// Date formats that normalizeDate understands, as they appear inside a line
+const DATE_PATTERNS = [
+  /\b\d{4}-\d{1,2}-\d{1,2}\b/,
+  /\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/,
+  new RegExp(`\\b${WEEKDAY}${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`, 'i'),
+  new RegExp(`\\b${WEEKDAY}\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH}(?:,?\\s+\\d{4})?(?![a-z])`, 'i'),
+];
+
+// Checked in order, so "Final Project" is a project and "Lab Report" is homework
+const TYPE_KEYWORDS: [RegExp, string][] = [
+  [/\b(read|reading|readings|chapters?|pages?)\b|\b(ch|pp?)\.\s*\d/i, 'reading'],
+  [/\b(project|paper|essay|presentation|portfolio)\b|(?<!lab )\breport\b/i, 'project'],
+  [/\b(hw|homework|problem set|pset|ps\s?\d+|worksheet|exercises?|lab)\b/i, 'hw'],
+  [/\b(exam|midterm|final|quiz|test)\b/i, 'exam'],
+];
+
+// Starting estimates by type when the line gives none; the student can adjust them
+const DEFAULT_MINUTES: Record<string, number> = {
+  reading: 45,
+  hw: 90,
+  project: 240,
+  exam: 180,
+};
+
+// Leftovers around a removed date: "due", "by", "on" and separators at either end
+const LEADING_NOISE = /^[\s\-–—:|,;•*>]+|^(?:\d+[.)]\s+)/;
+const TRAILING_NOISE = /[\s\-–—:|,;(]+$|\s+(?:due|by|on)(?:\s+(?:on|by))?$/i;
+
+function cleanTitle(text: string): string {
+  let title = text.replace(/\s+/g, ' ').trim();
+  let previous = '';
+  while (previous !== title) {
+    previous = title;
+    title = title
+      .replace(LEADING_NOISE, '')
+      .replace(/^(?:due|by|on)\b\s*/i, '')
+      .replace(TRAILING_NOISE, '')
+      .replace(/\(\s*\)/g, '')
+      .trim();
+  }
+  return title;
+}
+
+function takeMatch(text: string, pattern: RegExp): { match: RegExpMatchArray | null; rest: string } {
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) return { match: null, rest: text };
+  return { match, rest: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}` };
+}
+
+export function parseAssignmentLine(line: string, fallbackYear: number, minutesPerPage: number): DraftAssignment | null {
+  let rest = line.trim();
+  if (!rest) return null;
+
+  let dueDate: string | null = null;
+  for (const pattern of DATE_PATTERNS) {
+    const { match, rest: remaining } = takeMatch(rest, pattern);
+    const date = match && normalizeDate(match[0].replace(new RegExp(`^${WEEKDAY}`, 'i'), ''), fallbackYear);
+    if (date) {
+      dueDate = date;
+      rest = remaining;
+      break;
+    }
+  }
+
+  // "(20%)" is a grade weight, "(90 min)" or "2h" an estimate
+  const weightMatch = takeMatch(rest, /\(?\b(\d{1,3}(?:\.\d+)?)\s*%\)?/);
+  const weight = weightMatch.match ? Number(weightMatch.match[1]) : null;
+  if (weight !== null && weight > 0 && weight <= 100) rest = weightMatch.rest;
+
+  const minutesMatch = takeMatch(rest, /\(?~?\b(\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|hrs?|h)\b\)?/i);
+  let estimatedMinutes: number | undefined;
+  if (minutesMatch.match) {
+    const amount = Number(minutesMatch.match[1]);
+    estimatedMinutes = Math.round(/^h/i.test(minutesMatch.match[2]) ? amount * 60 : amount);
+    rest = minutesMatch.rest;
+  }
+
+  const title = cleanTitle(rest);
+  if (!title) return null;
+
+  const keywordType = TYPE_KEYWORDS.find(([pattern]) => pattern.test(title))?.[1];
+  const type = keywordType ?? 'hw';
+
+  const pages = title.match(/\b(?:pp?\.|pages?)\s*(\d+)\s*[-–]\s*(\d+)/i);
+  const pageStart = pages ? Number(pages[1]) : null;
+  const pageEnd = pages ? Number(pages[2]) : null;
+  const chapter = title.match(/\b(?:ch\.|chapter)\s*(\d+[a-z]?)\b/i)?.[1] ?? null;
+
+  if (estimatedMinutes === undefined) {
+    const fromPages = type === 'reading' ? readingMinutes({ pageStart, pageEnd }, minutesPerPage) : null;
+    estimatedMinutes = fromPages ?? DEFAULT_MINUTES[type];
+  }
+
+  return {
+    title,
+    dueDate,
+    type,
+    estimatedMinutes,
+    category: null,
+    weight: weight !== null && weight > 0 && weight <= 100 ? weight : null,
+    textbook: null,
+    chapter,
+    pageStart,
+    pageEnd,
+    // Highlight what had to be guessed
+    confidence: {
+      ...(dueDate ? {} : { dueDate: 0 }),
+      ...(keywordType ? {} : { type: 0.5 }),
+    },
+  };
+}
+
+export function parseAssignmentList(text: string, fallbackYear: number, minutesPerPage: number): DraftAssignment[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => parseAssignmentLine(line, fallbackYear, minutesPerPage))
+    .filter((assignment): assignment is DraftAssignment => assignment !== null);
+}
@@ -0,0 +1,15 @@
+export type Attendance = 'attended' | 'missed' | 'cancelled';
+
+export const ATTENDANCE_LABELS: Record<Attendance, string> = {
+  attended: 'Attended',
+  missed: 'Missed',
+  cancelled: 'Cancelled',
+};
+
+// Share of held meetings the student attended; cancelled meetings don't count either way.
+// Null until at least one meeting is marked attended or missed.
+export const attendanceRate = (blocks: { attendance: string | null }[]) => {
+  const attended = blocks.filter((b) => b.attendance === 'attended').length;
+  const held = attended + blocks.filter((b) => b.attendance === 'missed').length;
+  return held > 0 ? Math.round((attended / held) * 100) : null;
+};
@@ -0,0 +1,27 @@
+import { BLOCK_KIND_LABELS, BLOCK_KINDS, BlockKind, isStudyKind } from '@shared/blockKinds';
+import { meetingLabel } from '@/lib/meetingKinds';
+
+export type { BlockKind };
+export { BLOCK_KIND_LABELS, BLOCK_KINDS, isStudyKind };
+
+export const BLOCK_KIND_EMOJI: Record<BlockKind, string> = {
+  class_meeting: '🎓',
+  study: '📚',
+  review: '🧠',
+  exam: '📝',
+  custom: '📌',
+};
+
+interface LabelledBlock {
+  kind: string;
+  meeting_kind?: string | null;
+  location?: string | null;
+}
+
+// "Lab · Science 210" for class meetings, "Review session" and so on for the rest
+export const blockLabel = (block: LabelledBlock) =>
+  (block.kind === 'class_meeting' && meetingLabel(block.meeting_kind, block.location)) ||
+  BLOCK_KIND_LABELS[block.kind as BlockKind] ||
+  BLOCK_KIND_LABELS.study;
+
+export const blockEmoji = (kind: string) => BLOCK_KIND_EMOJI[kind as BlockKind] || BLOCK_KIND_EMOJI.study;
@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// https URL of the student's feed, for pasting into "Add calendar from URL"
+export const feedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+
+// webcal:// opens the subscribe prompt of the system calendar app
+export const webcalUrl = (token: string) => feedUrl(token).replace(/^https?:/, 'webcal:');
+
+// Replaces the student's feed token (creating it the first time) and returns the new one.
+// Calendars subscribed with the old token stop updating.
+export async function rotateFeedToken(): Promise<string> {
+  const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+  if (error) throw error;
+  return data;
+}
+
+export async function loadFeedToken(userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.token ?? rotateFeedToken();
+}
+
+// Saves the calendar the feed serves as a one-off nudge.ics download. It is fetched
+// from the feed itself, so the file and subscribed calendars always agree.
+export async function downloadCalendar(userId: string) {
+  const token = await loadFeedToken(userId);
+  const response = await fetch(feedUrl(token));
+  if (!response.ok) throw new Error(`Could not load your calendar (${response.status})`);
+
+  const blob = new Blob([await response.text()], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'nudge.ics';
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,32 @@
+import { blocksOverlap, findConflicts, TimedBlock } from '@shared/conflicts';
+
+export type { TimedBlock };
+export { blocksOverlap, findConflicts };
+
+interface BlockRow {
+  id: string;
+  block_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+  kind: string;
+  attendance?: string | null;
+}
+
+// A study_blocks row in the shape the overlap checks take
+export const timedBlock = (row: BlockRow): TimedBlock => ({
+  id: row.id,
+  blockDate: row.block_date,
+  startTime: row.start_time,
+  durationMinutes: row.duration_minutes,
+  kind: row.kind,
+  attendance: row.attendance,
+});
+
+// Blocks of `blocks` that overlap each block, by block id, e.g. to badge them on the calendar
+export function conflictsByBlock<T extends BlockRow>(blocks: T[]): Map<string, T[]> {
+  const rows = new Map(blocks.map((b) => [b.id, b]));
+  const conflicts = findConflicts(blocks.map(timedBlock));
+  return new Map(
+    [...conflicts].map(([id, overlapping]) => [id, overlapping.map((b) => rows.get(b.id) as T)])
+  );
+}
@@ -0,0 +1,510 @@
+import ICAL from 'ical.js';
+import { supabase } from '@/integrations/supabase/client';
+import { blocksOverlap, TimedBlock } from '@shared/conflicts';
+import { addDays, isValidTimeZone, todayInZone, zonedNow, zonedTimeToUtc } from '@shared/dates';
+import { importedClassLabel, MatchableClass, matchClass, MatchKind, normalizeClassLabel } from '@shared/classMatching';
+import { UID_DOMAIN } from '@shared/icalendar';
+import { MeetingSchedule } from '@shared/meetings';
+import { BlockKind } from '@/lib/blockKinds';
+import { MeetingKind } from '@/lib/meetingKinds';
+import { loadAttachedBlockIds } from '@/lib/studyPlanner';
+import { getUserTimeZone } from '@/lib/timeZone';
+
+// Recurring events are expanded up to the end of the current term, or this many days
+// ahead when no class has term dates
+const DEFAULT_TERM_DAYS = 120;
+// Upper bound on blocks from one recurring event, in case a rule is far denser than a class
+const MAX_OCCURRENCES = 500;
+
+// One occurrence of a calendar event, as the block it becomes
+export interface ImportedEvent {
+  uid: string;
+  // Original start of the occurrence of a recurring event; null for one-off events
+  recurrenceId: string | null;
+  summary: string;
+  // The course the event names, before it is matched to a class
+  classLabel: string;
+  blockDate: string;
+  startTime: string | null;
+  durationMinutes: number;
+  location: string | null;
+  kind: BlockKind;
+  meetingKind: MeetingKind | null;
+}
+
+export interface RemovedBlock {
+  blockId: string;
+  blockDate: string;
+  startTime: string | null;
+  className: string | null;
+}
+
+// Where the events of one class label go
+export type ClassTarget = { type: 'class'; classId: string } | { type: 'new' } | { type: 'skip' };
+
+// How a mapping was arrived at: a remembered rule, a class match, the student's choice,
+// or nothing (a new class)
+export type MappingOrigin = 'rule' | MatchKind | 'user' | 'none';
+
+export interface ClassMapping {
+  label: string;
+  eventCount: number;
+  target: ClassTarget;
+  origin: MappingOrigin;
+}
+
+export interface PlannedEvent {
+  event: ImportedEvent;
+  target: ClassTarget;
+}
+
+// A parsed calendar file and the state it is compared against, read once so the class
+// mappings can be changed and the plan redone without reloading
+export interface ImportDraft {
+  source: string;
+  skipped: number;
+  today: string;
+  events: ImportedEvent[];
+  blocks: ImportedBlockRow[];
+  attachedBlockIds: Set<string>;
+  // Upcoming blocks from anywhere but this calendar, which imported events should not overlap
+  otherBlocks: TimedBlock[];
+  classes: MatchableClass[];
+  mappings: ClassMapping[];
+}
+
+// What importing a calendar file would change, shown to the student before it is applied
+export interface ImportPlan {
+  source: string;
+  inserts: PlannedEvent[];
+  updates: (PlannedEvent & { blockId: string })[];
+  deletes: RemovedBlock[];
+  unchanged: number;
+  // Events the app exported itself, which are already on the calendar
+  skipped: number;
+  // Events of class labels the student chose to skip
+  ignored: number;
+  // Added or changed events that overlap something else on the calendar
+  conflicts: number;
+}
+
+export interface ImportResult {
+  inserted: number;
+  updated: number;
+  deleted: number;
+}
+
+export interface ImportedBlockRow {
+  id: string;
+  class_id: string;
+  block_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+  kind: string;
+  meeting_kind: string | null;
+  location: string | null;
+  attendance: string | null;
+  import_source: string | null;
+  external_uid: string | null;
+  external_recurrence_id: string | null;
+  classes: { name: string } | null;
+}
+
+interface RuleRow {
+  event_label: string;
+  class_id: string | null;
+}
+
+// Lecture/Lab/Discussion events are class meetings and Exam/Quiz events are exams; the rest stay plain events
+export const importedKind = (summary: string): { kind: BlockKind; meetingKind: MeetingKind | null } => {
+  const prefix = summary.match(/^(\w+):/)?.[1]?.toLowerCase();
+  if (prefix === 'lecture') return { kind: 'class_meeting', meetingKind: 'lecture' };
+  if (prefix === 'lab') return { kind: 'class_meeting', meetingKind: 'lab' };
+  if (prefix === 'discussion') return { kind: 'class_meeting', meetingKind: 'recitation' };
+  if (prefix === 'exam' || prefix === 'quiz') return { kind: 'exam', meetingKind: null };
+  return { kind: 'custom', meetingKind: null };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The block date and start time (null for all-day events) of an event time. UTC times
+// and times in a zone the file defines are converted to the student's timezone; other
+// TZIDs are looked up by name, and floating times are taken as they are.
+function localDateTime(time: ICAL.Time, tzid: string | null, timeZone: string) {
+  const date = `${time.year}-${pad(time.month)}-${pad(time.day)}`;
+  if (time.isDate) return { date, time: null };
+
+  if (time.zone && time.zone.tzid !== 'floating') return zonedNow(timeZone, time.toJSDate());
+
+  const wallClock = `${pad(time.hour)}:${pad(time.minute)}`;
+  if (tzid && isValidTimeZone(tzid)) return zonedNow(timeZone, zonedTimeToUtc(date, wallClock, tzid));
+  return { date, time: wallClock };
+}
+
+function toImportedEvent(
+  event: ICAL.Event,
+  start: ICAL.Time,
+  end: ICAL.Time | null,
+  recurrenceId: string | null,
+  timeZone: string
+): ImportedEvent {
+  const summary = event.summary || 'Untitled Event';
+  const tzid = event.component.getFirstProperty('dtstart')?.getParameter('tzid');
+  const local = localDateTime(start, typeof tzid === 'string' ? tzid : null, timeZone);
+  const minutes = end ? Math.round(end.subtractDateTz(start).toSeconds() / 60) : 0;
+  const { kind, meetingKind } = importedKind(summary);
+
+  return {
+    uid: event.uid,
+    recurrenceId,
+    summary,
+    classLabel: importedClassLabel(summary),
+    blockDate: local.date,
+    startTime: local.time,
+    // Default to 60 minutes if there is no usable end time
+    durationMinutes: minutes > 0 ? minutes : 60,
+    location: event.location || null,
+    kind,
+    meetingKind,
+  };
+}
+
+// The span recurring events are expanded over: the current term of the student's classes
+function importWindow(schedules: (MeetingSchedule | null)[], today: string) {
+  const current = schedules.filter((s): s is MeetingSchedule => !!s?.endDate && s.endDate >= today);
+  const starts = current.map((s) => s.startDate).filter((d): d is string => !!d);
+  const ends = current.map((s) => s.endDate as string);
+
+  return {
+    start: starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : today,
+    end: ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : addDays(today, DEFAULT_TERM_DAYS),
+  };
+}
+
+// Reads every event of an .ics file, expanding RRULE/RDATE/EXDATE and moved occurrences
+// of recurring events within the term
+export function parseCalendarFile(content: string, timeZone: string, term: { start: string; end: string }) {
+  const calendar = new ICAL.Component(ICAL.parse(content));
+  for (const zone of calendar.getAllSubcomponents('vtimezone')) {
+    ICAL.TimezoneService.register(zone);
+  }
+
+  const components = calendar.getAllSubcomponents('vevent');
+  if (components.length === 0) {
+    throw new Error('No events found in calendar file');
+  }
+
+  const source = String(calendar.getFirstPropertyValue('x-wr-calname') || calendar.getFirstPropertyValue('prodid') || 'ics').trim();
+  const masterUids = new Set(
+    components.filter((c) => !c.hasProperty('recurrence-id')).map((c) => String(c.getFirstPropertyValue('uid')))
+  );
+
+  const events: ImportedEvent[] = [];
+  let skipped = 0;
+
+  for (const component of components) {
+    const event = new ICAL.Event(component);
+
+    if (event.uid?.endsWith(`@${UID_DOMAIN}`)) {
+      skipped++;
+      continue;
+    }
+
+    if (event.isRecurrenceException()) {
+      // Moved occurrences come out of their recurring event's expansion below
+      if (!masterUids.has(event.uid)) {
+        events.push(toImportedEvent(event, event.startDate, event.endDate, event.recurrenceId.toString(), timeZone));
+      }
+      continue;
+    }
+
+    if (!event.isRecurring()) {
+      events.push(toImportedEvent(event, event.startDate, event.endDate, null, timeZone));
+      continue;
+    }
+
+    const occurrences = event.iterator();
+    let count = 0;
+    for (let next = occurrences.next(); next && count < MAX_OCCURRENCES; next = occurrences.next()) {
+      // Occurrences come in order of their original start, which a moved one no longer has
+      if (next.toString().slice(0, 10) > term.end) break;
+
+      const details = event.getOccurrenceDetails(next);
+      const occurrence = toImportedEvent(details.item, details.startDate, details.endDate, details.recurrenceId.toString(), timeZone);
+      if (occurrence.blockDate < term.start) continue;
+      events.push(occurrence);
+      count++;
+    }
+  }
+
+  return { source, events, skipped };
+}
+
+const eventKey = (uid: string, recurrenceId: string | null) => `${uid}|${recurrenceId ?? ''}`;
+
+const slotKey = (date: string, time: string | null) => `${date}|${time?.slice(0, 5) ?? ''}`;
+
+// Whether a block already sits in the class an event is mapped to
+const inTargetClass = (row: ImportedBlockRow, event: ImportedEvent, target: ClassTarget) =>
+  target.type === 'class' ? row.class_id === target.classId : row.classes?.name === event.classLabel;
+
+const isChanged = (row: ImportedBlockRow, event: ImportedEvent, target: ClassTarget) =>
+  row.block_date !== event.blockDate ||
+  (row.start_time?.slice(0, 5) ?? null) !== event.startTime ||
+  row.duration_minutes !== event.durationMinutes ||
+  row.location !== event.location ||
+  row.kind !== event.kind ||
+  row.meeting_kind !== event.meetingKind ||
+  !inTargetClass(row, event, target);
+
+// The class each label's events go to: a remembered rule, else the closest existing
+// class, else a new class named after the label
+function suggestMappings(events: ImportedEvent[], classes: MatchableClass[], rules: RuleRow[]): ClassMapping[] {
+  const ruleByLabel = new Map(rules.map((rule) => [rule.event_label, rule]));
+  const counts = new Map<string, number>();
+  for (const event of events) counts.set(event.classLabel, (counts.get(event.classLabel) || 0) + 1);
+
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, eventCount]): ClassMapping => {
+      const rule = ruleByLabel.get(normalizeClassLabel(label));
+      if (rule) {
+        const target: ClassTarget = rule.class_id ? { type: 'class', classId: rule.class_id } : { type: 'skip' };
+        return { label, eventCount, target, origin: 'rule' };
+      }
+
+      const match = matchClass(label, classes);
+      return match
+        ? { label, eventCount, target: { type: 'class', classId: match.classId }, origin: match.match }
+        : { label, eventCount, target: { type: 'new' }, origin: 'none' };
+    });
+}
+
+// Reads a calendar file together with everything needed to plan its import: earlier
+// imports, the student's classes and remembered class rules
+export async function readCalendarImport(userId: string, content: string): Promise<ImportDraft> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = todayInZone(timeZone);
+
+  const [
+    { data: classes, error: classesError },
+    { data: blocks, error: blocksError },
+    { data: rules, error: rulesError },
+    { data: otherBlocks, error: otherBlocksError },
+  ] = await Promise.all([
+    supabase.from('classes').select('id, name, title, meeting_schedule').eq('user_id', userId).order('name'),
+    supabase
+      .from('study_blocks')
+      .select('id, class_id, block_date, start_time, duration_minutes, kind, meeting_kind, location, attendance, import_source, external_uid, external_recurrence_id, classes(name)')
+      .eq('user_id', userId)
+      .eq('source', 'ics'),
+    supabase.from('calendar_class_rules').select('event_label, class_id').eq('user_id', userId),
+    supabase
+      .from('study_blocks')
+      .select('id, block_date, start_time, duration_minutes, kind, attendance')
+      .eq('user_id', userId)
+      .neq('source', 'ics')
+      .gte('block_date', today),
+  ]);
+  if (classesError) throw classesError;
+  if (blocksError) throw blocksError;
+  if (rulesError) throw rulesError;
+  if (otherBlocksError) throw otherBlocksError;
+
+  const term = importWindow((classes || []).map((c) => c.meeting_schedule as unknown as MeetingSchedule | null), today);
+  const { source, events, skipped } = parseCalendarFile(content, timeZone, term);
+  const rows = (blocks || []) as ImportedBlockRow[];
+
+  // Earlier imports that may be removed; attachments are looked up once, up front
+  const removable = rows.filter((row) => row.import_source === source && row.block_date >= today && !row.attendance);
+  const attached = await loadAttachedBlockIds(removable.map((row) => row.id));
+
+  const matchable = (classes || []).map(({ id, name, title }) => ({ id, name, title }));
+  return {
+    source,
+    skipped,
+    today,
+    events,
+    blocks: rows,
+    attachedBlockIds: attached,
+    otherBlocks: [
+      ...(otherBlocks || []),
+      ...rows.filter((row) => row.import_source !== source && row.block_date >= today),
+    ].map((b) => ({
+      id: b.id,
+      blockDate: b.block_date,
+      startTime: b.start_time,
+      durationMinutes: b.duration_minutes,
+      kind: b.kind,
+      attendance: b.attendance,
+    })),
+    classes: matchable,
+    mappings: suggestMappings(events, matchable, rules || []),
+  };
+}
+
+// Works out what importing a calendar would add, change and remove with the given class
+// mappings. Events are matched to blocks from earlier imports of the same calendar by UID
+// and occurrence; blocks imported before UIDs were tracked are matched by date, time and
+// class.
+export function planCalendarImport(draft: ImportDraft, mappings: ClassMapping[]): ImportPlan {
+  const targets = new Map(mappings.map((m) => [m.label, m.target]));
+
+  const tracked = new Map(
+    draft.blocks
+      .filter((row) => row.external_uid && row.import_source === draft.source)
+      .map((row) => [eventKey(row.external_uid as string, row.external_recurrence_id), row])
+  );
+  const legacy = new Map<string, ImportedBlockRow[]>();
+  for (const row of draft.blocks.filter((b) => !b.external_uid)) {
+    const slot = slotKey(row.block_date, row.start_time);
+    legacy.set(slot, [...(legacy.get(slot) || []), row]);
+  }
+
+  const plan: ImportPlan = {
+    source: draft.source,
+    inserts: [],
+    updates: [],
+    deletes: [],
+    unchanged: 0,
+    skipped: draft.skipped,
+    ignored: 0,
+    conflicts: 0,
+  };
+  const seen = new Set<string>();
+
+  for (const event of draft.events) {
+    const target = targets.get(event.classLabel) ?? { type: 'new' };
+    if (target.type === 'skip') {
+      plan.ignored++;
+      continue;
+    }
+
+    const key = eventKey(event.uid, event.recurrenceId);
+    // A UID listed twice in one file is imported once
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const existing = tracked.get(key);
+    if (existing) {
+      tracked.delete(key);
+      if (isChanged(existing, event, target)) plan.updates.push({ blockId: existing.id, event, target });
+      else plan.unchanged++;
+      continue;
+    }
+
+    const slot = slotKey(event.blockDate, event.startTime);
+    const untracked = legacy.get(slot)?.find((row) => inTargetClass(row, event, target));
+    if (untracked) {
+      legacy.set(slot, (legacy.get(slot) || []).filter((row) => row !== untracked));
+      plan.updates.push({ blockId: untracked.id, event, target });
+      continue;
+    }
+
+    plan.inserts.push({ event, target });
+  }
+
+  // Events gone from the calendar, or now skipped, are removed from today on. Past blocks
+  // are history, and blocks with a study session, pinky promise or attendance mark are kept.
+  plan.deletes = [...tracked.values()]
+    .filter((row) => row.block_date >= draft.today && !row.attendance && !draft.attachedBlockIds.has(row.id))
+    .map((row) => ({
+      blockId: row.id,
+      blockDate: row.block_date,
+      startTime: row.start_time,
+      className: row.classes?.name ?? null,
+    }));
+
+  plan.conflicts = [...plan.inserts, ...plan.updates].filter(({ event }) => {
+    const timed: TimedBlock = { id: eventKey(event.uid, event.recurrenceId), ...event };
+    return event.blockDate >= draft.today && draft.otherBlocks.some((other) => blocksOverlap(timed, other));
+  }).length;
+
+  return plan;
+}
+
+// Events mapped to an existing class keep it; labels sent to a new class reuse a class
+// with exactly that name or get one created
+async function resolveClassIds(userId: string, changes: PlannedEvent[]) {
+  const newLabels = new Set(changes.filter((c) => c.target.type === 'new').map((c) => c.event.classLabel));
+  const byName = new Map<string, string>();
+
+  if (newLabels.size > 0) {
+    const { data: classes, error } = await supabase.from('classes').select('id, name').eq('user_id', userId);
+    if (error) throw error;
+    for (const c of classes || []) byName.set(c.name, c.id);
+
+    const missing = [...newLabels].filter((name) => !byName.has(name));
+    if (missing.length > 0) {
+      const { data: created, error: createError } = await supabase
+        .from('classes')
+        .insert(missing.map((name) => ({ user_id: userId, name })))
+        .select('id, name');
+      if (createError) throw createError;
+      for (const c of created || []) byName.set(c.name, c.id);
+    }
+  }
+
+  return (change: PlannedEvent) =>
+    change.target.type === 'class' ? change.target.classId : (byName.get(change.event.classLabel) as string);
+}
+
+// Remembers the mappings that a plain name match would not find again: chosen by the
+// student, matched by course code or fuzzily, or skipped. Labels sent to a new class
+// drop their rule, since the new class will match them by name.
+async function saveClassRules(userId: string, mappings: ClassMapping[]) {
+  const remembered = mappings.filter((m) => m.target.type !== 'new' && m.origin !== 'exact' && m.origin !== 'rule');
+  const forgotten = mappings.filter((m) => m.target.type === 'new').map((m) => normalizeClassLabel(m.label));
+
+  if (remembered.length > 0) {
+    const { error } = await supabase.from('calendar_class_rules').upsert(
+      remembered.map((m) => ({
+        user_id: userId,
+        event_label: normalizeClassLabel(m.label),
+        class_id: m.target.type === 'class' ? m.target.classId : null,
+        skip: m.target.type === 'skip',
+      })),
+      { onConflict: 'user_id,event_label' }
+    );
+    if (error) throw error;
+  }
+
+  if (forgotten.length > 0) {
+    const { error } = await supabase
+      .from('calendar_class_rules')
+      .delete()
+      .eq('user_id', userId)
+      .in('event_label', forgotten);
+    if (error) throw error;
+  }
+}
+
+export async function applyCalendarImport(userId: string, plan: ImportPlan, mappings: ClassMapping[]): Promise<ImportResult> {
+  const classIdFor = await resolveClassIds(userId, [...plan.inserts, ...plan.updates]);
+
+  const toRow = (change: PlannedEvent) => ({
+    class_id: classIdFor(change),
+    block_date: change.event.blockDate,
+    start_time: change.event.startTime,
+    duration_minutes: change.event.durationMinutes,
+    location: change.event.location,
+    kind: change.event.kind,
+    meeting_kind: change.event.meetingKind,
+    import_source: plan.source,
+    external_uid: change.event.uid,
+    external_recurrence_id: change.event.recurrenceId,
+  });
+
+  // New classes are found again by name and inserts upsert on their UID, so an import
+  // that fails can simply be run again
+  const { data, error } = await supabase.rpc('apply_calendar_import', {
+    p_inserts: plan.inserts.map(toRow),
+    p_updates: plan.updates.map((change) => ({ ...toRow(change), id: change.blockId })),
+    p_deleted_block_ids: plan.deletes.map((d) => d.blockId),
+  });
+  if (error) throw error;
+
+  await saveClassRules(userId, mappings);
+
+  return data as unknown as ImportResult;
+}
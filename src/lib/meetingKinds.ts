@@ -0,0 +1,11 @@
+import { MEETING_KIND_LABELS, MeetingKind } from '@shared/meetings';
+
+export type { MeetingKind };
+export { MEETING_KIND_LABELS };
+
+// "Lab · Science 210" for class-meeting blocks, null for study sessions
+export const meetingLabel = (kind: string | null | undefined, location?: string | null) => {
+  if (!kind) return null;
+  const label = MEETING_KIND_LABELS[kind as MeetingKind] || kind;
+  return location ? `${label} · ${location}` : label;
+};
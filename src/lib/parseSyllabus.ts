@@ -0,0 +1,74 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ParseMode = 'apply' | 'preview';
+
+// Syllabus formats the parser can read, by file extension, with the content type stored for each
+const SYLLABUS_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html',
+  htm: 'text/html',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+export const SYLLABUS_ACCEPT = Object.keys(SYLLABUS_TYPES).map((extension) => `.${extension}`).join(',');
+
+// The extension and content type to store an uploaded syllabus under, or null if it cannot be parsed.
+// Browsers often leave the type empty for .md files, so the extension is checked first.
+export function syllabusFileType(file: File): { extension: string; contentType: string } | null {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (SYLLABUS_TYPES[extension]) {
+    return { extension, contentType: SYLLABUS_TYPES[extension] };
+  }
+  const match = Object.entries(SYLLABUS_TYPES).find(([, contentType]) => contentType === file.type);
+  return match ? { extension: match[0], contentType: match[1] } : null;
+}
+
+interface ParseRequest {
+  classId: string;
+  mode: ParseMode;
+  syllabusUrl?: string;
+  // A reviewed draft; sent back on confirm so the syllabus is not parsed again
+  parsed?: unknown;
+}
+
+// Enqueues a background parse job and returns its id. Throws with a message meant for the student.
+export async function startParseJob(request: ParseRequest): Promise<string> {
+  const { data: parseData, error: parseError } = await supabase.functions.invoke<{
+    success?: boolean;
+    error?: string;
+    jobId?: string;
+  }>('parse-syllabus', {
+    body: {
+      ...request,
+      weekdayHours: 2,
+    },
+  });
+
+  if (parseError) {
+    console.error('Parse error:', parseError);
+    let errorMessage = parseError.message || 'Syllabus parsing failed. Please check the browser console for details.';
+
+    // Provide helpful error messages for common issues
+    if (errorMessage.includes('Failed to send a request') || errorMessage.includes('fetch failed')) {
+      errorMessage = 'Edge function not deployed. Please deploy the parse-syllabus function to Supabase. See DEPLOY_EDGE_FUNCTIONS.md for instructions.';
+    } else if (errorMessage.includes('404') || errorMessage.includes('not found')) {
+      errorMessage = 'Edge function not found. Please deploy the parse-syllabus function to Supabase.';
+    }
+
+    throw new Error(errorMessage);
+  }
+  if (parseData?.error) {
+    // Edge function returned an error in the response
+    console.error('Parse error from function:', parseData.error);
+    throw new Error(`Parsing failed: ${parseData.error}`);
+  }
+  if (!parseData?.jobId) {
+    throw new Error('Parsing could not be started');
+  }
+  return parseData.jobId;
+}
@@ -0,0 +1,576 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BusyBlock, budgetFromProfile, scheduleStudyBlocks } from '@shared/scheduler';
+import { isStudyKind, plannedBlockKind } from '@shared/blockKinds';
+import { blockToMove, nextFreeSlot } from '@shared/conflicts';
+import { addDays } from '@shared/dates';
+import { Difficulty, difficultyFactor, scaleMinutes } from '@shared/difficulty';
+import { generateMeetingBlocks, MeetingSchedule, studyFreeRanges, TermException } from '@shared/meetings';
+import { Attendance } from '@/lib/attendance';
+import { blocksOverlap, timedBlock } from '@/lib/conflicts';
+import { userNow } from '@/lib/timeZone';
+
+export interface ReplanResult {
+  removed: number;
+  inserted: number;
+  unscheduledMinutes: number;
+}
+
+interface ExceptionRow {
+  class_id: string | null;
+  name: string;
+  kind: string;
+  start_date: string;
+  end_date: string;
+}
+
+const toTermException = (row: ExceptionRow): TermException => ({
+  name: row.name,
+  kind: row.kind as TermException['kind'],
+  startDate: row.start_date,
+  endDate: row.end_date,
+});
+
+// Exceptions apply to their own class, or to every class when class_id is null
+const exceptionsForClass = (rows: ExceptionRow[], classId: string) =>
+  rows.filter((row) => row.class_id === null || row.class_id === classId).map(toTermException);
+
+// Ids of blocks a study session or pinky promise points at; those are never moved or deleted
+export async function loadAttachedBlockIds(blockIds: string[]) {
+  if (blockIds.length === 0) return new Set<string>();
+
+  const [{ data: sessions }, { data: promises }] = await Promise.all([
+    supabase.from('study_sessions').select('block_id').in('block_id', blockIds),
+    supabase.from('pinky_promises').select('block_id').in('block_id', blockIds),
+  ]);
+
+  return new Set([
+    ...(sessions || []).map((s) => s.block_id),
+    ...(promises || []).map((p) => p.block_id),
+  ]);
+}
+
+// Rebuilds the upcoming syllabus study sessions of one class (or every class) with the
+// shared scheduler. Blocks a study session or pinky promise points at are kept as is.
+export async function replanStudyBlocks(userId: string, classId?: string): Promise<ReplanResult> {
+  const { date: today, time: now } = await userNow(userId);
+
+  const [
+    { data: profile },
+    { data: classes, error: classesError },
+    { data: blocks, error: blocksError },
+    { data: exceptions, error: exceptionsError },
+  ] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('weekday_study_range, weekend_study_range, earliest_study_time, latest_study_time')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase.from('classes').select('id, difficulty').eq('user_id', userId),
+    supabase
+      .from('study_blocks')
+      .select('id, class_id, assignment_id, source, kind, attendance, block_date, start_time, duration_minutes')
+      .eq('user_id', userId)
+      .gte('block_date', today),
+    supabase
+      .from('term_exceptions')
+      .select('class_id, name, kind, start_date, end_date')
+      .eq('user_id', userId)
+      .gte('end_date', today),
+  ]);
+
+  if (classesError) throw classesError;
+  if (blocksError) throw blocksError;
+  if (exceptionsError) throw exceptionsError;
+
+  const classIds = classId ? [classId] : (classes || []).map((c) => c.id);
+  if (classIds.length === 0) return { removed: 0, inserted: 0, unscheduledMinutes: 0 };
+
+  const { data: assignments, error: assignmentsError } = await supabase
+    .from('syllabus_assignments')
+    .select('id, class_id, type, due_date, estimated_minutes, weight')
+    .in('class_id', classIds)
+    .or(`due_date.gte.${today},due_date.is.null`)
+    // Readings already ticked off need no more study time
+    .is('completed_at', null);
+
+  if (assignmentsError) throw assignmentsError;
+
+  // Assignments without a due date can't be scheduled, so their blocks stay where they are
+  const undated = new Set((assignments || []).filter((a) => !a.due_date).map((a) => a.id));
+
+  // Study time on earlier days counts as done, so each replan doesn't schedule it again
+  const { data: pastBlocks, error: pastBlocksError } = await supabase
+    .from('study_blocks')
+    .select('assignment_id, kind, duration_minutes')
+    .eq('user_id', userId)
+    .in('assignment_id', (assignments || []).filter((a) => a.due_date).map((a) => a.id))
+    .lt('block_date', today);
+
+  if (pastBlocksError) throw pastBlocksError;
+  const candidates = (blocks || []).filter(
+    (b) =>
+      b.source === 'syllabus' &&
+      b.assignment_id &&
+      !undated.has(b.assignment_id) &&
+      classIds.includes(b.class_id)
+  );
+  const candidateIds = candidates.map((b) => b.id);
+
+  const attached = await loadAttachedBlockIds(candidateIds);
+  const replaceable = new Set(candidates.filter((b) => !attached.has(b.id)).map((b) => b.id));
+
+  const busy: BusyBlock[] = [];
+  const keptMinutes = new Map<string, number>();
+  for (const block of pastBlocks || []) {
+    if (!block.assignment_id || !isStudyKind(block.kind)) continue;
+    keptMinutes.set(block.assignment_id, (keptMinutes.get(block.assignment_id) || 0) + block.duration_minutes);
+  }
+  for (const block of blocks || []) {
+    if (replaceable.has(block.id)) continue;
+    // A cancelled meeting frees its time
+    if (block.attendance === 'cancelled') continue;
+    busy.push({
+      blockDate: block.block_date,
+      startTime: block.start_time,
+      durationMinutes: block.duration_minutes,
+      countsTowardBudget: isStudyKind(block.kind),
+      classId: block.class_id,
+    });
+    if (block.assignment_id) {
+      keptMinutes.set(block.assignment_id, (keptMinutes.get(block.assignment_id) || 0) + block.duration_minutes);
+    }
+  }
+
+  // Estimates are scaled by the class's difficulty, and that difficulty decides the class's
+  // share of each day. Time already covered by kept or past blocks is not scheduled again.
+  const difficulties = new Map((classes || []).map((c) => [c.id, c.difficulty]));
+  const classShares = Object.fromEntries((classes || []).map((c) => [c.id, difficultyFactor(c.difficulty)]));
+  const work = (assignments || []).filter((a) => a.due_date).map((a) => ({
+    ...a,
+    remaining: Math.max(
+      0,
+      scaleMinutes(a.estimated_minutes, difficulties.get(a.class_id)) - (keptMinutes.get(a.id) || 0)
+    ),
+  }));
+
+  const { blocks: planned, unscheduled } = scheduleStudyBlocks(
+    work.map((a) => ({
+      dueDate: a.due_date,
+      estimatedMinutes: a.remaining,
+      weight: a.weight,
+      classId: a.class_id,
+      blockedDates: studyFreeRanges(exceptionsForClass(exceptions || [], a.class_id)),
+    })),
+    busy,
+    budgetFromProfile(profile),
+    { today, now, classShares }
+  );
+
+  // The old blocks go and the new ones come in one transaction
+  const { data: swapped, error: swapError } = await supabase.rpc('replace_study_blocks', {
+    p_removed_block_ids: [...replaceable],
+    p_blocks: planned.map((block) => ({
+      class_id: work[block.assignmentIndex].class_id,
+      assignment_id: work[block.assignmentIndex].id,
+      block_date: block.blockDate,
+      start_time: block.startTime,
+      duration_minutes: block.durationMinutes,
+      kind: plannedBlockKind(work[block.assignmentIndex].type),
+    })),
+  });
+  if (swapError) throw swapError;
+  const { removed, inserted } = swapped as { removed: number; inserted: number };
+
+  return {
+    removed,
+    inserted,
+    unscheduledMinutes: unscheduled.reduce((sum, u) => sum + u.minutes, 0),
+  };
+}
+
+const meetingKey = (date: string, startTime: string | null, kind: string | null) =>
+  `${date}|${(startTime || '').slice(0, 5)}|${kind}`;
+
+// Regenerates a class's upcoming class-meeting blocks from its stored schedule, so
+// added or removed no-class dates take effect without re-parsing the syllabus
+export async function regenerateClassMeetings(userId: string, classId: string) {
+  const { date: today } = await userNow(userId);
+
+  const [{ data: classData, error: classError }, { data: exceptions, error: exceptionsError }, { data: blocks, error: blocksError }] =
+    await Promise.all([
+      supabase.from('classes').select('meeting_schedule').eq('id', classId).maybeSingle(),
+      supabase
+        .from('term_exceptions')
+        .select('class_id, name, kind, start_date, end_date')
+        .eq('user_id', userId)
+        .or(`class_id.eq.${classId},class_id.is.null`),
+      supabase
+        .from('study_blocks')
+        .select('id, block_date, start_time, meeting_kind, attendance')
+        .eq('class_id', classId)
+        .eq('source', 'syllabus')
+        .eq('kind', 'class_meeting')
+        .gte('block_date', today),
+    ]);
+
+  if (classError) throw classError;
+  if (exceptionsError) throw exceptionsError;
+  if (blocksError) throw blocksError;
+
+  const schedule = classData?.meeting_schedule as unknown as MeetingSchedule | null;
+  if (!schedule) return { removed: 0, inserted: 0 };
+
+  const wanted = generateMeetingBlocks(schedule, (exceptions || []).map(toTermException), today);
+  const wantedKeys = new Set(wanted.map((b) => meetingKey(b.blockDate, b.startTime, b.meetingKind)));
+  const existingKeys = new Set((blocks || []).map((b) => meetingKey(b.block_date, b.start_time, b.meeting_kind)));
+
+  // Meetings the student marked attended, missed or cancelled stay as they are
+  const stale = (blocks || []).filter(
+    (b) => !b.attendance && !wantedKeys.has(meetingKey(b.block_date, b.start_time, b.meeting_kind))
+  );
+  const attached = await loadAttachedBlockIds(stale.map((b) => b.id));
+  const toDelete = stale.filter((b) => !attached.has(b.id)).map((b) => b.id);
+  const toInsert = wanted.filter((b) => !existingKeys.has(meetingKey(b.blockDate, b.startTime, b.meetingKind)));
+
+  if (toDelete.length > 0) {
+    const { error } = await supabase.from('study_blocks').delete().in('id', toDelete);
+    if (error) throw error;
+  }
+
+  if (toInsert.length > 0) {
+    const { error } = await supabase.from('study_blocks').insert(
+      toInsert.map((block) => ({
+        user_id: userId,
+        class_id: classId,
+        block_date: block.blockDate,
+        start_time: block.startTime,
+        duration_minutes: block.durationMinutes,
+        kind: 'class_meeting',
+        meeting_kind: block.meetingKind,
+        location: block.location,
+        source: 'syllabus',
+      }))
+    );
+    if (error) throw error;
+  }
+
+  return { removed: toDelete.length, inserted: toInsert.length };
+}
+
+// After a no-class date changes: fix the affected class meetings (one class, or all of
+// them for exceptions without a class), then reflow study sessions around the result
+export async function reflowAfterExceptionChange(userId: string, classId: string | null) {
+  let classIds = classId ? [classId] : [];
+  if (!classId) {
+    const { data: classes, error } = await supabase.from('classes').select('id').eq('user_id', userId);
+    if (error) throw error;
+    classIds = (classes || []).map((c) => c.id);
+  }
+
+  let meetingsRemoved = 0;
+  let meetingsAdded = 0;
+  for (const id of classIds) {
+    const result = await regenerateClassMeetings(userId, id);
+    meetingsRemoved += result.removed;
+    meetingsAdded += result.inserted;
+  }
+
+  const replan = await replanStudyBlocks(userId);
+  return { meetingsRemoved, meetingsAdded, ...replan };
+}
+
+// Sets the class's hour estimate from its current topics and assignments, scaled by its
+// difficulty: the same total applying a syllabus stores
+export async function refreshClassEstimate(classId: string) {
+  const [
+    { data: classData, error: classError },
+    { data: topics, error: topicsError },
+    { data: assignments, error: assignmentsError },
+  ] = await Promise.all([
+    supabase.from('classes').select('difficulty').eq('id', classId).maybeSingle(),
+    supabase.from('syllabus_topics').select('estimated_minutes').eq('class_id', classId),
+    supabase.from('syllabus_assignments').select('estimated_minutes').eq('class_id', classId),
+  ]);
+
+  if (classError) throw classError;
+  if (topicsError) throw topicsError;
+  if (assignmentsError) throw assignmentsError;
+
+  const totalMinutes = scaleMinutes(
+    [...(topics || []), ...(assignments || [])].reduce((sum, item) => sum + item.estimated_minutes, 0),
+    classData?.difficulty
+  );
+  const { error } = await supabase
+    .from('classes')
+    .update({ estimated_total_minutes: totalMinutes, estimated_remaining_minutes: totalMinutes })
+    .eq('id', classId);
+  if (error) throw error;
+}
+
+type PlannedFields = { due_date: string | null; estimated_minutes: number };
+
+// Whether an assignment edit changes by when, or for how long, the student has to study.
+// Null stands for an added or deleted assignment.
+export const changesStudyPlan = (before: PlannedFields | null, after: PlannedFields | null) =>
+  !before || !after || before.due_date !== after.due_date || before.estimated_minutes !== after.estimated_minutes;
+
+// After a syllabus assignment is added, removed, moved to another date or re-estimated:
+// the class's study sessions are rebuilt around the change
+export async function replanAfterAssignmentEdit(userId: string, classId: string) {
+  await refreshClassEstimate(classId);
+  return replanStudyBlocks(userId, classId);
+}
+
+// Changes how demanding a class is. Its estimates change with it, and because difficulty
+// also splits each day between classes, every class's study sessions are replanned.
+export async function setClassDifficulty(userId: string, classId: string, difficulty: Difficulty) {
+  const { error } = await supabase.from('classes').update({ difficulty }).eq('id', classId);
+  if (error) throw error;
+
+  await refreshClassEstimate(classId);
+  return replanStudyBlocks(userId);
+}
+
+// Deletes a syllabus assignment and replans its class. Its upcoming study sessions go
+// first: the foreign key would only clear their assignment_id, leaving them on the calendar.
+export async function deleteAssignment(userId: string, classId: string, assignmentId: string) {
+  const { date: today } = await userNow(userId);
+
+  const { data: blocks, error: blocksError } = await supabase
+    .from('study_blocks')
+    .select('id')
+    .eq('assignment_id', assignmentId)
+    .eq('source', 'syllabus')
+    .gte('block_date', today);
+  if (blocksError) throw blocksError;
+
+  const blockIds = (blocks || []).map((b) => b.id);
+  const attached = await loadAttachedBlockIds(blockIds);
+  const removable = blockIds.filter((id) => !attached.has(id));
+
+  if (removable.length > 0) {
+    const { error } = await supabase.from('study_blocks').delete().in('id', removable);
+    if (error) throw error;
+  }
+
+  const { error } = await supabase.from('syllabus_assignments').delete().eq('id', assignmentId);
+  if (error) throw error;
+
+  return replanAfterAssignmentEdit(userId, classId);
+}
+
+// How long after a missed meeting its catch-up session may be scheduled
+const CATCH_UP_WINDOW_DAYS = 7;
+
+interface MeetingBlock {
+  id: string;
+  class_id: string;
+  block_date: string;
+  duration_minutes: number;
+}
+
+// Marks a class meeting attended, missed or cancelled, or clears the mark with null. A
+// missed meeting gets a catch-up study session of the same length within the next week;
+// changing the mark again removes it unless a session or promise points at it.
+// Returns the catch-up session, if there is one.
+export async function markAttendance(userId: string, meeting: MeetingBlock, attendance: Attendance | null) {
+  const { error } = await supabase.from('study_blocks').update({ attendance }).eq('id', meeting.id);
+  if (error) throw error;
+
+  const { data: catchUps, error: catchUpsError } = await supabase
+    .from('study_blocks')
+    .select('id, block_date, start_time')
+    .eq('catch_up_for_block_id', meeting.id)
+    .order('block_date');
+  if (catchUpsError) throw catchUpsError;
+
+  if (attendance === 'missed') {
+    return catchUps && catchUps.length > 0 ? catchUps[0] : scheduleCatchUp(userId, meeting);
+  }
+
+  const catchUpIds = (catchUps || []).map((b) => b.id);
+  const attached = await loadAttachedBlockIds(catchUpIds);
+  const removable = catchUpIds.filter((id) => !attached.has(id));
+  if (removable.length > 0) {
+    const { error: deleteError } = await supabase.from('study_blocks').delete().in('id', removable);
+    if (deleteError) throw deleteError;
+  }
+  return null;
+}
+
+// Finds room for a missed meeting's catch-up session with the shared scheduler, starting
+// no earlier than the meeting itself. Null when the week has no room.
+async function scheduleCatchUp(userId: string, meeting: MeetingBlock) {
+  const { date: today, time: now } = await userNow(userId);
+  const start = meeting.block_date > today ? meeting.block_date : today;
+
+  const [
+    { data: profile },
+    { data: blocks, error: blocksError },
+    { data: exceptions, error: exceptionsError },
+  ] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('weekday_study_range, weekend_study_range, earliest_study_time, latest_study_time')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('study_blocks')
+      .select('kind, attendance, block_date, start_time, duration_minutes')
+      .eq('user_id', userId)
+      .gte('block_date', start),
+    supabase
+      .from('term_exceptions')
+      .select('class_id, name, kind, start_date, end_date')
+      .eq('user_id', userId)
+      .gte('end_date', start),
+  ]);
+
+  if (blocksError) throw blocksError;
+  if (exceptionsError) throw exceptionsError;
+
+  const busy: BusyBlock[] = (blocks || [])
+    .filter((b) => b.attendance !== 'cancelled')
+    .map((b) => ({
+      blockDate: b.block_date,
+      startTime: b.start_time,
+      durationMinutes: b.duration_minutes,
+      countsTowardBudget: isStudyKind(b.kind),
+    }));
+
+  const { blocks: planned } = scheduleStudyBlocks(
+    [
+      {
+        dueDate: addDays(start, CATCH_UP_WINDOW_DAYS),
+        estimatedMinutes: meeting.duration_minutes,
+        blockedDates: studyFreeRanges(exceptionsForClass(exceptions || [], meeting.class_id)),
+      },
+    ],
+    busy,
+    budgetFromProfile(profile),
+    {
+      today: start,
+      now: start === today ? now : undefined,
+      bufferDays: 0,
+      maxSessionMinutes: meeting.duration_minutes,
+      minSessionMinutes: Math.min(25, meeting.duration_minutes),
+    }
+  );
+  if (planned.length === 0) return null;
+
+  const { data: inserted, error } = await supabase
+    .from('study_blocks')
+    .insert(
+      planned.map((block) => ({
+        user_id: userId,
+        class_id: meeting.class_id,
+        block_date: block.blockDate,
+        start_time: block.startTime,
+        duration_minutes: block.durationMinutes,
+        kind: 'study',
+        source: 'manual',
+        catch_up_for_block_id: meeting.id,
+      }))
+    )
+    .select('id, block_date, start_time')
+    .order('block_date');
+  if (error) throw error;
+
+  return inserted?.[0] ?? null;
+}
+
+export interface BlockTiming {
+  block_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+}
+
+// Class meetings follow the class schedule; everything else can be moved by hand
+export const canReschedule = (kind: string) => kind !== 'class_meeting';
+
+// Moves or resizes a block the student dragged on the calendar. A planned syllabus
+// session becomes manual, so replanning keeps it where the student put it.
+export async function rescheduleStudyBlock(block: { id: string; kind: string; source: string }, timing: BlockTiming) {
+  if (!canReschedule(block.kind)) {
+    throw new Error('Class meetings follow the class schedule and cannot be moved');
+  }
+
+  const source = block.source === 'syllabus' ? 'manual' : block.source;
+  const { error } = await supabase
+    .from('study_blocks')
+    .update({ ...timing, source })
+    .eq('id', block.id);
+  if (error) throw error;
+
+  return { ...timing, source };
+}
+
+// How many days ahead, from the clash, a block may be moved to resolve it
+const CONFLICT_SEARCH_DAYS = 7;
+
+interface ConflictBlockRow {
+  id: string;
+  kind: string;
+  source: string;
+  attendance: string | null;
+  block_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+}
+
+// Resolves a clash involving a block by moving the lower-priority block of the clash to
+// the next free slot within the student's study hours, the same day or up to a week
+// later. Returns the block that moved and where to, or null when nothing overlaps.
+export async function resolveBlockConflict(userId: string, blockId: string) {
+  const { date: today, time: now } = await userNow(userId);
+
+  const { data: block, error: blockError } = await supabase
+    .from('study_blocks')
+    .select('block_date')
+    .eq('id', blockId)
+    .single();
+  if (blockError) throw blockError;
+
+  const lastDate = addDays(block.block_date > today ? block.block_date : today, CONFLICT_SEARCH_DAYS);
+  const [{ data: profile }, { data: rows, error: rowsError }] = await Promise.all([
+    supabase.from('profiles').select('earliest_study_time, latest_study_time').eq('user_id', userId).maybeSingle(),
+    supabase
+      .from('study_blocks')
+      .select('id, kind, source, attendance, block_date, start_time, duration_minutes')
+      .eq('user_id', userId)
+      .gte('block_date', block.block_date)
+      .lte('block_date', lastDate),
+  ]);
+  if (rowsError) throw rowsError;
+
+  const blocks = (rows || []).map(timedBlock);
+  const self = blocks.find((b) => b.id === blockId);
+  const overlapping = self ? blocks.filter((b) => blocksOverlap(self, b)) : [];
+  if (!self || overlapping.length === 0) return null;
+
+  const mover = blockToMove(self, overlapping);
+  if (!mover) throw new Error("Class meetings and exams can't be moved; move the other one by hand");
+
+  const { earliestTime, latestTime } = budgetFromProfile(profile);
+  const slot = nextFreeSlot(mover, blocks, {
+    earliestTime,
+    latestTime,
+    searchDays: CONFLICT_SEARCH_DAYS,
+    notBefore: { date: today, time: now },
+  });
+  if (!slot) throw new Error('No free time in the next week to move it to');
+
+  const row = (rows || []).find((r) => r.id === mover.id) as ConflictBlockRow;
+  await rescheduleStudyBlock(row, {
+    block_date: slot.blockDate,
+    start_time: slot.startTime,
+    duration_minutes: row.duration_minutes,
+  });
+
+  return { blockId: mover.id, kind: mover.kind, ...slot };
+}
+
+export const replanMessage = (result: ReplanResult) =>
+  result.unscheduledMinutes > 0
+    ? `Study plan updated: ${result.inserted} sessions scheduled, ${result.unscheduledMinutes} min didn't fit before the deadlines`
+    : `Study plan updated: ${result.inserted} sessions scheduled`;
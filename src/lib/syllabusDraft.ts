@@ -0,0 +1,96 @@
+import type { MeetingSchedule } from '@shared/meetings';
+
+// Draft of a parsed syllabus under review, as returned by a preview parse job, or
+// entered by hand when the class has no syllabus to upload
+
+export type FieldConfidence = Partial<Record<string, number>>;
+
+export interface DraftTopic {
+  title: string;
+  description?: string;
+  orderIndex?: number;
+  estimatedMinutes?: number;
+  confidence?: FieldConfidence;
+}
+
+export interface DraftAssignment {
+  title: string;
+  dueDate?: string | null;
+  type?: string;
+  estimatedMinutes?: number;
+  category?: string | null;
+  weight?: number | null;
+  textbook?: string | null;
+  chapter?: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  confidence?: FieldConfidence;
+}
+
+// The parsed syllabus as returned by a preview parse job; sent back unchanged apart from the edits
+export interface SyllabusDraft {
+  schedule?: MeetingSchedule | null;
+  topics: DraftTopic[];
+  assignments: DraftAssignment[];
+  [key: string]: unknown;
+}
+
+// Fields the parser was less sure of than this are highlighted for the student to check
+export const LOW_CONFIDENCE = 0.7;
+
+export const isUnsure = (item: { confidence?: FieldConfidence }, field: string) =>
+  (item.confidence?.[field] ?? 1) < LOW_CONFIDENCE;
+
+export const countUnsureFields = (draft: SyllabusDraft) =>
+  [...draft.topics, ...draft.assignments].reduce(
+    (sum, item) => sum + Object.values(item.confidence || {}).filter((score) => (score ?? 1) < LOW_CONFIDENCE).length,
+    0
+  );
+
+// "Campbell Biology • Ch. 3 • pp. 45–72" for readings; empty when nothing is known
+export const readingLocation = (assignment: DraftAssignment) =>
+  [
+    assignment.textbook,
+    assignment.chapter && `Ch. ${assignment.chapter}`,
+    assignment.pageStart != null &&
+      (assignment.pageEnd != null && assignment.pageEnd !== assignment.pageStart
+        ? `pp. ${assignment.pageStart}–${assignment.pageEnd}`
+        : `p. ${assignment.pageStart}`),
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+// Problems that would make the parser reject the draft
+export function draftProblems(draft: SyllabusDraft): string[] {
+  const problems: string[] = [];
+  draft.topics.forEach((topic, index) => {
+    if (!topic.title.trim()) problems.push(`Topic ${index + 1} needs a title`);
+    if (topic.estimatedMinutes !== undefined && !(topic.estimatedMinutes > 0)) {
+      problems.push(`Topic ${index + 1} needs an estimate above 0 minutes`);
+    }
+  });
+  draft.assignments.forEach((assignment, index) => {
+    if (!assignment.title.trim()) problems.push(`Assignment ${index + 1} needs a title`);
+    if (assignment.estimatedMinutes !== undefined && !(assignment.estimatedMinutes > 0)) {
+      problems.push(`Assignment ${index + 1} needs an estimate above 0 minutes`);
+    }
+  });
+  return problems;
+}
+
+// Problems with a hand-entered schedule; parsed schedules are already validated by the parser
+export function scheduleProblems(schedule: MeetingSchedule | null | undefined): string[] {
+  if (!schedule) return [];
+  const problems: string[] = [];
+  if (schedule.meetings.length > 0 && (!schedule.startDate || !schedule.endDate)) {
+    problems.push('Enter the first and last day of classes');
+  }
+  if (schedule.startDate && schedule.endDate && schedule.startDate > schedule.endDate) {
+    problems.push('The last day of classes must be after the first');
+  }
+  schedule.meetings.forEach((meeting, index) => {
+    if (meeting.days.length === 0) problems.push(`Meeting ${index + 1} needs at least one day`);
+    if (!meeting.startTime || !meeting.endTime) problems.push(`Meeting ${index + 1} needs a start and end time`);
+  });
+  return problems;
+}
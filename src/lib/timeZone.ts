@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, resolveTimeZone, zonedNow } from '@shared/dates';
+
+const cache = new Map<string, string>();
+
+export const browserTimeZone = () => {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return zone && isValidTimeZone(zone) ? zone : DEFAULT_TIME_ZONE;
+};
+
+// The timezone stored on the user's profile. Profiles without one are given the
+// browser's zone, so edge functions (reminders, syllabus parsing) can use it too.
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const cached = cache.get(userId);
+  if (cached) return cached;
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading timezone:', error);
+    return browserTimeZone();
+  }
+
+  let timeZone = profile?.timezone;
+  if (!timeZone && profile) {
+    timeZone = browserTimeZone();
+    const { error: updateError } = await supabase.from('profiles').update({ timezone: timeZone }).eq('user_id', userId);
+    if (updateError) console.error('Error saving timezone:', updateError);
+  }
+
+  const resolved = timeZone ? resolveTimeZone(timeZone) : browserTimeZone();
+  cache.set(userId, resolved);
+  return resolved;
+}
+
+// Today's date and the current time (HH:mm) in the user's timezone
+export async function userNow(userId: string) {
+  return zonedNow(await getUserTimeZone(userId));
+}
@@ -1,54 +1,183 @@
-import { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import { useOnboarding } from '@/contexts/OnboardingContext';
-import { Loader2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
 
-const messages = [
-  'Reading your syllabus…',
-  'Finding assignments…',
-  'Estimating study time…',
-];
+interface ParseJob {
+  id: string;
+  mode: string;
+  status: string;
+  error: string | null;
+  topics_count: number | null;
+  assignments_count: number | null;
+  blocks_count: number | null;
+  result: {
+    classMeetingBlocksCount?: number;
+    assignmentBlocksCount?: number;
+  } | null;
+}
+
+const stages: Record<string, { message: string; progress: number }> = {
+  queued: { message: 'Waiting to start…', progress: 5 },
+  downloading: { message: 'Reading your syllabus…', progress: 20 },
+  extracting: { message: 'Finding topics and assignments…', progress: 55 },
+  scheduling: { message: 'Building your study plan…', progress: 85 },
+  done: { message: 'All done!', progress: 100 },
+};
+
+// Realtime is the primary channel; polling covers dropped websocket connections
+const POLL_INTERVAL_MS = 5000;
+
+// A job in one of these states won't change again, so there is nothing left to watch
+const FINISHED_STATUSES = ['done', 'failed'];
 
 const AIProcessing = () => {
   const navigate = useNavigate();
   const { classId } = useParams();
-  const { state, updateClass } = useOnboarding();
-  const [currentMessage, setCurrentMessage] = useState(0);
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [job, setJob] = useState<ParseJob | null>(null);
+  const [className, setClassName] = useState('');
+  const [alreadyParsed, setAlreadyParsed] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const finishedRef = useRef(false);
 
-  const classItem = state.classes.find(c => c.id === classId);
+  const jobParam = searchParams.get('job');
 
   useEffect(() => {
-    const messageInterval = setInterval(() => {
-      setCurrentMessage(prev => (prev + 1) % messages.length);
-    }, 1000);
-
-    const timer = setTimeout(() => {
-      // Mock AI processing results
-      const mockAssignments = [
-        { id: '1', name: 'Reading 1', estimatedTime: 45 },
-        { id: '2', name: 'Quiz 1', estimatedTime: 60 },
-        { id: '3', name: 'Lab prep', estimatedTime: 90 },
-      ];
-
-      updateClass(classId!, {
-        syllabusUploaded: true,
-        assignments: mockAssignments,
-      });
-
-      navigate(`/assignment-summary/${classId}`);
-    }, 3000);
-
-    return () => {
-      clearInterval(messageInterval);
-      clearTimeout(timer);
+    if (!user || !classId) return;
+
+    let jobId = jobParam;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let channel: ReturnType<typeof supabase.channel> | undefined;
+    let stopped = false;
+
+    const stopWatching = () => {
+      stopped = true;
+      if (pollTimer) clearInterval(pollTimer);
+      if (channel) supabase.removeChannel(channel);
+      pollTimer = undefined;
+      channel = undefined;
+    };
+
+    const track = (next: ParseJob) => {
+      setJob(next);
+      if (FINISHED_STATUSES.includes(next.status)) stopWatching();
     };
-  }, [classId, navigate, updateClass]);
 
-  if (!classItem) return null;
+    const fetchJob = async () => {
+      // Without a job id (e.g. an old link) follow the latest job of the class
+      let query = supabase
+        .from('parse_jobs')
+        .select('id, mode, status, error, topics_count, assignments_count, blocks_count, result');
+      query = jobId
+        ? query.eq('id', jobId)
+        : query.eq('class_id', classId).order('created_at', { ascending: false }).limit(1);
+
+      const { data, error } = await query.maybeSingle();
+      if (error) {
+        console.error('Error loading parse job:', error);
+        return null;
+      }
+      if (!data) {
+        setNotFound(true);
+        return null;
+      }
+      track(data as ParseJob);
+      return data.id;
+    };
+
+    const start = async () => {
+      const { data: classData } = await supabase
+        .from('classes')
+        .select('name, ai_parsed')
+        .eq('id', classId)
+        .maybeSingle();
+      if (classData) {
+        setClassName(classData.name);
+        setAlreadyParsed(!!classData.ai_parsed);
+      }
+
+      jobId = await fetchJob();
+      // Finished already, or the page was left while loading
+      if (!jobId || stopped) return;
+
+      channel = supabase
+        .channel(`parse-job-${jobId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'parse_jobs',
+            filter: `id=eq.${jobId}`,
+          },
+          (payload) => {
+            track(payload.new as ParseJob);
+          }
+        )
+        .subscribe();
+
+      pollTimer = setInterval(fetchJob, POLL_INTERVAL_MS);
+    };
+
+    start();
+
+    return stopWatching;
+  }, [user, classId, jobParam]);
+
+  useEffect(() => {
+    if (!job || finishedRef.current) return;
+    if (job.status !== 'done') return;
+
+    finishedRef.current = true;
+
+    if (job.mode === 'preview') {
+      // A first parse is reviewed and corrected as a draft; a re-parse shows its diff on ClassDetail
+      navigate(
+        alreadyParsed ? `/class/${classId}?job=${job.id}` : `/assignment-summary/${classId}?job=${job.id}`,
+        { replace: true }
+      );
+      return;
+    }
+
+    const classMeetingsCount = job.result?.classMeetingBlocksCount || 0;
+    const assignmentBlocksCount = job.result?.assignmentBlocksCount || 0;
+    toast.success(`✨ Found ${job.topics_count ?? 0} topics, ${job.assignments_count ?? 0} assignments. Created ${job.blocks_count ?? 0} calendar events (${classMeetingsCount} class meetings, ${assignmentBlocksCount} study sessions)`);
+    navigate(`/classes-ready?classId=${classId}`, { replace: true });
+  }, [job, classId, alreadyParsed, navigate]);
+
+  if (notFound || job?.status === 'failed') {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-6">
+        <div className="text-center space-y-6 max-w-md animate-in fade-in duration-500">
+          <AlertCircle className="mx-auto h-16 w-16 text-destructive" />
+          <div className="space-y-2">
+            <h2 className="text-2xl font-bold text-foreground">
+              {notFound ? 'No syllabus is being processed' : 'Parsing failed'}
+            </h2>
+            {job?.error && (
+              <p className="text-muted-foreground">{job.error}</p>
+            )}
+          </div>
+          <Button onClick={() => navigate(`/class/${classId}`)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to class
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const stage = stages[job?.status || 'queued'] || stages.queued;
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-background p-6">
-      <div className="text-center space-y-8 animate-in fade-in duration-500">
+      <div className="text-center space-y-8 w-full max-w-md animate-in fade-in duration-500">
         <div className="relative">
           <div className="mx-auto h-24 w-24 animate-spin">
             <Loader2 className="h-24 w-24 text-primary" />
@@ -57,12 +186,18 @@ const AIProcessing = () => {
 
         <div className="space-y-2">
           <h2 className="text-2xl font-bold text-foreground">
-            Processing {classItem.name}
+            Processing {className || 'your syllabus'}
           </h2>
           <p className="text-xl text-muted-foreground animate-pulse">
-            {messages[currentMessage]}
+            {stage.message}
           </p>
         </div>
+
+        <Progress value={stage.progress} />
+
+        <p className="text-sm text-muted-foreground">
+          You can leave this page — parsing keeps running in the background.
+        </p>
       </div>
     </div>
   );
@@ -3,12 +3,18 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useOnboarding } from '@/contexts/OnboardingContext';
-import { X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { DifficultyPicker } from '@/components/DifficultyPicker';
+import { Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
 
 const AddClasses = () => {
   const navigate = useNavigate();
-  const { state, addClass, removeClass } = useOnboarding();
+  const { state, addClass, removeClass, updateClass } = useOnboarding();
+  const { user } = useAuth();
   const [inputValue, setInputValue] = useState('');
+  const [saving, setSaving] = useState(false);
 
   const handleAddClass = () => {
     if (inputValue.trim()) {
@@ -23,9 +29,37 @@ const AddClasses = () => {
     }
   };
 
-  const handleContinue = () => {
-    if (state.classes.length > 0) {
+  // Saves the classes with their difficulty; classes already saved under the same name are left as they are
+  const handleContinue = async () => {
+    if (state.classes.length === 0) return;
+    if (!user) {
       navigate('/dashboard');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('classes')
+        .select('name')
+        .eq('user_id', user.id);
+      if (existingError) throw existingError;
+
+      const existingNames = new Set((existing || []).map((c) => c.name));
+      const newClasses = state.classes.filter((c) => !existingNames.has(c.name));
+      if (newClasses.length > 0) {
+        const { error } = await supabase
+          .from('classes')
+          .insert(newClasses.map((c) => ({ user_id: user.id, name: c.name, difficulty: c.difficulty })));
+        if (error) throw error;
+      }
+
+      navigate('/dashboard');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save classes';
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -60,17 +94,24 @@ const AddClasses = () => {
               {state.classes.map((classItem) => (
                 <div
                   key={classItem.id}
-                  className="flex items-center justify-between bg-card border border-border rounded-lg px-4 py-3"
+                  className="bg-card border border-border rounded-lg px-4 py-3 space-y-2"
                 >
-                  <span className="font-medium text-foreground">{classItem.name}</span>
-                  <Button
-                    onClick={() => removeClass(classItem.id)}
-                    variant="ghost"
-                    size="sm"
-                    className="h-8 w-8 p-0"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-foreground">{classItem.name}</span>
+                    <Button
+                      onClick={() => removeClass(classItem.id)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <DifficultyPicker
+                    value={classItem.difficulty}
+                    onChange={(difficulty) => updateClass(classItem.id, { difficulty })}
+                    className="justify-start"
+                  />
                 </div>
               ))}
             </div>
@@ -79,11 +120,11 @@ const AddClasses = () => {
 
         <Button
           onClick={handleContinue}
-          disabled={state.classes.length === 0}
+          disabled={state.classes.length === 0 || saving}
           className="w-full h-14 text-lg font-semibold"
           size="lg"
         >
-          Continue →
+          {saving ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Continue →'}
         </Button>
       </div>
     </div>
@@ -1,46 +1,228 @@
-import { useNavigate, useParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { useOnboarding } from '@/contexts/OnboardingContext';
-import { Clock } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { Clock, Loader2, Scale } from 'lucide-react';
+import { SyllabusDraftReview } from '@/components/SyllabusDraftReview';
+import { countUnsureFields, draftProblems, SyllabusDraft } from '@/lib/syllabusDraft';
+import { startParseJob } from '@/lib/parseSyllabus';
+
+interface SyllabusAssignment {
+  id: string;
+  title: string;
+  estimated_minutes: number;
+  category: string | null;
+  weight: number | null;
+}
+
+interface GradingCategory {
+  id: string;
+  name: string;
+  weight: number;
+}
 
 const AssignmentSummary = () => {
   const navigate = useNavigate();
   const { classId } = useParams();
-  const { state } = useOnboarding();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [className, setClassName] = useState('');
+  const [assignments, setAssignments] = useState<SyllabusAssignment[]>([]);
+  const [categories, setCategories] = useState<GradingCategory[]>([]);
+  const [draft, setDraft] = useState<SyllabusDraft | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [loading, setLoading] = useState(true);
 
-  const classItem = state.classes.find(c => c.id === classId);
+  // A finished preview job: its parsed syllabus is reviewed and corrected before saving
+  const jobId = searchParams.get('job');
 
-  if (!classItem || !classItem.assignments) {
-    navigate('/dashboard');
-    return null;
-  }
+  useEffect(() => {
+    if (user && classId) {
+      loadSummary();
+    }
+  }, [user, classId, jobId]);
+
+  const loadDraft = async () => {
+    const { data: job, error } = await supabase
+      .from('parse_jobs')
+      .select('mode, status, result')
+      .eq('id', jobId)
+      .eq('class_id', classId)
+      .maybeSingle();
+
+    if (error || !job) {
+      toast.error('Could not load the parsed syllabus');
+      return;
+    }
+
+    const parsed = (job.result as { parsed?: SyllabusDraft } | null)?.parsed;
+    if (job.mode === 'preview' && job.status === 'done' && parsed) {
+      setDraft({ ...parsed, topics: parsed.topics || [], assignments: parsed.assignments || [] });
+    } else {
+      toast.error('This syllabus draft is no longer available');
+    }
+  };
+
+  const loadSummary = async () => {
+    try {
+      if (jobId) await loadDraft();
+
+      const [classResult, assignmentsResult, categoriesResult] = await Promise.all([
+        supabase.from('classes').select('name').eq('id', classId).eq('user_id', user!.id).maybeSingle(),
+        supabase
+          .from('syllabus_assignments')
+          .select('id, title, estimated_minutes, category, weight')
+          .eq('class_id', classId)
+          .order('due_date'),
+        supabase
+          .from('grading_categories')
+          .select('id, name, weight')
+          .eq('class_id', classId)
+          .order('weight', { ascending: false }),
+      ]);
+
+      if (!classResult.data) {
+        navigate('/dashboard');
+        return;
+      }
+
+      setClassName(classResult.data.name);
+      setAssignments(assignmentsResult.data || []);
+      setCategories(categoriesResult.data || []);
+    } catch (error) {
+      console.error('Error loading assignment summary:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleContinue = () => {
-    navigate(`/study-plan/${classId}`);
+    navigate(`/class/${classId}`);
+  };
+
+  // Saves the corrected draft; the study plan is generated from it, not from the raw parse
+  const handleConfirm = async () => {
+    if (!draft || !user || !classId) return;
+
+    const problems = draftProblems(draft);
+    if (problems.length > 0) {
+      toast.error(problems[0]);
+      return;
+    }
+
+    setConfirming(true);
+    try {
+      const confirmedJobId = await startParseJob({
+        classId,
+        mode: 'apply',
+        parsed: {
+          ...draft,
+          topics: draft.topics.map((topic) => ({ ...topic, title: topic.title.trim() })),
+          assignments: draft.assignments.map((assignment) => ({ ...assignment, title: assignment.title.trim() })),
+        },
+      });
+      navigate(`/ai-processing/${classId}?job=${confirmedJobId}`, { replace: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save syllabus';
+      toast.error(errorMessage);
+      setConfirming(false);
+    }
   };
 
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (draft) {
+    const unsure = countUnsureFields(draft);
+
+    return (
+      <div className="min-h-screen bg-background p-6">
+        <div className="mx-auto w-full max-w-3xl space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+          <div className="text-center space-y-3">
+            <h1 className="text-3xl font-bold text-foreground">
+              Review {className}
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Fix anything we got wrong. Nothing is saved until you confirm.
+            </p>
+            {unsure > 0 && (
+              <p className="text-sm text-amber-500">{unsure} fields to double-check</p>
+            )}
+          </div>
+
+          <SyllabusDraftReview draft={draft} onChange={setDraft} />
+
+          <div className="flex gap-3">
+            <Button variant="outline" className="h-14" onClick={handleContinue} disabled={confirming}>
+              Discard
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              className="flex-1 h-14 text-lg font-semibold"
+              size="lg"
+              disabled={confirming}
+            >
+              {confirming ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Confirm and build my plan →'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-background p-6">
       <div className="w-full max-w-md space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
         <div className="text-center space-y-3">
           <h1 className="text-3xl font-bold text-foreground">
-            {classItem.name} Assignments
+            {className} Assignments
           </h1>
           <p className="text-lg text-muted-foreground">
             We found these in your syllabus
           </p>
         </div>
 
+        {categories.length > 0 && (
+          <div className="bg-card border border-border rounded-xl p-4 space-y-2">
+            <div className="flex items-center gap-2 font-semibold text-foreground">
+              <Scale className="h-4 w-4" />
+              Grading breakdown
+            </div>
+            {categories.map((category) => (
+              <div key={category.id} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{category.name}</span>
+                <span className="font-medium text-foreground">{category.weight}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-3">
-          {classItem.assignments.map((assignment) => (
+          {assignments.map((assignment) => (
             <div
               key={assignment.id}
-              className="bg-card border border-border rounded-xl p-4 flex items-center justify-between"
+              className="bg-card border border-border rounded-xl p-4 flex items-center justify-between gap-3"
             >
-              <span className="font-medium text-foreground">{assignment.name}</span>
-              <div className="flex items-center gap-2 text-muted-foreground">
+              <div>
+                <span className="font-medium text-foreground">{assignment.title}</span>
+                {(assignment.category || assignment.weight !== null) && (
+                  <div className="text-sm text-muted-foreground">
+                    {assignment.category}
+                    {assignment.category && assignment.weight !== null && ' • '}
+                    {assignment.weight !== null && `${assignment.weight}% of grade`}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground shrink-0">
                 <Clock className="h-4 w-4" />
-                <span>{assignment.estimatedTime} min</span>
+                <span>{assignment.estimated_minutes} min</span>
               </div>
             </div>
           ))}
@@ -51,7 +233,7 @@ const AssignmentSummary = () => {
           className="w-full h-14 text-lg font-semibold"
           size="lg"
         >
-          Build My {classItem.name} Plan →
+          Go to {className} →
         </Button>
       </div>
     </div>
@@ -1,14 +1,24 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Calendar as CalendarIcon, Clock, BookOpen, List, Grid3x3, ChevronLeft, ChevronRight, Upload, X } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, BookOpen, List, Grid3x3, ChevronLeft, ChevronRight, Upload, X, RefreshCw, Rss, Copy, Download, KeyRound, Lock, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { format, isSameDay, parseISO, addDays, startOfWeek } from 'date-fns';
 import { cn } from '@/lib/utils';
 import PinkyPromiseDialog from '@/components/PinkyPromiseDialog';
-import ICAL from 'ical.js';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { BlockTiming, canReschedule, replanStudyBlocks, rescheduleStudyBlock } from '@/lib/studyPlanner';
+import { fromMinutes, toMinutes } from '@shared/scheduler';
+import { TimelinePreview, useTimelineDrag } from '@/hooks/useTimelineDrag';
+import { BlockKind, blockLabel, isStudyKind } from '@/lib/blockKinds';
+import { AttendanceButtons } from '@/components/AttendanceButtons';
+import { ConflictNotice } from '@/components/ConflictNotice';
+import { blocksOverlap, conflictsByBlock, timedBlock } from '@/lib/conflicts';
+import { useAuth } from '@/contexts/AuthContext';
+import { downloadCalendar, feedUrl, loadFeedToken, rotateFeedToken, webcalUrl } from '@/lib/calendarFeed';
+import { applyCalendarImport, ClassMapping, ImportDraft, ImportPlan, MappingOrigin, planCalendarImport, readCalendarImport } from '@/lib/icsImport';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface StudyBlock {
   id: string;
@@ -17,9 +27,17 @@ interface StudyBlock {
   duration_minutes: number;
   class_id: string;
   assignment_id?: string;
+  kind: string;
+  source: string;
+  meeting_kind?: string | null;
+  attendance?: string | null;
+  location?: string | null;
   classes: {
     name: string;
   };
+  syllabus_assignments: {
+    title: string;
+  } | null;
 }
 
 interface PinkyPromise {
@@ -30,6 +48,48 @@ interface PinkyPromise {
 
 type ViewMode = 'month' | 'list' | 'day' | 'week';
 
+// The day timeline runs from 7am to 11pm
+const TIMELINE_START = 7 * 60;
+const TIMELINE_END = 23 * 60;
+
+// Each kind of block gets its own color in every view
+const KIND_COLORS: Record<BlockKind, { solid: string; tint: string; gradient: string }> = {
+  study: { solid: '#FAD961', tint: 'rgba(250, 217, 97, 0.2)', gradient: 'linear-gradient(135deg, #FAD961 0%, #F76B1C 100%)' },
+  review: { solid: '#f093fb', tint: 'rgba(240, 147, 251, 0.2)', gradient: 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)' },
+  class_meeting: { solid: '#667eea', tint: 'rgba(102, 126, 234, 0.2)', gradient: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)' },
+  exam: { solid: '#f5576c', tint: 'rgba(245, 87, 108, 0.2)', gradient: 'linear-gradient(135deg, #f5576c 0%, #c0392b 100%)' },
+  custom: { solid: '#888888', tint: 'rgba(136, 136, 136, 0.2)', gradient: 'linear-gradient(135deg, #888888 0%, #555555 100%)' },
+};
+
+// Changes listed in the import preview; the counts above the list cover the rest
+const IMPORT_PREVIEW_LIMIT = 50;
+
+const IMPORT_CHANGE_STYLES = {
+  added: { label: 'New', color: '#4ade80' },
+  updated: { label: 'Updated', color: '#FAD961' },
+  removed: { label: 'Removed', color: '#f5576c' },
+};
+
+// How a block is named where another block overlaps it
+const overlapName = (block: StudyBlock) => `${block.classes.name} · ${blockLabel(block)}`;
+
+// Every change of an import plan in date order, for the preview dialog
+const importChanges = (plan: ImportPlan) =>
+  [
+    ...plan.inserts.map(({ event: e }) => ({ type: 'added' as const, date: e.blockDate, time: e.startTime, title: e.summary })),
+    ...plan.updates.map(({ event: e }) => ({ type: 'updated' as const, date: e.blockDate, time: e.startTime, title: e.summary })),
+    ...plan.deletes.map((d) => ({ type: 'removed' as const, date: d.blockDate, time: d.startTime, title: d.className || 'Imported event' })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+
+// Why a class was picked for an imported label, shown next to the picker
+const MAPPING_ORIGIN_HINTS: Partial<Record<MappingOrigin, string>> = {
+  rule: 'Remembered',
+  code: 'Same course code',
+  fuzzy: 'Similar name',
+};
+
+const kindColors = (block: { kind: string }) => KIND_COLORS[block.kind as BlockKind] || KIND_COLORS.study;
+
 const CalendarPage = () => {
   const [studyBlocks, setStudyBlocks] = useState<StudyBlock[]>([]);
   const [pinkyPromises, setPinkyPromises] = useState<PinkyPromise[]>([]);
@@ -41,8 +101,18 @@ const CalendarPage = () => {
   const [showPromiseDialog, setShowPromiseDialog] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importDraft, setImportDraft] = useState<ImportDraft | null>(null);
+  const [importMappings, setImportMappings] = useState<ClassMapping[]>([]);
+  const [isReplanning, setIsReplanning] = useState(false);
+  const [showSubscribeDialog, setShowSubscribeDialog] = useState(false);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const weekGridRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const loadPinkyPromises = async () => {
     try {
@@ -70,7 +140,8 @@ const CalendarPage = () => {
         .from('study_blocks')
         .select(`
           *,
-          classes(name)
+          classes(name),
+          syllabus_assignments(title)
         `)
         .eq('user_id', user.id)
         .order('block_date', { ascending: true })
@@ -111,110 +182,58 @@ const CalendarPage = () => {
 
     setIsImporting(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      // Read file content
-      const fileContent = await file.text();
-      
-      // Parse ICS file
-      const jcalData = ICAL.parse(fileContent);
-      const comp = new ICAL.Component(jcalData);
-      const events = comp.getAllSubcomponents('vevent');
+      const draft = await readCalendarImport(user.id, await file.text());
+      const plan = planCalendarImport(draft, draft.mappings);
+      setShowImportDialog(false);
 
-      if (events.length === 0) {
-        throw new Error('No events found in calendar file');
+      if (plan.inserts.length + plan.updates.length + plan.deletes.length === 0) {
+        toast({
+          title: "Already up to date ✨",
+          description: "Everything in this calendar is already imported",
+        });
+        return;
       }
 
-      // Process events and create study blocks
-      const classMap = new Map<string, string>(); // Map class names to class IDs
-      const studyBlocksToInsert: Array<{
-        user_id: string;
-        class_id: string;
-        block_date: string;
-        start_time: string | null;
-        duration_minutes: number;
-      }> = [];
-
-      for (const event of events) {
-        const vevent = new ICAL.Event(event);
-        const summary = vevent.summary || 'Untitled Event';
-        const startDate = vevent.startDate.toJSDate();
-        const endDate = vevent.endDate?.toJSDate();
-        
-        // Calculate duration in minutes
-        const durationMinutes = endDate 
-          ? Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60))
-          : 60; // Default to 60 minutes if no end time
-
-        // Extract class name from summary (remove common prefixes)
-        const className = summary
-          .replace(/^(Assignment|Homework|Quiz|Exam|Lab|Lecture|Discussion|Reading):\s*/i, '')
-          .replace(/\s*-\s*.*$/, '') // Remove suffixes after dash
-          .trim() || 'Imported Class';
-
-        // Get or create class
-        let classId = classMap.get(className);
-        if (!classId) {
-          // Check if class exists
-          const { data: existingClass } = await supabase
-            .from('classes')
-            .select('id')
-            .eq('user_id', user.id)
-            .eq('name', className)
-            .single();
-
-          if (existingClass) {
-            classId = existingClass.id;
-          } else {
-            // Create new class
-            const { data: newClass, error: classError } = await supabase
-              .from('classes')
-              .insert({
-                user_id: user.id,
-                name: className,
-              })
-              .select('id')
-              .single();
-
-            if (classError) throw classError;
-            classId = newClass.id;
-          }
-          classMap.set(className, classId);
-        }
-
-        // Format date and time
-        const blockDate = format(startDate, 'yyyy-MM-dd');
-        const startTime = format(startDate, 'HH:mm');
-
-        studyBlocksToInsert.push({
-          user_id: user.id,
-          class_id: classId,
-          block_date: blockDate,
-          start_time: startTime,
-          duration_minutes: durationMinutes,
-        });
+      setImportMappings(draft.mappings);
+      setImportDraft(draft);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      toast({
+        title: "Import failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
       }
+    }
+  };
 
-      // Insert all study blocks
-      if (studyBlocksToInsert.length > 0) {
-        const { error: insertError } = await supabase
-          .from('study_blocks')
-          .insert(studyBlocksToInsert);
+  const handleConfirmImport = async () => {
+    if (!user || !importPlan) return;
 
-        if (insertError) throw insertError;
+    setIsImporting(true);
+    try {
+      const { inserted, updated, deleted } = await applyCalendarImport(user.id, importPlan, importMappings);
+      const changes = [
+        inserted > 0 && `${inserted} added`,
+        updated > 0 && `${updated} updated`,
+        deleted > 0 && `${deleted} removed`,
+      ].filter(Boolean);
 
-        toast({
-          title: "Calendar imported! ✨",
-          description: `Successfully imported ${studyBlocksToInsert.length} events from your calendar`,
-        });
+      toast({
+        title: "Calendar imported! ✨",
+        description: `Events ${changes.join(', ')}`,
+      });
 
-        // Reload study blocks
-        await loadStudyBlocks();
-        setShowImportDialog(false);
-      }
+      setImportDraft(null);
+      await loadStudyBlocks();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       toast({
@@ -224,9 +243,112 @@ const CalendarPage = () => {
       });
     } finally {
       setIsImporting(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+    }
+  };
+
+  // value is a class id, 'new' or 'skip'
+  const handleMappingChange = (label: string, value: string) => {
+    setImportMappings((mappings) =>
+      mappings.map((mapping) =>
+        mapping.label !== label
+          ? mapping
+          : {
+              ...mapping,
+              target: value === 'new' || value === 'skip' ? { type: value } : { type: 'class', classId: value },
+              origin: 'user',
+            }
+      )
+    );
+  };
+
+  const handleOpenSubscribe = async () => {
+    setShowSubscribeDialog(true);
+    if (!user || feedToken) return;
+
+    try {
+      setFeedToken(await loadFeedToken(user.id));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      toast({
+        title: "Couldn't load your calendar link",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!feedToken) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl(feedToken));
+      toast({ title: "Link copied 📋", description: "Paste it into your calendar app's \"Add calendar from URL\"" });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: "Select it and copy it by hand", variant: "destructive" });
+    }
+  };
+
+  const handleRotateFeedToken = async () => {
+    setIsRotating(true);
+    try {
+      setFeedToken(await rotateFeedToken());
+      toast({
+        title: "New link created",
+        description: "Calendars using the old link will stop updating",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      toast({
+        title: "Couldn't reset the link",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleDownloadCalendar = async () => {
+    if (!user) return;
+    setIsDownloading(true);
+    try {
+      await downloadCalendar(user.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      toast({
+        title: "Download failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleReplan = async () => {
+    setIsReplanning(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
       }
+
+      const result = await replanStudyBlocks(user.id);
+      toast({
+        title: "Study plan rebuilt 🗓️",
+        description: result.unscheduledMinutes > 0
+          ? `Scheduled ${result.inserted} sessions. ${result.unscheduledMinutes} min didn't fit before their deadlines.`
+          : `Scheduled ${result.inserted} sessions around your classes and events`,
+      });
+      await loadStudyBlocks();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      toast({
+        title: "Replanning failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsReplanning(false);
     }
   };
 
@@ -265,7 +387,85 @@ const CalendarPage = () => {
     return pinkyPromises.some(p => p.block_id === blockId && p.status === 'active');
   };
 
+  // Shows a dragged or resized block in its new place at once, and puts it back if saving fails
+  const handleReschedule = async (block: StudyBlock, timing: BlockTiming) => {
+    const updateBlock = (next: StudyBlock) =>
+      setStudyBlocks((blocks) => blocks.map((b) => (b.id === next.id ? next : b)));
+
+    updateBlock({ ...block, ...timing });
+    try {
+      const moved = { ...block, ...(await rescheduleStudyBlock(block, timing)) };
+      updateBlock(moved);
+      const overlaps = studyBlocks.filter((b) => blocksOverlap(timedBlock(moved), timedBlock(b)));
+      if (overlaps.length > 0) {
+        toast({
+          title: "Heads up: this overlaps ⚠️",
+          description: overlaps.map(overlapName).join(', '),
+        });
+      }
+    } catch (error) {
+      updateBlock(block);
+      const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+      toast({
+        title: "Couldn't move block",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTimelineDrop = ({ blockId, startMinutes, durationMinutes }: TimelinePreview) => {
+    const block = studyBlocks.find((b) => b.id === blockId);
+    if (!block) return;
+    handleReschedule(block, {
+      block_date: block.block_date,
+      start_time: fromMinutes(startMinutes),
+      duration_minutes: durationMinutes,
+    });
+  };
+
+  const measureTimeline = useCallback(
+    () => (TIMELINE_END - TIMELINE_START) / (timelineRef.current?.clientHeight || 1),
+    []
+  );
+
+  const { preview: dragPreview, startDrag, consumeDrag } = useTimelineDrag({
+    dayStart: TIMELINE_START,
+    dayEnd: TIMELINE_END,
+    minutesPerPixel: measureTimeline,
+    onDrop: handleTimelineDrop,
+  });
+
+  const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+  const handleWeekDrop = ({ blockId, dayOffset }: TimelinePreview) => {
+    const block = studyBlocks.find((b) => b.id === blockId);
+    if (!block || dayOffset === 0) return;
+    handleReschedule(block, {
+      block_date: shiftDate(block.block_date, dayOffset),
+      start_time: block.start_time,
+      duration_minutes: block.duration_minutes,
+    });
+  };
+
+  const measureWeekColumn = useCallback(() => (weekGridRef.current?.clientWidth || 7) / 7, []);
+
+  // In the week view blocks only move sideways, to another day at the same time
+  const { preview: weekPreview, startDrag: startWeekDrag, consumeDrag: consumeWeekDrag } = useTimelineDrag({
+    dayStart: 0,
+    dayEnd: 24 * 60,
+    pixelsPerDay: measureWeekColumn,
+    onDrop: handleWeekDrop,
+  });
+  const weekDraggedBlock = weekPreview ? studyBlocks.find((b) => b.id === weekPreview.blockId) : null;
+  const weekDropDate =
+    weekPreview && weekDraggedBlock ? shiftDate(weekDraggedBlock.block_date, weekPreview.dayOffset) : null;
+
+  // Pinky promises are for study time; class meetings, exams and events have nothing to promise
   const handleBlockClick = (block: StudyBlock) => {
+    // The click that ends a drag is not a tap on the block
+    if (consumeDrag()) return;
+    if (!isStudyKind(block.kind)) return;
     setSelectedBlock(block);
     setShowPromiseDialog(true);
   };
@@ -281,6 +481,16 @@ const CalendarPage = () => {
     return Array.from({ length: 7 }, (_, i) => addDays(start, i));
   };
 
+  // Blocks that overlap others, with the blocks they overlap
+  const blockConflicts = useMemo(() => conflictsByBlock(studyBlocks), [studyBlocks]);
+  const conflictNames = (blockId: string) => (blockConflicts.get(blockId) || []).map(overlapName);
+
+  const importPlan: ImportPlan | null = useMemo(
+    () => (importDraft ? planCalendarImport(importDraft, importMappings) : null),
+    [importDraft, importMappings]
+  );
+  const importPreview = importPlan ? importChanges(importPlan) : [];
+
   const displayedBlocks = viewMode === 'day' 
     ? getBlocksForDate(selectedDate)
     : viewMode === 'week'
@@ -310,17 +520,12 @@ const CalendarPage = () => {
 
   // Calculate position for time blocks (7am = 0%, 11pm = 100%)
   const getTimePosition = (timeStr: string) => {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    const totalMinutes = hours * 60 + minutes;
-    const startMinutes = 7 * 60; // 7 AM
-    const endMinutes = 23 * 60; // 11 PM
-    const relativeMinutes = totalMinutes - startMinutes;
-    return (relativeMinutes / (endMinutes - startMinutes)) * 100;
+    const relativeMinutes = toMinutes(timeStr) - TIMELINE_START;
+    return (relativeMinutes / (TIMELINE_END - TIMELINE_START)) * 100;
   };
 
   const getBlockHeight = (duration: number) => {
-    const totalRange = 16 * 60; // 7am to 11pm = 16 hours
-    return (duration / totalRange) * 100;
+    return (duration / (TIMELINE_END - TIMELINE_START)) * 100;
   };
 
   if (loading) {
@@ -349,6 +554,14 @@ const CalendarPage = () => {
           <div className="flex items-center justify-between mb-2">
             <h1 className="text-white text-2xl font-bold">Calendar</h1>
             <div className="flex items-center gap-2">
+              <button
+                onClick={handleReplan}
+                disabled={isReplanning}
+                className="p-2 rounded-lg transition-colors text-[#888888] hover:text-white hover:bg-[#1C1C1C] disabled:opacity-50"
+                title="Rebuild study plan"
+              >
+                <RefreshCw className={cn("w-5 h-5", isReplanning && "animate-spin")} />
+              </button>
               <button
                 onClick={() => setShowImportDialog(true)}
                 className="p-2 rounded-lg transition-colors text-[#888888] hover:text-white hover:bg-[#1C1C1C]"
@@ -356,6 +569,13 @@ const CalendarPage = () => {
               >
                 <Upload className="w-5 h-5" />
               </button>
+              <button
+                onClick={handleOpenSubscribe}
+                className="p-2 rounded-lg transition-colors text-[#888888] hover:text-white hover:bg-[#1C1C1C]"
+                title="Subscribe or export"
+              >
+                <Rss className="w-5 h-5" />
+              </button>
               <button
                 onClick={() => setViewMode('month')}
                 className={cn(
@@ -486,54 +706,68 @@ const CalendarPage = () => {
                       {formatDate(format(selectedDate, 'yyyy-MM-dd'))}
                     </h2>
                     <div className="space-y-3">
-                      {selectedDateBlocks.map((block, index) => {
+                      {selectedDateBlocks.map((block) => {
                         const hasBlockPromise = hasPromise(block.id);
                         return (
-                          <button
-                            key={block.id}
-                            onClick={() => handleBlockClick(block)}
-                            className="w-full rounded-2xl p-5 border border-[#1C1C1C] hover:border-[#2A2A2A] transition-all text-left"
-                            style={{ background: '#141414' }}
-                          >
-                            <div className="flex items-start justify-between gap-4">
-                              <div className="flex-1 space-y-2">
-                                <div className="flex items-center gap-2">
-                                  <div 
-                                    className="w-3 h-3 rounded-full"
-                                    style={{
-                                      background: index % 3 === 0 
-                                        ? 'linear-gradient(135deg, #FAD961 0%, #F76B1C 100%)'
-                                        : index % 3 === 1
-                                        ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)'
-                                        : 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)'
-                                    }}
-                                  />
-                                  <h3 className="text-lg font-bold text-white">
-                                    {block.classes.name}
-                                  </h3>
-                                  {hasBlockPromise && (
-                                    <span className="text-lg">🤙</span>
+                          <div key={block.id} className="space-y-2">
+                            <button
+                              onClick={() => handleBlockClick(block)}
+                              className="w-full rounded-2xl p-5 border border-[#1C1C1C] hover:border-[#2A2A2A] transition-all text-left"
+                              style={{ background: '#141414' }}
+                            >
+                              <div className="flex items-start justify-between gap-4">
+                                <div className="flex-1 space-y-2">
+                                  <div className="flex items-center gap-2">
+                                    <div 
+                                      className="w-3 h-3 rounded-full"
+                                      style={{ background: kindColors(block).gradient }}
+                                    />
+                                    <h3 className="text-lg font-bold text-white">
+                                      {block.classes.name}
+                                    </h3>
+                                    {hasBlockPromise && (
+                                      <span className="text-lg">🤙</span>
+                                    )}
+                                  </div>
+                                  {block.syllabus_assignments && (
+                                    <p className="text-sm text-[#888888] font-medium pl-5">
+                                      {block.syllabus_assignments.title}
+                                    </p>
                                   )}
-                                </div>
-                                {block.assignment_id && (
                                   <p className="text-sm text-[#888888] font-medium pl-5">
-                                    Assignment: {block.assignment_id}
+                                    {blockLabel(block)}
                                   </p>
-                                )}
-                              </div>
-                              <div className="text-right space-y-1">
-                                {block.start_time && (
-                                  <div className="flex items-center gap-2 text-white font-bold text-sm">
-                                    <Clock className="h-4 w-4" />
-                                    <span>{formatTime(block.start_time)}</span>
+                                </div>
+                                <div className="text-right space-y-1">
+                                  {block.start_time && (
+                                    <div className="flex items-center gap-2 text-white font-bold text-sm">
+                                      <Clock className="h-4 w-4" />
+                                      <span>{formatTime(block.start_time)}</span>
+                                    </div>
+                                  )}
+                                  <div className="text-xs text-[#888888] font-medium">
+                                    {block.duration_minutes} min
                                   </div>
-                                )}
-                                <div className="text-xs text-[#888888] font-medium">
-                                  {block.duration_minutes} min
                                 </div>
                               </div>
-                            </div>
-                          </button>
+                            </button>
+                            {blockConflicts.has(block.id) && user && (
+                              <ConflictNotice
+                                blockId={block.id}
+                                userId={user.id}
+                                overlaps={conflictNames(block.id)}
+                                onResolved={loadStudyBlocks}
+                              />
+                            )}
+                            {block.kind === 'class_meeting' && user && (
+                              <AttendanceButtons
+                                meeting={block}
+                                userId={user.id}
+                                onChanged={loadStudyBlocks}
+                                className="justify-end"
+                              />
+                            )}
+                          </div>
                         );
                       })}
                     </div>
@@ -570,54 +804,60 @@ const CalendarPage = () => {
                       />
                     </div>
                 <div className="space-y-3">
-                  {blocks.map((block, index) => {
+                  {blocks.map((block) => {
                     const hasBlockPromise = hasPromise(block.id);
                     return (
-                      <button
-                        key={block.id}
-                        onClick={() => handleBlockClick(block)}
-                        className="w-full rounded-2xl p-5 border border-[#1C1C1C] hover:border-[#2A2A2A] transition-all hover-scale text-left"
-                        style={{ background: '#141414' }}
-                      >
-                        <div className="flex items-start justify-between gap-4">
-                          <div className="flex-1 space-y-2">
-                            <div className="flex items-center gap-2">
-                              <div 
-                                className="w-3 h-3 rounded-full"
-                                style={{
-                                  background: index % 3 === 0 
-                                    ? 'linear-gradient(135deg, #FAD961 0%, #F76B1C 100%)'
-                                    : index % 3 === 1
-                                    ? 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)'
-                                    : 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)'
-                                }}
-                              />
-                              <h3 className="text-lg font-bold text-white">
-                                {block.classes.name}
-                              </h3>
-                              {hasBlockPromise && (
-                                <span className="text-lg">🤙</span>
+                      <div key={block.id} className="space-y-2">
+                        <button
+                          onClick={() => handleBlockClick(block)}
+                          className="w-full rounded-2xl p-5 border border-[#1C1C1C] hover:border-[#2A2A2A] transition-all hover-scale text-left"
+                          style={{ background: '#141414' }}
+                        >
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="flex-1 space-y-2">
+                              <div className="flex items-center gap-2">
+                                <div 
+                                  className="w-3 h-3 rounded-full"
+                                  style={{ background: kindColors(block).gradient }}
+                                />
+                                <h3 className="text-lg font-bold text-white">
+                                  {block.classes.name}
+                                </h3>
+                                {hasBlockPromise && (
+                                  <span className="text-lg">🤙</span>
+                                )}
+                              </div>
+                              {block.syllabus_assignments && (
+                                <p className="text-sm text-[#888888] font-medium pl-5">
+                                  {block.syllabus_assignments.title}
+                                </p>
                               )}
-                            </div>
-                            {block.assignment_id && (
                               <p className="text-sm text-[#888888] font-medium pl-5">
-                                Assignment: {block.assignment_id}
+                                {blockLabel(block)}
                               </p>
-                            )}
-                          </div>
-                          <div className="text-right space-y-1">
-                            {block.start_time && (
-                              <div className="flex items-center gap-2 text-white font-bold text-sm">
-                                <Clock className="h-4 w-4" />
-                                <span>{formatTime(block.start_time)}</span>
+                            </div>
+                            <div className="text-right space-y-1">
+                              {block.start_time && (
+                                <div className="flex items-center gap-2 text-white font-bold text-sm">
+                                  <Clock className="h-4 w-4" />
+                                  <span>{formatTime(block.start_time)}</span>
+                                </div>
+                              )}
+                              <div className="text-xs text-[#888888] font-medium">
+                                {block.duration_minutes} min
                               </div>
-                            )}
-                            <div className="text-xs text-[#888888] font-medium">
-                              {block.duration_minutes} min
                             </div>
                           </div>
-                        </div>
-                      </button>
+                        </button>
+                        {blockConflicts.has(block.id) && user && (
+                          <ConflictNotice
+                            blockId={block.id}
+                            userId={user.id}
+                            overlaps={conflictNames(block.id)}
+                            onResolved={loadStudyBlocks}
+                          />
+                        )}
+                      </div>
                     );
                   })}
                 </div>
@@ -732,47 +972,70 @@ const CalendarPage = () => {
                         </div>
 
                         {/* Study blocks */}
-                        <div className="ml-16 relative h-full">
-                          {displayedBlocks.map((block, idx) => {
+                        <div ref={timelineRef} className="ml-16 relative h-full">
+                          {displayedBlocks.map((block) => {
                             const hasBlockPromise = hasPromise(block.id);
                             if (!block.start_time) return null;
+
+                            const movable = canReschedule(block.kind);
+                            const dragged = dragPreview?.blockId === block.id ? dragPreview : null;
+                            const startTime = dragged ? fromMinutes(dragged.startMinutes) : block.start_time;
+                            const duration = dragged ? dragged.durationMinutes : block.duration_minutes;
                             
                             return (
                               <button
                                 key={block.id}
                                 onClick={() => handleBlockClick(block)}
-                                className="absolute left-0 right-0 rounded-lg p-3 border-l-4 hover:shadow-lg transition-all cursor-pointer group"
+                                onPointerDown={
+                                  movable
+                                    ? (e) => startDrag(e, block.id, 'move', toMinutes(block.start_time as string), block.duration_minutes)
+                                    : undefined
+                                }
+                                className={cn(
+                                  "absolute left-0 right-0 rounded-lg p-3 border-l-4 hover:shadow-lg transition-all group",
+                                  movable ? "cursor-grab touch-none" : "cursor-pointer",
+                                  dragged && "cursor-grabbing shadow-lg z-10 opacity-90 transition-none"
+                                )}
                                 style={{
-                                  top: `${getTimePosition(block.start_time)}%`,
-                                  height: `${getBlockHeight(block.duration_minutes)}%`,
-                                  backgroundColor: idx % 3 === 0 
-                                    ? 'rgba(250, 217, 97, 0.2)'
-                                    : idx % 3 === 1
-                                    ? 'rgba(102, 126, 234, 0.2)'
-                                    : 'rgba(240, 147, 251, 0.2)',
-                                  borderColor: idx % 3 === 0 
-                                    ? '#FAD961'
-                                    : idx % 3 === 1
-                                    ? '#667eea'
-                                    : '#f093fb'
+                                  top: `${getTimePosition(startTime)}%`,
+                                  height: `${getBlockHeight(duration)}%`,
+                                  backgroundColor: kindColors(block).tint,
+                                  borderColor: kindColors(block).solid,
                                 }}
                               >
                                 <div className="flex items-start justify-between gap-2">
                                   <div className="flex-1 text-left">
                                     <div className="font-bold text-sm text-white truncate">{block.classes.name}</div>
                                     <div className="text-xs font-medium mt-1 text-[#888888]">
-                                      {formatTime(block.start_time)} • {block.duration_minutes}m
+                                      {formatTime(startTime)} • {duration}m • {blockLabel(block)}
                                     </div>
                                   </div>
                                   {hasBlockPromise && (
                                     <div className="text-lg">🤙</div>
                                   )}
+                                  {blockConflicts.has(block.id) && (
+                                    <span title={`Overlaps ${conflictNames(block.id).join(', ')}`}>
+                                      <AlertTriangle className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" aria-label="Overlaps another block" />
+                                    </span>
+                                  )}
+                                  {!movable && (
+                                    <Lock className="w-3.5 h-3.5 text-[#888888] flex-shrink-0" aria-label="Follows the class schedule" />
+                                  )}
                                 </div>
-                                {!hasBlockPromise && (
+                                {!hasBlockPromise && isStudyKind(block.kind) && (
                                   <div className="opacity-0 group-hover:opacity-100 transition-opacity text-xs text-[#888888] mt-1">
                                     Click to make pinky promise
                                   </div>
                                 )}
+                                {movable && (
+                                  <div
+                                    onPointerDown={(e) =>
+                                      startDrag(e, block.id, 'resize', toMinutes(block.start_time as string), block.duration_minutes)
+                                    }
+                                    className="absolute left-0 right-0 bottom-0 h-2 cursor-ns-resize"
+                                    title="Drag to change length"
+                                  />
+                                )}
                               </button>
                             );
                           })}
@@ -783,25 +1046,34 @@ const CalendarPage = () => {
                 ) : (
                   // Week View
                   <div className="space-y-4">
-                    <h2 className="text-white text-2xl font-bold">Week View</h2>
-                    <div className="grid grid-cols-7 gap-2">
-                      {getWeekDates().map((date) => {
+                    <div className="flex items-baseline justify-between">
+                      <h2 className="text-white text-2xl font-bold">Week View</h2>
+                      <span className="text-xs text-[#888888]">Drag a block to another day to move it</span>
+                    </div>
+                    <div ref={weekGridRef} className="grid grid-cols-7 gap-2">
+                      {getWeekDates().map((date, dayIndex) => {
                         const dateBlocks = getBlocksForDate(date);
+                        const dateStr = format(date, 'yyyy-MM-dd');
                         const isToday = isSameDay(date, new Date());
                         const isSelected = isSameDay(date, selectedDate);
+                        const openDay = () => {
+                          setSelectedDate(date);
+                          setViewMode('day');
+                        };
                         
                         return (
-                          <button
+                          <div
                             key={date.toISOString()}
-                            onClick={() => {
-                              setSelectedDate(date);
-                              setViewMode('day');
-                            }}
+                            role="button"
+                            tabIndex={0}
+                            onClick={() => !consumeWeekDrag() && openDay()}
+                            onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && openDay()}
                             className={cn(
-                              "p-3 rounded-lg border transition-all",
+                              "p-3 rounded-lg border transition-all cursor-pointer",
                               isSelected && "border-[#FAD961] bg-[#FAD961]/10",
                               isToday && !isSelected && "border-[#1C1C1C] bg-[#1C1C1C]",
-                              !isSelected && !isToday && "border-[#1C1C1C] hover:border-[#2A2A2A] bg-[#0A0A0A]"
+                              !isSelected && !isToday && "border-[#1C1C1C] hover:border-[#2A2A2A] bg-[#0A0A0A]",
+                              weekDropDate === dateStr && "border-[#FAD961] border-dashed"
                             )}
                           >
                             <div className="text-xs text-[#888888] font-medium">
@@ -815,24 +1087,35 @@ const CalendarPage = () => {
                               {format(date, 'd')}
                             </div>
                             <div className="mt-2 space-y-1">
-                              {dateBlocks.slice(0, 3).map((block, idx) => (
-                                <div
-                                  key={block.id}
-                                  className="h-1 rounded-full"
-                                  style={{
-                                    backgroundColor: idx % 3 === 0 
-                                      ? '#FAD961'
-                                      : idx % 3 === 1
-                                      ? '#667eea'
-                                      : '#f093fb'
-                                  }}
-                                />
-                              ))}
-                              {dateBlocks.length > 3 && (
-                                <div className="text-xs text-[#888888]">+{dateBlocks.length - 3}</div>
-                              )}
+                              {dateBlocks.map((block) => {
+                                const movable = canReschedule(block.kind);
+                                return (
+                                  <div
+                                    key={block.id}
+                                    onPointerDown={
+                                      movable
+                                        ? (e) =>
+                                            startWeekDrag(e, block.id, 'move', 0, block.duration_minutes, [dayIndex, 6 - dayIndex])
+                                        : undefined
+                                    }
+                                    className={cn(
+                                      "text-[10px] leading-4 px-1 rounded truncate text-left text-white",
+                                      movable ? "cursor-grab touch-none" : "cursor-pointer",
+                                      weekPreview?.blockId === block.id && "opacity-50",
+                                      blockConflicts.has(block.id) && "ring-1 ring-amber-500"
+                                    )}
+                                    style={{ backgroundColor: kindColors(block).tint, borderLeft: `2px solid ${kindColors(block).solid}` }}
+                                    title={[
+                                      `${block.classes.name} • ${formatTime(block.start_time)} • ${blockLabel(block)}`,
+                                      ...(blockConflicts.has(block.id) ? [`⚠️ Overlaps ${conflictNames(block.id).join(', ')}`] : []),
+                                    ].join('\n')}
+                                  >
+                                    {block.classes.name}
+                                  </div>
+                                );
+                              })}
                             </div>
-                          </button>
+                          </div>
                         );
                       })}
                     </div>
@@ -864,6 +1147,9 @@ const CalendarPage = () => {
                 <li>Google Calendar: Settings → Export</li>
                 <li>Apple Calendar: File → Export → Export...</li>
               </ul>
+              <p className="text-xs text-[#666666]">
+                Importing the same calendar again updates its events instead of adding them twice.
+              </p>
             </div>
             <input
               ref={fileInputRef}
@@ -892,6 +1178,194 @@ const CalendarPage = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Import Preview Dialog */}
+      <Dialog open={!!importPlan} onOpenChange={(open) => !open && !isImporting && setImportDraft(null)}>
+        <DialogContent className="bg-[#141414] border-[#1C1C1C] text-white max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl font-bold">Review Import</DialogTitle>
+            <DialogDescription className="text-[#888888]">
+              {importPlan?.source && importPlan.source !== 'ics' ? `From "${importPlan.source}". ` : ''}
+              Here's what will change on your calendar.
+            </DialogDescription>
+          </DialogHeader>
+          {importPlan && (
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {[
+                  { label: 'New', value: importPlan.inserts.length, color: IMPORT_CHANGE_STYLES.added.color },
+                  { label: 'Updated', value: importPlan.updates.length, color: IMPORT_CHANGE_STYLES.updated.color },
+                  { label: 'Removed', value: importPlan.deletes.length, color: IMPORT_CHANGE_STYLES.removed.color },
+                  { label: 'Unchanged', value: importPlan.unchanged, color: '#888888' },
+                ].map(({ label, value, color }) => (
+                  <div key={label} className="bg-[#0A0A0A] rounded-lg py-2">
+                    <div className="text-lg font-bold" style={{ color }}>{value}</div>
+                    <div className="text-xs text-[#888888]">{label}</div>
+                  </div>
+                ))}
+              </div>
+              {importDraft && importMappings.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm text-[#888888]">Classes</p>
+                  <div className="max-h-48 overflow-y-auto space-y-2">
+                    {importMappings.map((mapping) => (
+                      <div key={mapping.label} className="flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-white truncate">{mapping.label}</p>
+                          <p className="text-xs text-[#666666]">
+                            {mapping.eventCount} {mapping.eventCount === 1 ? 'event' : 'events'}
+                            {MAPPING_ORIGIN_HINTS[mapping.origin] && ` • ${MAPPING_ORIGIN_HINTS[mapping.origin]}`}
+                          </p>
+                        </div>
+                        <Select
+                          value={mapping.target.type === 'class' ? mapping.target.classId : mapping.target.type}
+                          onValueChange={(value) => handleMappingChange(mapping.label, value)}
+                          disabled={isImporting}
+                        >
+                          <SelectTrigger className="w-44 bg-[#0A0A0A] border-[#2A2A2A] text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {importDraft.classes.map((c) => (
+                              <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                            ))}
+                            <SelectItem value="new">➕ New class</SelectItem>
+                            <SelectItem value="skip">🚫 Skip</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {importPreview.slice(0, IMPORT_PREVIEW_LIMIT).map((change, index) => (
+                  <div key={index} className="flex items-center gap-3 text-sm py-1">
+                    <span
+                      className="text-xs font-semibold w-16 flex-shrink-0"
+                      style={{ color: IMPORT_CHANGE_STYLES[change.type].color }}
+                    >
+                      {IMPORT_CHANGE_STYLES[change.type].label}
+                    </span>
+                    <span className="text-[#888888] w-28 flex-shrink-0">
+                      {format(parseISO(change.date), 'EEE, MMM d')}
+                    </span>
+                    <span className="text-white truncate">{change.title}</span>
+                  </div>
+                ))}
+              </div>
+              {importPreview.length > IMPORT_PREVIEW_LIMIT && (
+                <p className="text-xs text-[#666666]">
+                  and {importPreview.length - IMPORT_PREVIEW_LIMIT} more
+                </p>
+              )}
+              {importPlan.conflicts > 0 && (
+                <p className="text-xs text-amber-500">
+                  ⚠️ {importPlan.conflicts} events overlap things already on your calendar.
+                </p>
+              )}
+              {importPlan.ignored > 0 && (
+                <p className="text-xs text-[#666666]">
+                  {importPlan.ignored} events of skipped classes won't be imported.
+                </p>
+              )}
+              {importPlan.skipped > 0 && (
+                <p className="text-xs text-[#666666]">
+                  {importPlan.skipped} events exported from Nudge were skipped; they're already on your calendar.
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  onClick={() => setImportDraft(null)}
+                  disabled={isImporting}
+                  variant="outline"
+                  className="border-[#2A2A2A] bg-transparent text-white hover:bg-[#1C1C1C]"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirmImport}
+                  disabled={isImporting}
+                  className="bg-gradient-to-r from-[#FAD961] to-[#F76B1C] hover:opacity-90 text-white font-semibold"
+                >
+                  {isImporting ? 'Importing...' : 'Import'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Subscribe / Export Dialog */}
+      <Dialog open={showSubscribeDialog} onOpenChange={setShowSubscribeDialog}>
+        <DialogContent className="bg-[#141414] border-[#1C1C1C] text-white">
+          <DialogHeader>
+            <DialogTitle className="text-white text-xl font-bold">Subscribe to your study plan</DialogTitle>
+            <DialogDescription className="text-[#888888]">
+              See study sessions, classes and exams in Google Calendar, Apple Calendar or Outlook. Changes show up there automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <p className="text-sm text-[#888888]">Your private calendar link:</p>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={feedToken ? feedUrl(feedToken) : 'Loading...'}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 bg-[#0A0A0A] border border-[#2A2A2A] rounded-lg px-3 text-sm text-white"
+                />
+                <Button
+                  onClick={handleCopyFeedUrl}
+                  disabled={!feedToken}
+                  variant="outline"
+                  className="border-[#2A2A2A] bg-transparent text-white hover:bg-[#1C1C1C]"
+                  title="Copy link"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-[#666666]">
+                Anyone with this link can see your plan. Reset it if you shared it by mistake.
+              </p>
+            </div>
+            <Button
+              asChild={!!feedToken}
+              disabled={!feedToken}
+              className="w-full h-12 bg-gradient-to-r from-[#FAD961] to-[#F76B1C] hover:opacity-90 text-white font-semibold"
+            >
+              {feedToken ? (
+                <a href={webcalUrl(feedToken)}>
+                  <Rss className="w-5 h-5 mr-2" />
+                  Open in Calendar App
+                </a>
+              ) : (
+                <span>Open in Calendar App</span>
+              )}
+            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={handleDownloadCalendar}
+                disabled={isDownloading}
+                variant="outline"
+                className="border-[#2A2A2A] bg-transparent text-white hover:bg-[#1C1C1C]"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {isDownloading ? 'Preparing...' : 'Download .ics'}
+              </Button>
+              <Button
+                onClick={handleRotateFeedToken}
+                disabled={isRotating || !feedToken}
+                variant="outline"
+                className="border-[#2A2A2A] bg-transparent text-white hover:bg-[#1C1C1C]"
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                {isRotating ? 'Resetting...' : 'Reset Link'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
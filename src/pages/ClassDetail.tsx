@@ -1,12 +1,24 @@
 import { useState, useEffect, useRef } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Upload, Loader2, ArrowLeft, Flame, Calendar, Sparkles, Brain, Target, Clock } from 'lucide-react';
+import { Upload, Loader2, ArrowLeft, Flame, Calendar, Sparkles, Brain, Target, Clock, RefreshCw, Scale, PencilLine, UserCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 import ClassCompletionModal from '@/components/ClassCompletionModal';
 import { ClassAIChat } from '@/components/ClassAIChat';
+import { TermExceptionsCard } from '@/components/TermExceptionsCard';
+import { ReadingListCard } from '@/components/ReadingListCard';
+import { AssignmentsCard } from '@/components/AssignmentsCard';
+import { SyllabusTopicsCard } from '@/components/SyllabusTopicsCard';
+import { ManualSyllabusEditor } from '@/components/ManualSyllabusEditor';
+import { DifficultyPicker } from '@/components/DifficultyPicker';
+import { Difficulty, resolveDifficulty } from '@shared/difficulty';
+import { attendanceRate } from '@/lib/attendance';
+import { blockEmoji, blockLabel } from '@/lib/blockKinds';
+import { replanMessage, setClassDifficulty } from '@/lib/studyPlanner';
+import { ParseMode, startParseJob, SYLLABUS_ACCEPT, syllabusFileType } from '@/lib/parseSyllabus';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 
 interface ClassData {
   id: string;
@@ -18,22 +30,13 @@ interface ClassData {
   ai_parsed: boolean;
   estimated_total_minutes: number;
   estimated_remaining_minutes: number;
+  difficulty: string | null;
 }
 
-interface SyllabusTopic {
+interface GradingCategory {
   id: string;
-  title: string;
-  description: string | null;
-  estimated_minutes: number;
-  order_index: number;
-}
-
-interface SyllabusAssignment {
-  id: string;
-  title: string;
-  type: string;
-  due_date: string | null;
-  estimated_minutes: number;
+  name: string;
+  weight: number;
 }
 
 interface StudyBlock {
@@ -41,22 +44,50 @@ interface StudyBlock {
   block_date: string;
   start_time: string | null;
   duration_minutes: number;
+  kind: string;
+  meeting_kind: string | null;
+  location: string | null;
+}
+
+interface EntityDiffSummary {
+  added: string[];
+  changed: { id: string; title: string; changes: { field: string }[] }[];
+  removed: string[];
+  unchanged: number;
+}
+
+interface SyllabusDiff {
+  topics: EntityDiffSummary;
+  assignments: EntityDiffSummary;
+  blocks: { added: number; removed: number; preserved: number; conflicts?: number };
+}
+
+interface ParseJobResult {
+  parsed?: unknown;
+  diff?: SyllabusDiff;
 }
 
 const ClassDetail = () => {
   const navigate = useNavigate();
   const { classId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useAuth();
   const [classData, setClassData] = useState<ClassData | null>(null);
-  const [topics, setTopics] = useState<SyllabusTopic[]>([]);
-  const [assignments, setAssignments] = useState<SyllabusAssignment[]>([]);
+  const [gradingCategories, setGradingCategories] = useState<GradingCategory[]>([]);
   const [studyBlocks, setStudyBlocks] = useState<StudyBlock[]>([]);
+  const [markedMeetings, setMarkedMeetings] = useState<{ attendance: string | null }[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [loading, setLoading] = useState(true);
   const [showCompletion, setShowCompletion] = useState(false);
   const [showAIChat, setShowAIChat] = useState(false);
   const [hasShownCompletion, setHasShownCompletion] = useState(false);
+  const [pendingReparse, setPendingReparse] = useState<{ jobId: string; parsed: unknown; diff: SyllabusDiff } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [savingDifficulty, setSavingDifficulty] = useState(false);
+  const [showManualEditor, setShowManualEditor] = useState(false);
+  // Bumped after an edit in one syllabus card so the others reload
+  const [syllabusVersion, setSyllabusVersion] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -65,6 +96,34 @@ const ClassDetail = () => {
     }
   }, [user, classId]);
 
+  // AIProcessing sends us back here with the finished preview job of a re-upload
+  const previewJobId = searchParams.get('job');
+  useEffect(() => {
+    if (user && previewJobId) {
+      loadPreviewJob(previewJobId);
+    }
+  }, [user, previewJobId]);
+
+  const loadPreviewJob = async (jobId: string) => {
+    const { data: job, error } = await supabase
+      .from('parse_jobs')
+      .select('mode, status, result')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    setSearchParams({}, { replace: true });
+
+    if (error || !job) {
+      toast.error('Could not load the parsed syllabus');
+      return;
+    }
+
+    const result = job.result as ParseJobResult | null;
+    if (job.mode === 'preview' && job.status === 'done' && result?.diff) {
+      setPendingReparse({ jobId, parsed: result.parsed, diff: result.diff });
+    }
+  };
+
   const loadClassData = async () => {
     if (!user || !classId) return;
     
@@ -79,25 +138,18 @@ const ClassDetail = () => {
       if (classError) throw classError;
       setClassData(classInfo);
 
-      // Load syllabus topics if AI parsed
+      // Topics and assignments load in their own cards
       if (classInfo.ai_parsed) {
-        const { data: topicsData } = await supabase
-          .from('syllabus_topics')
-          .select('*')
-          .eq('class_id', classId)
-          .order('order_index');
-        setTopics(topicsData || []);
-
-        const { data: assignmentsData } = await supabase
-          .from('syllabus_assignments')
-          .select('*')
+        const { data: categoriesData } = await supabase
+          .from('grading_categories')
+          .select('id, name, weight')
           .eq('class_id', classId)
-          .order('due_date');
-        setAssignments(assignmentsData || []);
+          .order('weight', { ascending: false });
+        setGradingCategories(categoriesData || []);
 
         const { data: blocksData } = await supabase
           .from('study_blocks')
-          .select('*')
+          .select('id, block_date, start_time, duration_minutes, kind, meeting_kind, location')
           .eq('class_id', classId)
           .eq('user_id', user.id)
           .order('block_date')
@@ -105,6 +157,15 @@ const ClassDetail = () => {
         setStudyBlocks(blocksData || []);
       }
 
+      const { data: meetingsData } = await supabase
+        .from('study_blocks')
+        .select('attendance')
+        .eq('class_id', classId)
+        .eq('user_id', user.id)
+        .eq('kind', 'class_meeting')
+        .not('attendance', 'is', null);
+      setMarkedMeetings(meetingsData || []);
+
       if (classInfo.progress_percentage === 100 && !hasShownCompletion) {
         setShowCompletion(true);
         setHasShownCompletion(true);
@@ -119,17 +180,39 @@ const ClassDetail = () => {
     }
   };
 
+  const handleDifficultyChange = async (difficulty: Difficulty) => {
+    if (!user || !classData) return;
+
+    setSavingDifficulty(true);
+    try {
+      const result = await setClassDifficulty(user.id, classData.id, difficulty);
+      toast.success(replanMessage(result));
+      handleSyllabusEdited();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change difficulty';
+      toast.error(errorMessage);
+    } finally {
+      setSavingDifficulty(false);
+    }
+  };
+
+  const handleSyllabusEdited = () => {
+    setSyllabusVersion((version) => version + 1);
+    loadClassData();
+  };
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !user || !classId) return;
 
-    if (file.type !== 'application/pdf') {
-      toast.error('Please upload a PDF file');
+    const fileType = syllabusFileType(file);
+    if (!fileType) {
+      toast.error('Please upload a PDF, Word document, web page, text file or photo of your syllabus');
       return;
     }
 
     if (file.size > 20 * 1024 * 1024) {
-      toast.error('PDF must be less than 20MB');
+      toast.error('Syllabus file must be less than 20MB');
       return;
     }
 
@@ -137,12 +220,12 @@ const ClassDetail = () => {
     setUploadProgress(0);
 
     try {
-      const fileName = `${user.id}/${classId}.pdf`;
+      const fileName = `${user.id}/${classId}.${fileType.extension}`;
       setUploadProgress(20);
 
       const { error: uploadError } = await supabase.storage
         .from('syllabi')
-        .upload(fileName, file, { upsert: true });
+        .upload(fileName, file, { upsert: true, contentType: fileType.contentType });
 
       if (uploadError) throw uploadError;
       setUploadProgress(40);
@@ -161,62 +244,17 @@ const ClassDetail = () => {
 
       toast.info('AI is parsing your syllabus... ⏳');
 
-      // Add timeout to prevent infinite loading
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Parsing timed out after 3 minutes')), 180000);
-      });
-
-      const functionPromise = supabase.functions.invoke('parse-syllabus', {
-        body: {
-          syllabusUrl: fileName,
-          classId,
-          userId: user.id,
-          weekdayHours: 2,
-          weekendHours: 3,
-        },
+      // Nothing is saved until the student has reviewed the draft (or the changes, on a re-parse)
+      const jobId = await invokeParseSyllabus({
+        syllabusUrl: fileName,
+        mode: 'preview',
       });
 
-      const result = await Promise.race([functionPromise, timeoutPromise]);
-      const { data: parseData, error: parseError } = result as { 
-        data: { 
-          success?: boolean; 
-          error?: string; 
-          topicsCount?: number; 
-          assignmentsCount?: number;
-          studyBlocksCount?: number;
-        } | null; 
-        error: { message?: string } | null 
-      };
-
       setUploadProgress(100);
 
-      if (parseError) {
-        console.error('Parse error:', parseError);
-        let errorMessage = parseError.message || 'Syllabus parsing failed. Please check the browser console for details.';
-        
-        // Provide helpful error messages for common issues
-        if (errorMessage.includes('Failed to send a request') || errorMessage.includes('fetch failed')) {
-          errorMessage = 'Edge function not deployed. Please deploy the parse-syllabus function to Supabase. See DEPLOY_EDGE_FUNCTIONS.md for instructions.';
-        } else if (errorMessage.includes('404') || errorMessage.includes('not found')) {
-          errorMessage = 'Edge function not found. Please deploy the parse-syllabus function to Supabase.';
-        }
-        
-        toast.error(errorMessage);
-      } else if (parseData?.error) {
-        // Edge function returned an error in the response
-        console.error('Parse error from function:', parseData.error);
-        toast.error(`Parsing failed: ${parseData.error}`);
-      } else if (parseData?.success) {
-        // Success - navigate to classes ready page
-        const studyBlocksCount = parseData.studyBlocksCount || 0;
-        const classMeetingsCount = parseData.studyBlocksCount || 0;
-        const assignmentBlocksCount = parseData.studyBlocksCount || 0;
-        
-        toast.success(`✨ Found ${parseData.topicsCount} topics, ${parseData.assignmentsCount} assignments. Created ${studyBlocksCount} calendar events (${classMeetingsCount} class meetings, ${assignmentBlocksCount} study sessions)`);
-        navigate(`/classes-ready?classId=${classId}`);
+      if (jobId) {
+        navigate(`/ai-processing/${classId}?job=${jobId}`);
         return;
-      } else {
-        toast.error('Parsing completed but no data was returned');
       }
 
       await loadClassData();
@@ -227,6 +265,39 @@ const ClassDetail = () => {
     } finally {
       setIsProcessing(false);
       setUploadProgress(0);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  // Enqueues a background parse job and returns its id, or null after reporting the failure
+  const invokeParseSyllabus = async (body: { syllabusUrl?: string; mode: ParseMode; parsed?: unknown }) => {
+    if (!user || !classId) return null;
+    try {
+      return await startParseJob({ ...body, classId });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Parsing could not be started';
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  const handleConfirmReparse = async () => {
+    if (!pendingReparse) return;
+
+    setIsApplying(true);
+    try {
+      const jobId = await invokeParseSyllabus({ mode: 'apply', parsed: pendingReparse.parsed });
+      if (jobId) {
+        setPendingReparse(null);
+        navigate(`/ai-processing/${classId}?job=${jobId}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to apply syllabus changes';
+      toast.error(errorMessage);
+    } finally {
+      setIsApplying(false);
     }
   };
 
@@ -235,17 +306,6 @@ const ClassDetail = () => {
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
-  const getTypeEmoji = (type: string) => {
-    const types: Record<string, string> = {
-      'reading': '📖',
-      'hw': '✏️',
-      'project': '🎯',
-      'exam': '📝',
-      'quiz': '❓'
-    };
-    return types[type] || '📄';
-  };
-
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
@@ -256,6 +316,8 @@ const ClassDetail = () => {
 
   if (!classData) return null;
 
+  const attendance = attendanceRate(markedMeetings);
+
   return (
     <>
       <ClassCompletionModal
@@ -273,6 +335,86 @@ const ClassDetail = () => {
         />
       )}
 
+      {user && (
+        <ManualSyllabusEditor
+          open={showManualEditor}
+          onOpenChange={setShowManualEditor}
+          classId={classData.id}
+          className={classData.name}
+          userId={user.id}
+        />
+      )}
+
+      <Dialog open={!!pendingReparse} onOpenChange={(open) => !open && !isApplying && setPendingReparse(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review syllabus changes</DialogTitle>
+            <DialogDescription>
+              Here's what the new syllabus changes for {classData.name}. Nothing is saved until you apply it.
+            </DialogDescription>
+          </DialogHeader>
+          {pendingReparse && (
+            <div className="space-y-5 text-sm">
+              {([
+                ['Topics', pendingReparse.diff.topics],
+                ['Assignments', pendingReparse.diff.assignments],
+              ] as const).map(([label, entityDiff]) => (
+                <div key={label} className="space-y-2">
+                  <h3 className="font-bold">
+                    {label}
+                    <span className="ml-2 font-normal text-muted-foreground">{entityDiff.unchanged} unchanged</span>
+                  </h3>
+                  {entityDiff.added.map((title) => (
+                    <div key={`added-${title}`} className="text-green-500">+ {title}</div>
+                  ))}
+                  {entityDiff.changed.map((item) => (
+                    <div key={`changed-${item.id}`} className="text-amber-500">
+                      ~ {item.title}
+                      <span className="text-muted-foreground"> ({item.changes.map((c) => c.field.replace('_', ' ')).join(', ')})</span>
+                    </div>
+                  ))}
+                  {entityDiff.removed.map((title) => (
+                    <div key={`removed-${title}`} className="text-red-500">− {title}</div>
+                  ))}
+                  {entityDiff.added.length + entityDiff.changed.length + entityDiff.removed.length === 0 && (
+                    <div className="text-muted-foreground">No changes</div>
+                  )}
+                </div>
+              ))}
+              <div className="space-y-1">
+                <h3 className="font-bold">Calendar</h3>
+                <p className="text-muted-foreground">
+                  {pendingReparse.diff.blocks.removed} upcoming blocks replaced by {pendingReparse.diff.blocks.added} new ones
+                  {pendingReparse.diff.blocks.preserved > 0 && (
+                    <> • {pendingReparse.diff.blocks.preserved} kept because they have sessions or pinky promises 🤙</>
+                  )}
+                </p>
+                {!!pendingReparse.diff.blocks.conflicts && (
+                  <p className="text-amber-500">
+                    ⚠️ {pendingReparse.diff.blocks.conflicts} class meetings overlap other things on your calendar
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingReparse(null)} disabled={isApplying}>
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/assignment-summary/${classId}?job=${pendingReparse?.jobId}`)}
+              disabled={isApplying}
+            >
+              Edit first
+            </Button>
+            <Button onClick={handleConfirmReparse} disabled={isApplying} className="bg-gradient-neon">
+              {isApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <div className="min-h-screen bg-background pb-24">
         {/* Header */}
         <div className="sticky top-0 z-10 bg-background/80 backdrop-blur-lg border-b border-border">
@@ -320,6 +462,15 @@ const ClassDetail = () => {
               )}
             </div>
             
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="text-muted-foreground">Difficulty</span>
+              <DifficultyPicker
+                value={resolveDifficulty(classData.difficulty)}
+                onChange={handleDifficultyChange}
+                disabled={savingDifficulty}
+              />
+            </div>
+
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <span className="text-muted-foreground">Course completion</span>
@@ -331,6 +482,14 @@ const ClassDetail = () => {
                   style={{ width: `${classData.progress_percentage}%` }}
                 />
               </div>
+              {attendance !== null && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <UserCheck className="w-4 h-4" />
+                  <span>
+                    {attendance}% attendance • {markedMeetings.filter((m) => m.attendance === 'missed').length} missed
+                  </span>
+                </div>
+              )}
               {classData.ai_parsed && classData.estimated_remaining_minutes > 0 && (
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Clock className="w-4 h-4" />
@@ -341,71 +500,26 @@ const ClassDetail = () => {
           </div>
 
           {/* Syllabus Topics */}
-          {classData.ai_parsed && topics.length > 0 && (
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <h2 className="font-black text-lg flex items-center gap-2">
-                  <Brain className="w-5 h-5 text-neon-lime" />
-                  Topics Covered
-                </h2>
-                <span className="text-sm text-muted-foreground">{topics.length} topics</span>
-              </div>
-              <div className="grid gap-3">
-                {topics.map((topic) => (
-                  <div key={topic.id} className="bg-card border border-border rounded-2xl p-4 hover:border-neon-lime/30 transition-all">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="flex-1">
-                        <h3 className="font-bold mb-1">{topic.title}</h3>
-                        {topic.description && (
-                          <p className="text-sm text-muted-foreground">{topic.description}</p>
-                        )}
-                      </div>
-                      <div className="flex items-center gap-1.5 bg-neon-lime/10 px-3 py-1.5 rounded-full border border-neon-lime/30">
-                        <Clock className="w-3 h-3 text-neon-lime" />
-                        <span className="text-xs font-bold text-neon-lime">{topic.estimated_minutes}m</span>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
+          {classData.ai_parsed && (
+            <SyllabusTopicsCard classId={classData.id} onChanged={loadClassData} />
           )}
 
-          {/* Assignments */}
-          {classData.ai_parsed && assignments.length > 0 && (
+          {/* Grading Breakdown */}
+          {classData.ai_parsed && gradingCategories.length > 0 && (
             <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <h2 className="font-black text-lg flex items-center gap-2">
-                  <Sparkles className="w-5 h-5 text-neon-cyan" />
-                  Assignments & Deadlines
-                </h2>
-                <span className="text-sm text-muted-foreground">{assignments.length} items</span>
-              </div>
-              <div className="grid gap-3">
-                {assignments.map((assignment) => (
-                  <div key={assignment.id} className="bg-card border border-border rounded-2xl p-4 hover:border-neon-cyan/30 transition-all">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="flex items-start gap-3 flex-1">
-                        <span className="text-2xl">{getTypeEmoji(assignment.type)}</span>
-                        <div>
-                          <h3 className="font-bold mb-1">{assignment.title}</h3>
-                          <div className="flex flex-wrap items-center gap-3 text-sm">
-                            {assignment.due_date && (
-                              <div className="flex items-center gap-1.5 text-muted-foreground">
-                                <Calendar className="w-3 h-3" />
-                                <span>Due {formatDate(assignment.due_date)}</span>
-                              </div>
-                            )}
-                            <div className="flex items-center gap-1.5 bg-neon-cyan/10 px-2 py-1 rounded-full border border-neon-cyan/30">
-                              <Clock className="w-3 h-3 text-neon-cyan" />
-                              <span className="text-xs font-bold text-neon-cyan">~{assignment.estimated_minutes}m</span>
-                            </div>
-                            <span className="text-xs px-2 py-1 bg-secondary/10 text-secondary rounded-full font-bold uppercase">
-                              {assignment.type}
-                            </span>
-                          </div>
-                        </div>
-                      </div>
+              <h2 className="font-black text-lg flex items-center gap-2">
+                <Scale className="w-5 h-5 text-neon-teal" />
+                Grading Breakdown
+              </h2>
+              <div className="bg-card border border-border rounded-2xl p-4 space-y-3">
+                {gradingCategories.map((category) => (
+                  <div key={category.id} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-bold">{category.name}</span>
+                      <span className="text-muted-foreground">{category.weight}%</span>
+                    </div>
+                    <div className="h-2 bg-muted rounded-full overflow-hidden">
+                      <div className="h-full bg-neon-teal" style={{ width: `${Math.min(category.weight, 100)}%` }} />
                     </div>
                   </div>
                 ))}
@@ -413,6 +527,26 @@ const ClassDetail = () => {
             </div>
           )}
 
+          {/* Assignments (readings have their own checklist below) */}
+          {classData.ai_parsed && user && (
+            <AssignmentsCard
+              classId={classData.id}
+              userId={user.id}
+              refreshKey={syllabusVersion}
+              onChanged={handleSyllabusEdited}
+            />
+          )}
+
+          {/* Reading List */}
+          {classData.ai_parsed && user && (
+            <ReadingListCard
+              classId={classData.id}
+              userId={user.id}
+              refreshKey={syllabusVersion}
+              onChanged={handleSyllabusEdited}
+            />
+          )}
+
           {/* Upcoming Study Blocks */}
           {classData.ai_parsed && studyBlocks.length > 0 && (
             <div className="space-y-4">
@@ -426,11 +560,11 @@ const ClassDetail = () => {
                     <div>
                       <div className="font-bold">{formatDate(block.block_date)}</div>
                       <div className="text-sm text-muted-foreground">
-                        {block.start_time || 'Flexible timing'} • {block.duration_minutes} minutes
+                        {blockLabel(block)} • {block.start_time || 'Flexible timing'} • {block.duration_minutes} minutes
                       </div>
                     </div>
-                    <div className="w-10 h-10 rounded-full bg-gradient-neon flex items-center justify-center">
-                      <Sparkles className="w-5 h-5 text-white" />
+                    <div className="w-10 h-10 rounded-full bg-gradient-neon flex items-center justify-center text-lg">
+                      {blockEmoji(block.kind)}
                     </div>
                   </div>
                 ))}
@@ -438,6 +572,65 @@ const ClassDetail = () => {
             </div>
           )}
 
+          {/* Holidays, breaks and cancelled meetings */}
+          {classData.ai_parsed && user && (
+            <TermExceptionsCard classId={classData.id} userId={user.id} onChanged={loadClassData} />
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SYLLABUS_ACCEPT}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          {/* Re-upload Syllabus */}
+          {classData.ai_parsed && (
+            <div className="bg-card border border-border rounded-2xl p-4 flex items-center justify-between gap-3">
+              <div>
+                <h3 className="font-bold">Syllabus changed?</h3>
+                <p className="text-sm text-muted-foreground">
+                  Upload the new version and review what changes before anything is replaced
+                </p>
+              </div>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isProcessing}
+                variant="outline"
+                className="gap-2 shrink-0"
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>{uploadProgress}%</span>
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="h-4 w-4" />
+                    <span>Re-upload</span>
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
+
+          {/* Edit by hand */}
+          {classData.ai_parsed && (
+            <div className="bg-card border border-border rounded-2xl p-4 flex items-center justify-between gap-3">
+              <div>
+                <h3 className="font-bold">Class times or assignments changed?</h3>
+                <p className="text-sm text-muted-foreground">
+                  Edit the schedule, topics and assignments yourself
+                </p>
+              </div>
+              <Button onClick={() => setShowManualEditor(true)} variant="outline" className="gap-2 shrink-0">
+                <PencilLine className="h-4 w-4" />
+                <span>Edit</span>
+              </Button>
+            </div>
+          )}
+
           {/* Upload Syllabus */}
           {!classData.ai_parsed && (
             <div className="space-y-4 bg-gradient-to-br from-neon-cyan/5 to-neon-lime/5 border-2 border-neon-cyan/20 rounded-3xl p-6">
@@ -447,16 +640,9 @@ const ClassDetail = () => {
                 </div>
                 <h2 className="font-black text-xl">🧠 AI-Powered Study Plan</h2>
                 <p className="text-muted-foreground">
-                  Upload your syllabus and let Gemini AI create a personalized study plan with topics, assignments, and time estimates
+                  Upload your syllabus (PDF, Word, web page, text or a photo) and let Gemini AI create a personalized study plan with topics, assignments, and time estimates
                 </p>
               </div>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".pdf"
-                onChange={handleFileSelect}
-                className="hidden"
-              />
               <Button
                 onClick={() => fileInputRef.current?.click()}
                 disabled={isProcessing}
@@ -470,10 +656,19 @@ const ClassDetail = () => {
                 ) : (
                   <div className="flex items-center gap-2">
                     <Upload className="h-5 w-5" />
-                    <span>Upload Syllabus PDF</span>
+                    <span>Upload Syllabus</span>
                   </div>
                 )}
               </Button>
+              <Button
+                onClick={() => setShowManualEditor(true)}
+                disabled={isProcessing}
+                variant="outline"
+                className="w-full gap-2"
+              >
+                <PencilLine className="h-4 w-4" />
+                No syllabus? Enter your schedule and assignments
+              </Button>
               <p className="text-xs text-center text-muted-foreground">
                 Powered by Google Gemini Vision AI
               </p>
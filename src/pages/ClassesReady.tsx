@@ -18,6 +18,7 @@ import {
 import { toast } from 'sonner';
 import Confetti from 'react-confetti';
 import { useWindowSize } from '@/hooks/use-window-size';
+import { BLOCK_KINDS, BlockKind, blockEmoji } from '@/lib/blockKinds';
 
 interface ClassData {
   id: string;
@@ -41,10 +42,17 @@ interface AssignmentData {
 
 interface StudyBlockStats {
   total: number;
-  classMeetings: number;
-  studySessions: number;
+  byKind: Partial<Record<BlockKind, number>>;
 }
 
+const KIND_COUNT_LABELS: Record<BlockKind, string> = {
+  class_meeting: 'class meetings',
+  study: 'study sessions',
+  review: 'review sessions',
+  exam: 'exams',
+  custom: 'events',
+};
+
 const ClassesReady = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -55,7 +63,7 @@ const ClassesReady = () => {
   const [classData, setClassData] = useState<ClassData | null>(null);
   const [topics, setTopics] = useState<TopicData[]>([]);
   const [assignments, setAssignments] = useState<AssignmentData[]>([]);
-  const [blockStats, setBlockStats] = useState<StudyBlockStats>({ total: 0, classMeetings: 0, studySessions: 0 });
+  const [blockStats, setBlockStats] = useState<StudyBlockStats>({ total: 0, byKind: {} });
   const [loading, setLoading] = useState(true);
   const [showConfetti, setShowConfetti] = useState(false);
   const [progressStep, setProgressStep] = useState(0);
@@ -122,17 +130,17 @@ const ClassesReady = () => {
       // Load study blocks stats
       const { data: blocksData } = await supabase
         .from('study_blocks')
-        .select('id, start_time, duration_minutes')
+        .select('id, kind')
         .eq('class_id', classId);
 
       const blocks = blocksData || [];
-      const classMeetings = blocks.filter(b => b.start_time && b.duration_minutes >= 45).length;
-      
-      setBlockStats({
-        total: blocks.length,
-        classMeetings: classMeetings,
-        studySessions: blocks.length - classMeetings
-      });
+      const byKind: Partial<Record<BlockKind, number>> = {};
+      for (const block of blocks) {
+        const kind = block.kind as BlockKind;
+        byKind[kind] = (byKind[kind] || 0) + 1;
+      }
+
+      setBlockStats({ total: blocks.length, byKind });
 
     } catch (error: any) {
       toast.error('Failed to load class summary');
@@ -335,8 +343,11 @@ const ClassesReady = () => {
             <div className="flex items-center justify-between">
               <div className="text-3xl font-black text-white">{blockStats.total}</div>
               <div className="text-sm text-[#888888] space-y-1">
-                <div>🎓 {blockStats.classMeetings} class meetings</div>
-                <div>📚 {blockStats.studySessions} study sessions</div>
+                {BLOCK_KINDS.filter((kind) => blockStats.byKind[kind]).map((kind) => (
+                  <div key={kind}>
+                    {blockEmoji(kind)} {blockStats.byKind[kind]} {KIND_COUNT_LABELS[kind]}
+                  </div>
+                ))}
               </div>
             </div>
           </div>
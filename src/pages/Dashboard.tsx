@@ -5,6 +5,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Flame, MessageCircle, BookOpen, Clock, Calendar as CalendarIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useStudyReminders } from '@/hooks/useStudyReminders';
+import { userNow } from '@/lib/timeZone';
 import { formatDistanceToNow } from 'date-fns';
 
 interface FeedPost {
@@ -112,14 +113,16 @@ const Dashboard = () => {
     if (!user) return;
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
+      const { date: today } = await userNow(user.id);
+
       // Select only needed columns
       const { data: blocksData, error: blocksError } = await supabase
         .from('study_blocks')
         .select('id, class_id, assignment_id, duration_minutes, start_time, block_date')
         .eq('user_id', user.id)
         .eq('block_date', today)
+        // Class meetings and exams aren't something to start a study session for
+        .in('kind', ['study', 'review'])
         .order('start_time', { ascending: true })
         .limit(1);
 
@@ -143,11 +146,10 @@ const Dashboard = () => {
           // Get assignment info if exists
           block.assignment_id
             ? supabase
-                .from('assignments')
+                .from('syllabus_assignments')
                 .select('title')
                 .eq('id', block.assignment_id)
-                .eq('user_id', user.id)
-                .single()
+                .maybeSingle()
             : Promise.resolve({ data: null, error: null })
         ]);
 
@@ -2,10 +2,13 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Sparkles, BookOpen, Clock, Calendar, Target, MessageCircle } from 'lucide-react';
+import { ArrowLeft, Sparkles, BookOpen, Clock, Calendar, Target, MessageCircle, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
+import { blockEmoji, blockLabel } from '@/lib/blockKinds';
+import { replanStudyBlocks } from '@/lib/studyPlanner';
+import { userNow } from '@/lib/timeZone';
 
 interface Class {
   id: string;
@@ -38,6 +41,9 @@ interface StudyBlock {
   duration_minutes: number;
   class_id: string;
   assignment_id?: string;
+  kind: string;
+  meeting_kind?: string | null;
+  location?: string | null;
 }
 
 const GeminiStudyPlan = () => {
@@ -52,6 +58,7 @@ const GeminiStudyPlan = () => {
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [studyBlocks, setStudyBlocks] = useState<StudyBlock[]>([]);
   const [loading, setLoading] = useState(true);
+  const [replanning, setReplanning] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -99,6 +106,8 @@ const GeminiStudyPlan = () => {
   };
 
   const loadClassData = async (classId: string) => {
+    if (!user) return;
+
     try {
       // Load topics
       const { data: topicsData } = await supabase
@@ -119,11 +128,12 @@ const GeminiStudyPlan = () => {
       setAssignments(assignmentsData || []);
 
       // Load study blocks
+      const { date: today } = await userNow(user.id);
       const { data: blocksData } = await supabase
         .from('study_blocks')
         .select('*')
         .eq('class_id', classId)
-        .gte('block_date', new Date().toISOString().split('T')[0])
+        .gte('block_date', today)
         .order('block_date')
         .limit(10);
 
@@ -133,6 +143,31 @@ const GeminiStudyPlan = () => {
     }
   };
 
+  const handleReplan = async () => {
+    if (!user || !selectedClassId) return;
+
+    setReplanning(true);
+    try {
+      const result = await replanStudyBlocks(user.id, selectedClassId);
+      toast({
+        title: 'Study plan rebuilt',
+        description: result.unscheduledMinutes > 0
+          ? `${result.inserted} sessions scheduled. ${formatTime(result.unscheduledMinutes)} didn't fit before the deadlines.`
+          : `${result.inserted} sessions scheduled around the rest of your week`,
+      });
+      await loadClassData(selectedClassId);
+    } catch (error) {
+      console.error('Error replanning:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to rebuild study plan',
+        variant: 'destructive',
+      });
+    } finally {
+      setReplanning(false);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'No due date';
     const date = new Date(dateString);
@@ -323,12 +358,26 @@ const GeminiStudyPlan = () => {
         )}
 
         {/* Upcoming Study Blocks */}
-        {studyBlocks.length > 0 && (
+        {(studyBlocks.length > 0 || assignments.length > 0) && (
           <div className="space-y-3">
-            <h2 className="text-lg font-bold text-foreground flex items-center gap-2 px-2">
-              <Calendar className="w-5 h-5 text-accent" />
-              Upcoming Study Sessions
-            </h2>
+            <div className="flex items-center justify-between px-2">
+              <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+                <Calendar className="w-5 h-5 text-accent" />
+                Upcoming Study Sessions
+              </h2>
+              {assignments.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleReplan}
+                  disabled={replanning}
+                  className="rounded-full"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-1 ${replanning ? 'animate-spin' : ''}`} />
+                  Rebuild
+                </Button>
+              )}
+            </div>
             
             <div className="space-y-2">
               {studyBlocks.map((block) => (
@@ -336,15 +385,15 @@ const GeminiStudyPlan = () => {
                   key={block.id}
                   className="bg-card rounded-2xl p-4 border border-border flex items-center gap-4"
                 >
-                  <div className="w-12 h-12 rounded-xl bg-gradient-accent flex items-center justify-center flex-shrink-0">
-                    <Calendar className="w-6 h-6 text-white" />
+                  <div className="w-12 h-12 rounded-xl bg-gradient-accent flex items-center justify-center flex-shrink-0 text-xl">
+                    {blockEmoji(block.kind)}
                   </div>
                   <div className="flex-1">
                     <div className="font-semibold text-foreground">
                       {formatDate(block.block_date)}
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      {block.start_time || 'Flexible time'} · {formatTime(block.duration_minutes)}
+                      {blockLabel(block)} · {block.start_time || 'Flexible time'} · {formatTime(block.duration_minutes)}
                     </div>
                   </div>
                 </div>
@@ -79,11 +79,13 @@ const SessionSetup = () => {
 
   const loadAssignments = async (classId: string) => {
     try {
+      // Finished readings are left out; the soonest due comes first
       const { data, error } = await supabase
-        .from('assignments')
+        .from('syllabus_assignments')
         .select('id, title, estimated_minutes')
         .eq('class_id', classId)
-        .order('due_date', { ascending: true });
+        .is('completed_at', null)
+        .order('due_date', { ascending: true, nullsFirst: false });
 
       if (error) throw error;
       
@@ -91,6 +93,8 @@ const SessionSetup = () => {
       if (data && data.length > 0) {
         setSelectedAssignment(data[0].id);
         setDuration(data[0].estimated_minutes || 45);
+      } else {
+        setSelectedAssignment('');
       }
     } catch (error: any) {
       console.error('Error loading assignments:', error);
@@ -5,8 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Calendar, Clock, BookOpen, Camera, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { format, isToday, isTomorrow, parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
+import { AttendanceButtons } from '@/components/AttendanceButtons';
+import { ConflictNotice } from '@/components/ConflictNotice';
+import { conflictsByBlock } from '@/lib/conflicts';
+import { blockEmoji, blockLabel, isStudyKind } from '@/lib/blockKinds';
+import { userNow } from '@/lib/timeZone';
+import { addDays } from '@shared/dates';
 
 interface StudyBlock {
   id: string;
@@ -15,6 +21,10 @@ interface StudyBlock {
   duration_minutes: number;
   class_id: string;
   assignment_id?: string;
+  kind: string;
+  meeting_kind?: string | null;
+  location?: string | null;
+  attendance?: string | null;
   classes: {
     name: string;
   };
@@ -24,6 +34,8 @@ const TodayStudy = () => {
   const [todayBlocks, setTodayBlocks] = useState<StudyBlock[]>([]);
   const [upcomingBlocks, setUpcomingBlocks] = useState<StudyBlock[]>([]);
   const [loading, setLoading] = useState(true);
+  // Today's date in the user's timezone, not the browser's
+  const [today, setToday] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
@@ -43,8 +55,8 @@ const TodayStudy = () => {
     try {
       if (!user) return;
 
-      const today = format(new Date(), 'yyyy-MM-dd');
-      const tomorrow = format(new Date(Date.now() + 86400000), 'yyyy-MM-dd');
+      const { date: today } = await userNow(user.id);
+      setToday(today);
 
       const { data, error } = await supabase
         .from('study_blocks')
@@ -94,12 +106,16 @@ const TodayStudy = () => {
   };
 
   const formatDate = (dateStr: string) => {
-    const date = parseISO(dateStr);
-    if (isToday(date)) return 'Today';
-    if (isTomorrow(date)) return 'Tomorrow';
-    return format(date, 'EEE, MMM d');
+    if (dateStr === today) return 'Today';
+    if (today && dateStr === addDays(today, 1)) return 'Tomorrow';
+    return format(parseISO(dateStr), 'EEE, MMM d');
   };
 
+  // Class meetings, exams and events are on the schedule but aren't study time
+  const todayStudyBlocks = todayBlocks.filter(b => isStudyKind(b.kind));
+  // Today's blocks that overlap each other
+  const todayConflicts = conflictsByBlock(todayBlocks);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -131,6 +147,9 @@ const TodayStudy = () => {
                 <div className="flex items-start justify-between">
                   <div className="space-y-1 flex-1">
                     <h3 className="font-bold text-lg text-foreground">{block.classes.name}</h3>
+                    <p className="text-sm font-medium text-primary">
+                      {blockEmoji(block.kind)} {blockLabel(block)}
+                    </p>
                     <div className="flex items-center gap-3 text-sm text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <Clock className="h-4 w-4" />
@@ -139,15 +158,32 @@ const TodayStudy = () => {
                       <span>{block.duration_minutes} min</span>
                     </div>
                   </div>
-                  <Button
-                    onClick={() => handleStartSession(block)}
-                    className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
-                    size="lg"
-                  >
-                    <Camera className="h-4 w-4 mr-2" />
-                    Study Now
-                  </Button>
+                  {isStudyKind(block.kind) ? (
+                    <Button
+                      onClick={() => handleStartSession(block)}
+                      className="bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity"
+                      size="lg"
+                    >
+                      <Camera className="h-4 w-4 mr-2" />
+                      Study Now
+                    </Button>
+                  ) : (
+                    <Button onClick={() => navigate('/calendar')} variant="outline" size="sm">
+                      View Calendar
+                    </Button>
+                  )}
                 </div>
+                {todayConflicts.has(block.id) && user && (
+                  <ConflictNotice
+                    blockId={block.id}
+                    userId={user.id}
+                    overlaps={(todayConflicts.get(block.id) || []).map((b) => `${b.classes.name} · ${blockLabel(b)}`)}
+                    onResolved={loadStudyBlocks}
+                  />
+                )}
+                {block.kind === 'class_meeting' && user && (
+                  <AttendanceButtons meeting={block} userId={user.id} onChanged={loadStudyBlocks} />
+                )}
               </Card>
             ))}
           </div>
@@ -176,6 +212,9 @@ const TodayStudy = () => {
                 <div className="flex items-center justify-between">
                   <div className="space-y-1">
                     <h3 className="font-semibold text-foreground">{block.classes.name}</h3>
+                    <p className="text-sm font-medium text-primary">
+                      {blockEmoji(block.kind)} {blockLabel(block)}
+                    </p>
                     <div className="flex items-center gap-3 text-sm text-muted-foreground">
                       <span>{formatDate(block.block_date)}</span>
                       <span>•</span>
@@ -202,13 +241,13 @@ const TodayStudy = () => {
           <div className="grid grid-cols-2 gap-4 text-center">
             <div className="space-y-1">
               <div className="text-3xl font-bold text-foreground">
-                {todayBlocks.reduce((sum, b) => sum + b.duration_minutes, 0)}
+                {todayStudyBlocks.reduce((sum, b) => sum + b.duration_minutes, 0)}
               </div>
               <div className="text-sm text-muted-foreground">Minutes Today</div>
             </div>
             <div className="space-y-1">
               <div className="text-3xl font-bold text-foreground">
-                {todayBlocks.length}
+                {todayStudyBlocks.length}
               </div>
               <div className="text-sm text-muted-foreground">Sessions Today</div>
             </div>
@@ -0,0 +1,84 @@
+// Canned replies for the mock AI provider (AI_PROVIDER=mock), keyed by the feature that
+// asks. Replies depend only on the request and today's date, so runs are repeatable.
+
+import type { ChatMessage } from './ai.ts';
+import { addDays } from './dates.ts';
+
+export type MockFixture = string | ((messages: ChatMessage[]) => string);
+
+const lastUserText = (messages: ChatMessage[]) => {
+  const last = [...messages].reverse().find((m) => m.role === 'user');
+  if (!last) return '';
+  if (typeof last.content === 'string') return last.content;
+  return last.content.map((part) => (part.type === 'text' ? part.text : '')).join(' ');
+};
+
+// A 15-week term that started on the Monday of the current week, so the study plan
+// always has dates ahead of it
+function mockSyllabus(): string {
+  const today = new Date().toISOString().split('T')[0];
+  const monday = addDays(today, -((new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7));
+  const week = (n: number, day = 0) => addDays(monday, (n - 1) * 7 + day);
+
+  return JSON.stringify({
+    schedule: {
+      startDate: monday,
+      endDate: week(15, 4),
+      meetings: [
+        { kind: 'lecture', days: ['Monday', 'Wednesday'], startTime: '10:00', endTime: '11:15', location: 'Hall 101' },
+        { kind: 'lab', days: ['Thursday'], startTime: '14:00', endTime: '15:50', location: 'Lab 2' },
+      ],
+    },
+    topics: [
+      { title: 'Week 1: Introduction', description: 'Course overview', orderIndex: 1, estimatedMinutes: 60 },
+      { title: 'Week 2: Foundations', description: 'Core definitions', orderIndex: 2, estimatedMinutes: 90 },
+      { title: 'Week 3: Applications', description: 'Worked examples', orderIndex: 3, estimatedMinutes: 90 },
+    ],
+    assignments: [
+      {
+        title: 'Read Chapter 1',
+        dueDate: week(1, 2),
+        type: 'reading',
+        textbook: 'Course Textbook',
+        chapter: '1',
+        pageStart: 1,
+        pageEnd: 24,
+        category: null,
+        weight: null,
+      },
+      { title: 'Problem Set 1', dueDate: week(2, 4), type: 'hw', estimatedMinutes: 120, category: 'Homework', weight: null },
+      { title: 'Problem Set 2', dueDate: week(4, 4), type: 'hw', estimatedMinutes: 120, category: 'Homework', weight: null },
+      {
+        title: 'Midterm Exam',
+        dueDate: week(8, 2),
+        type: 'exam',
+        estimatedMinutes: 240,
+        category: 'Exams',
+        weight: 25,
+        confidence: { dueDate: 0.5 },
+      },
+      { title: 'Final Project', dueDate: week(14, 4), type: 'project', estimatedMinutes: 480, category: 'Project', weight: 30 },
+    ],
+    gradingCategories: [
+      { name: 'Homework', weight: 20 },
+      { name: 'Exams', weight: 50 },
+      { name: 'Project', weight: 30 },
+    ],
+    exceptions: [{ name: 'Spring Break', kind: 'break', startDate: week(9), endDate: week(9, 4) }],
+  });
+}
+
+// Every generated image: a plain warm gradient
+export const MOCK_IMAGE_URL = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><defs><linearGradient id="g" x2="1" y2="1">' +
+    '<stop offset="0" stop-color="#FAD961"/><stop offset="1" stop-color="#F76B1C"/></linearGradient></defs>' +
+    '<rect width="512" height="512" fill="url(#g)"/></svg>'
+)}`;
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+  'parse-syllabus': mockSyllabus,
+  'chat-tutor': (messages) =>
+    `(Mock tutor) You asked: "${lastUserText(messages).slice(0, 200)}". Try explaining it back in your own words, then quiz yourself on one example. 📚`,
+  'class-tutor': (messages) =>
+    `(Mock class tutor) About "${lastUserText(messages).slice(0, 200)}": review the matching topic in your syllabus and start with the next assignment due.`,
+};
@@ -0,0 +1,200 @@
+// Chat model access for the edge functions. The provider is picked with the AI_PROVIDER
+// environment variable:
+//   lovable  (default) Lovable AI gateway, authenticated with LOVABLE_API_KEY
+//   openai   any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM, OpenAI itself) at
+//            AI_BASE_URL, with an optional AI_API_KEY
+//   mock     canned fixture replies, so the app runs and is testable offline
+// AI_MODEL overrides the model name for the lovable and openai providers, and
+// AI_IMAGE_MODEL the model that generates images.
+
+import { MOCK_FIXTURES, MOCK_IMAGE_URL, MockFixture } from './ai-fixtures.ts';
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  // Data URLs of images or PDFs; only vision-capable models accept them
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface ChatOptions {
+  // Which function is asking; the mock provider picks its fixture by this name
+  feature: string;
+  // Ask for a bare JSON object instead of prose
+  json?: boolean;
+}
+
+export interface AIProvider {
+  name: string;
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  // Server-sent events in the OpenAI chat completion chunk format, ending with "data: [DONE]"
+  chatStream(messages: ChatMessage[], options: ChatOptions): Promise<ReadableStream<Uint8Array>>;
+  // An image for the prompt, as a URL or data URL
+  generateImage(prompt: string, options: ChatOptions): Promise<string>;
+}
+
+// A failed model call. `status` is the HTTP status to hand back to the client.
+export class AIProviderError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  // Defaults to `model`
+  imageModel?: string;
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  // `extra` is merged into the request body, e.g. a model override or output modalities
+  const request = async (messages: ChatMessage[], options: ChatOptions, stream: boolean, extra: Record<string, unknown> = {}) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+          ...(stream ? { stream: true } : {}),
+          ...extra,
+        }),
+      });
+    } catch (error) {
+      console.error(`${config.name} request failed:`, error);
+      throw new AIProviderError(`Could not reach the AI provider (${config.name})`, 502);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('AI gateway error:', response.status, errorText);
+      if (response.status === 429) {
+        throw new AIProviderError('Rate limit exceeded. Please try again later.', 429);
+      }
+      if (response.status === 402) {
+        throw new AIProviderError('Payment required. Please add credits to your workspace.', 402);
+      }
+      throw new AIProviderError(`AI gateway error: ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    name: config.name,
+    async chat(messages, options) {
+      const response = await request(messages, options, false);
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new AIProviderError('AI provider returned an empty response');
+      }
+      return content;
+    },
+    async chatStream(messages, options) {
+      const response = await request(messages, options, true);
+      if (!response.body) {
+        throw new AIProviderError('AI provider returned an empty stream');
+      }
+      return response.body;
+    },
+    // Image models behind an OpenAI-compatible gateway reply with the images attached to
+    // the assistant message
+    async generateImage(prompt, options) {
+      const response = await request([{ role: 'user', content: prompt }], options, false, {
+        model: config.imageModel || config.model,
+        modalities: ['image', 'text'],
+      });
+      const data = await response.json();
+      const url = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+      if (typeof url !== 'string') {
+        throw new AIProviderError('AI provider returned no image');
+      }
+      return url;
+    },
+  };
+}
+
+// Streams a complete reply as OpenAI-style chunks, a few words at a time
+export function textToEventStream(text: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pieces = text.match(/\S+\s*|\s+/g) || [];
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < pieces.length; i += 3) {
+        const chunk = { choices: [{ delta: { content: pieces.slice(i, i + 3).join('') } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+}
+
+export function createMockProvider(fixtures: Record<string, MockFixture> = MOCK_FIXTURES): AIProvider {
+  const reply = (messages: ChatMessage[], options: ChatOptions) => {
+    const fixture = fixtures[options.feature];
+    if (!fixture) {
+      throw new AIProviderError(`No mock fixture for "${options.feature}"`);
+    }
+    return typeof fixture === 'string' ? fixture : fixture(messages);
+  };
+
+  return {
+    name: 'mock',
+    chat: async (messages, options) => reply(messages, options),
+    chatStream: async (messages, options) => textToEventStream(reply(messages, options)),
+    generateImage: async () => MOCK_IMAGE_URL,
+  };
+}
+
+export function getAIProvider(): AIProvider {
+  const provider = (Deno.env.get('AI_PROVIDER') || 'lovable').toLowerCase();
+  const model = Deno.env.get('AI_MODEL');
+
+  switch (provider) {
+    case 'lovable': {
+      const apiKey = Deno.env.get('LOVABLE_API_KEY');
+      if (!apiKey) {
+        throw new Error('LOVABLE_API_KEY environment variable is not set in edge function');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'lovable',
+        baseUrl: 'https://ai.gateway.lovable.dev/v1',
+        apiKey,
+        model: model || 'google/gemini-2.5-flash',
+        imageModel: Deno.env.get('AI_IMAGE_MODEL') || 'google/gemini-2.5-flash-image-preview',
+      });
+    }
+    case 'openai': {
+      const baseUrl = Deno.env.get('AI_BASE_URL');
+      if (!baseUrl) {
+        throw new Error('AI_BASE_URL environment variable is not set in edge function');
+      }
+      if (!model) {
+        throw new Error('AI_MODEL environment variable is not set in edge function');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl,
+        apiKey: Deno.env.get('AI_API_KEY'),
+        model,
+        imageModel: Deno.env.get('AI_IMAGE_MODEL'),
+      });
+    }
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}". Use "lovable", "openai" or "mock".`);
+  }
+}
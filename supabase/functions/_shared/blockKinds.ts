@@ -0,0 +1,27 @@
+// What a study_blocks row stands for. Shared by parse-syllabus and the web app so
+// generated blocks and blocks the student adds are labelled the same way.
+//
+//   class_meeting  a lecture, lab, recitation or office hours from the class schedule
+//   study          planned work on an assignment
+//   review         planned preparation for an exam
+//   exam           the exam itself
+//   custom         anything else on the calendar, e.g. an imported event
+
+export type BlockKind = 'class_meeting' | 'study' | 'review' | 'exam' | 'custom';
+
+export const BLOCK_KINDS: BlockKind[] = ['class_meeting', 'study', 'review', 'exam', 'custom'];
+
+export const BLOCK_KIND_LABELS: Record<BlockKind, string> = {
+  class_meeting: 'Class',
+  study: 'Study session',
+  review: 'Review session',
+  exam: 'Exam',
+  custom: 'Event',
+};
+
+// Planned sessions for an exam are review; for everything else, study
+export const plannedBlockKind = (assignmentType: string | null | undefined): BlockKind =>
+  assignmentType === 'exam' ? 'review' : 'study';
+
+// Blocks the student studies in, so they can start a session for them
+export const isStudyKind = (kind: string | null | undefined) => kind === 'study' || kind === 'review';
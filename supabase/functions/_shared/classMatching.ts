@@ -0,0 +1,110 @@
+// Matches the course an imported calendar event names ("CS-101-01 Intro to CS [FA25]")
+// to one of the student's classes, so one course doesn't turn into several classes
+// because an LMS spells it a little differently from the syllabus.
+
+export interface MatchableClass {
+  id: string;
+  name: string;
+  title?: string | null;
+}
+
+// exact: same name once normalized; code: same course code; fuzzy: similar name
+export type MatchKind = 'exact' | 'code' | 'fuzzy';
+
+export interface ClassMatch {
+  classId: string;
+  match: MatchKind;
+}
+
+// Names at least this similar (Dice coefficient of letter pairs) count as the same class
+const FUZZY_THRESHOLD = 0.75;
+
+// Term tags LMSs add to course names: "FA25", "Fall 2025", "2025FA", "SP-24"
+const TERM_PATTERN = /\b(?:(?:fall|spring|summer|winter|fa|sp|su|wi)[\s-]*'?\d{2}(?:\d{2})?|\d{4}[\s-]*(?:fall|spring|summer|winter|fa|sp|su|wi))\b/gi;
+// Section numbers: "Sec 01", "Section 2", "(001)"
+const SECTION_PATTERN = /\b(?:sec(?:tion)?\.?\s*\w+)\b|\(\s*\d{1,3}\s*\)/gi;
+// Course codes: "CS 101", "CS-101", "BIO101L", "MATH 2410"
+const COURSE_CODE_PATTERN = /\b([a-z]{2,5})[\s_-]*(\d{2,4}[a-z]?)\b/i;
+
+const stripNoise = (text: string) => text.replace(TERM_PATTERN, ' ').replace(SECTION_PATTERN, ' ');
+
+// Lower case, without term tags, section numbers and punctuation
+export const normalizeClassLabel = (text: string) =>
+  stripNoise(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// "cs-101-01 Intro" -> "CS101"; null when the text has no course code
+export function courseCode(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const match = stripNoise(text).match(COURSE_CODE_PATTERN);
+  return match ? `${match[1]}${match[2]}`.toUpperCase() : null;
+}
+
+// Canvas names the course in brackets after the title: "Homework 3 [CS 101 - Intro]".
+// Otherwise "Lecture: BIO 101 - Room 4" -> "BIO 101". Only a spaced " - " ends the
+// course, so codes like "CS-101" stay whole.
+export function importedClassLabel(summary: string) {
+  const bracketed = summary.match(/\[([^\]]+)\]\s*$/)?.[1]?.trim();
+  if (bracketed) return bracketed;
+
+  return summary
+    .replace(/^(Assignment|Homework|Quiz|Exam|Lab|Lecture|Discussion|Reading):\s*/i, '')
+    .replace(/\s+-\s+.*$/, '')
+    .trim() || 'Imported Class';
+}
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.slice(i, i + 2));
+  return pairs;
+};
+
+function similarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // "intro to psychology" inside "psych intro to psychology lecture"
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  if (shorter.length >= 4 && longer.includes(shorter)) return 0.9;
+
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const remaining = [...pairsB];
+  let shared = 0;
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+const classNames = (c: MatchableClass) => [c.name, c.title].filter((n): n is string => !!n);
+
+// The class an event label most likely means, or null when none is close enough.
+// A course code only decides when exactly one class has it.
+export function matchClass(label: string, classes: MatchableClass[]): ClassMatch | null {
+  const key = normalizeClassLabel(label);
+
+  const exact = classes.find((c) => classNames(c).some((n) => normalizeClassLabel(n) === key));
+  if (exact) return { classId: exact.id, match: 'exact' };
+
+  const code = courseCode(label);
+  if (code) {
+    const sameCode = classes.filter((c) => classNames(c).some((n) => courseCode(n) === code));
+    if (sameCode.length === 1) return { classId: sameCode[0].id, match: 'code' };
+  }
+
+  let best: { classId: string; score: number } | null = null;
+  for (const c of classes) {
+    const score = Math.max(...classNames(c).map((n) => similarity(key, normalizeClassLabel(n))));
+    if (!best || score > best.score) best = { classId: c.id, score };
+  }
+  return best && best.score >= FUZZY_THRESHOLD ? { classId: best.classId, match: 'fuzzy' } : null;
+}
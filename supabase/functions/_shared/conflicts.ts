@@ -0,0 +1,120 @@
+// Overlap checks between blocks on a student's calendar, shared by the scheduler, the
+// syllabus parser, the calendar importer and rescheduling in the web app. Only blocks
+// with a start time take up time; cancelled class meetings take up none.
+
+import { BlockKind } from './blockKinds.ts';
+import { addDays, fromMinutes, toMinutes } from './dates.ts';
+
+export interface TimedBlock {
+  id: string;
+  blockDate: string;
+  startTime: string | null;
+  durationMinutes: number;
+  kind: string;
+  attendance?: string | null;
+}
+
+// Which block of a clashing pair stays put: the higher one. Class meetings and exams
+// happen when they happen; study sessions are the easiest to move.
+export const CONFLICT_PRIORITY: Record<BlockKind, number> = {
+  class_meeting: 4,
+  exam: 3,
+  custom: 2,
+  review: 1,
+  study: 0,
+};
+
+const FIXED_KINDS: string[] = ['class_meeting', 'exam'];
+
+const SLOT_STEP_MINUTES = 15;
+
+// Half-open [start, end) minute ranges; `gap` demands that much free time in between
+export const intervalsOverlap = ([aStart, aEnd]: [number, number], [bStart, bEnd]: [number, number], gap = 0) =>
+  aStart < bEnd + gap && aEnd + gap > bStart;
+
+const occupiesTime = (block: TimedBlock) => !!block.startTime && block.attendance !== 'cancelled';
+
+const interval = (block: TimedBlock): [number, number] => {
+  const start = toMinutes(block.startTime as string);
+  return [start, start + block.durationMinutes];
+};
+
+export const blocksOverlap = (a: TimedBlock, b: TimedBlock) =>
+  a.id !== b.id &&
+  a.blockDate === b.blockDate &&
+  occupiesTime(a) &&
+  occupiesTime(b) &&
+  intervalsOverlap(interval(a), interval(b));
+
+// Every block that overlaps another, with the blocks it overlaps
+export function findConflicts<T extends TimedBlock>(blocks: T[]): Map<string, T[]> {
+  const byDate = new Map<string, T[]>();
+  for (const block of blocks) {
+    if (!occupiesTime(block)) continue;
+    byDate.set(block.blockDate, [...(byDate.get(block.blockDate) || []), block]);
+  }
+
+  const conflicts = new Map<string, T[]>();
+  for (const dayBlocks of byDate.values()) {
+    for (let i = 0; i < dayBlocks.length; i++) {
+      for (let j = i + 1; j < dayBlocks.length; j++) {
+        const [a, b] = [dayBlocks[i], dayBlocks[j]];
+        if (!blocksOverlap(a, b)) continue;
+        conflicts.set(a.id, [...(conflicts.get(a.id) || []), b]);
+        conflicts.set(b.id, [...(conflicts.get(b.id) || []), a]);
+      }
+    }
+  }
+  return conflicts;
+}
+
+const priority = (block: TimedBlock) => CONFLICT_PRIORITY[block.kind as BlockKind] ?? CONFLICT_PRIORITY.custom;
+
+// The block to move out of a clash: the lowest priority one, the later one on ties.
+// Null when every block involved is fixed.
+export function blockToMove<T extends TimedBlock>(block: T, overlapping: T[]): T | null {
+  const candidates = [block, ...overlapping].filter((b) => !FIXED_KINDS.includes(b.kind));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((lowest, b) =>
+    priority(b) < priority(lowest) || (priority(b) === priority(lowest) && (b.startTime || '') > (lowest.startTime || ''))
+      ? b
+      : lowest
+  );
+}
+
+export interface FreeSlotOptions {
+  earliestTime: string;
+  latestTime: string;
+  // Days searched, starting with the block's own day
+  searchDays?: number;
+  // Nothing is placed before this date and time (the student's "now")
+  notBefore?: { date: string; time: string };
+}
+
+// The first time from the block's current start on, the same day or a later one, where it
+// fits without overlapping any of `others`
+export function nextFreeSlot(
+  block: TimedBlock,
+  others: TimedBlock[],
+  { earliestTime, latestTime, searchDays = 7, notBefore }: FreeSlotOptions
+): { blockDate: string; startTime: string } | null {
+  const earliest = toMinutes(earliestTime);
+  const latest = toMinutes(latestTime);
+  const firstDate = notBefore && notBefore.date > block.blockDate ? notBefore.date : block.blockDate;
+
+  for (let day = 0; day < searchDays; day++) {
+    const date = addDays(firstDate, day);
+    const busy = others.filter((b) => b.id !== block.id && b.blockDate === date && occupiesTime(b)).map(interval);
+
+    let dayStart = earliest;
+    if (date === block.blockDate && block.startTime) dayStart = Math.max(dayStart, toMinutes(block.startTime));
+    if (notBefore && date === notBefore.date) dayStart = Math.max(dayStart, toMinutes(notBefore.time));
+    dayStart = Math.ceil(dayStart / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+
+    for (let start = dayStart; start + block.durationMinutes <= latest; start += SLOT_STEP_MINUTES) {
+      const slot: [number, number] = [start, start + block.durationMinutes];
+      if (!busy.some((b) => intervalsOverlap(slot, b))) return { blockDate: date, startTime: fromMinutes(start) };
+    }
+  }
+  return null;
+}
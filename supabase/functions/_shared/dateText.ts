@@ -0,0 +1,76 @@
+// Dates and times as syllabi write them ("Mar 15", "9/22/25", "2:30 PM"), normalized to
+// the YYYY-MM-DD and HH:mm values stored everywhere else. Used to validate model output
+// and to read assignment lists pasted in by students.
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// "mar", "sept" and "march" all name a month; shorter prefixes are too ambiguous
+const monthFromWord = (word: string) =>
+  word.length >= 3 ? MONTHS.findIndex((m) => m.startsWith(word)) : -1;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Accepts ISO dates (optionally with a time part), M/D/YYYY, M/D/YY, M/D and
+// "March 15, 2025" / "Mar 15" / "15 March 2025". Dates without a year use fallbackYear.
+export function normalizeDate(value: string, fallbackYear: number): string | null {
+  const input = value.trim();
+
+  let match = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = input.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/);
+  if (match) {
+    const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : fallbackYear;
+    return toIsoDate(year, Number(match[1]), Number(match[2]));
+  }
+
+  const words = input.toLowerCase().replace(/(\d)(st|nd|rd|th)\b/g, '$1').replace(/[,.]/g, ' ').split(/\s+/);
+  const monthWord = words.find((w) => monthFromWord(w) !== -1);
+  if (monthWord) {
+    const numbers = words.filter((w) => /^\d+$/.test(w)).map(Number);
+    const day = numbers.find((n) => n >= 1 && n <= 31);
+    const year = numbers.find((n) => n >= 1000) ?? fallbackYear;
+    if (day !== undefined) {
+      return toIsoDate(year, monthFromWord(monthWord) + 1, day);
+    }
+  }
+
+  return null;
+}
+
+// Accepts "14:00", "14:00:00", "2:00 PM", "2pm", "2:30p.m." and returns HH:mm
+export function normalizeTime(value: string): string | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .replace(/\./g, '')
+    .match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*(am|pm|a|p)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3];
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem.startsWith('p') && hours !== 12) hours += 12;
+    if (meridiem.startsWith('a') && hours === 12) hours = 0;
+  } else if (match[2] === undefined) {
+    // A bare number is ambiguous ("2" could be 2 AM or 2 PM)
+    return null;
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+}
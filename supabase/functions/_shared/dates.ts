@@ -0,0 +1,106 @@
+// Calendar dates and wall-clock times in a student's own timezone. Block dates and
+// start times are stored as local values (yyyy-MM-dd / HH:mm), so "today", "now" and
+// reminder instants must be computed in the zone from the student's profile rather
+// than in whatever zone the server or browser happens to run in.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export interface ZonedDateTime {
+  date: string;
+  time: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Profiles without a (valid) timezone fall back to UTC
+export const resolveTimeZone = (timeZone: string | null | undefined) =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+
+const zonedParts = (instant: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// The calendar date and wall-clock time (HH:mm) of an instant in a timezone
+export function zonedNow(timeZone: string, at: Date = new Date()): ZonedDateTime {
+  const p = zonedParts(at, timeZone);
+  return {
+    date: `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}`,
+    time: `${pad(p.hour)}:${pad(p.minute)}`,
+  };
+}
+
+export const todayInZone = (timeZone: string, at: Date = new Date()) => zonedNow(timeZone, at).date;
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+const offsetAt = (instant: number, timeZone: string) => {
+  const p = zonedParts(new Date(instant), timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// The instant a local date and time (HH:mm or HH:mm:ss) occur in a timezone. Times
+// skipped by a DST jump resolve to the equivalent time after the jump.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes || 0);
+
+  // The offset can differ on either side of a DST change, so correct the guess once.
+  // A skipped time never round-trips; the first guess then lands after the jump.
+  const guess = wallClock - offsetAt(wallClock, timeZone);
+  const corrected = wallClock - offsetAt(guess, timeZone);
+  return new Date(offsetAt(corrected, timeZone) === wallClock - corrected ? corrected : guess);
+}
+
+// Whole minutes from `at` until a local date and time in a timezone (negative once it has passed)
+export const minutesUntil = (date: string, time: string, timeZone: string, at: Date = new Date()) =>
+  Math.round((zonedTimeToUtc(date, time, timeZone).getTime() - at.getTime()) / 60000);
+
+// Calendar arithmetic on yyyy-MM-dd strings; independent of any timezone
+export const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+// Wall-clock times (HH:mm or HH:mm:ss) as minutes since midnight, and back to HH:mm
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
@@ -0,0 +1,23 @@
+// How demanding a class is, as set by the student. Stored estimates are for a normal
+// class; planning scales them by the class's factor, and the same factor decides how big
+// a share of each day's study budget the class may take when several compete for it.
+
+export type Difficulty = 'chill' | 'normal' | 'heavy';
+
+export const DIFFICULTIES: Difficulty[] = ['chill', 'normal', 'heavy'];
+
+export const DIFFICULTY_FACTORS: Record<Difficulty, number> = {
+  chill: 0.75,
+  normal: 1,
+  heavy: 1.5,
+};
+
+// Classes without a (known) difficulty are normal
+export const resolveDifficulty = (value: string | null | undefined): Difficulty =>
+  DIFFICULTIES.includes(value as Difficulty) ? (value as Difficulty) : 'normal';
+
+export const difficultyFactor = (value: string | null | undefined) => DIFFICULTY_FACTORS[resolveDifficulty(value)];
+
+// Minutes a normal-class estimate takes in a class of this difficulty, rounded to 5 minutes
+export const scaleMinutes = (minutes: number, difficulty: string | null | undefined) =>
+  minutes > 0 ? Math.max(5, Math.round((minutes * difficultyFactor(difficulty)) / 5) * 5) : minutes;
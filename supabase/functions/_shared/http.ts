@@ -0,0 +1,175 @@
+// Request plumbing shared by the edge functions: CORS, caller authentication and JSON
+// error responses. Functions write with the service role key, which bypasses row level
+// security, so every request is tied to a verified caller before anything is read.
+//
+//   withAuth         a signed-in student; the user comes from the JWT in the
+//                    Authorization header, never from the request body
+//   withServiceRole  scheduled jobs, called with the service role key
+//   withFeedToken    calendar apps, which cannot sign in; the user comes from the
+//                    secret token in the feed URL
+
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AIProviderError } from './ai.ts';
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A failed request with the HTTP status to answer with
+export class HttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Keeps the status of HttpError and AIProviderError (429, 402); anything else is a 500
+export function errorResponse(error: unknown): Response {
+  const status = error instanceof HttpError || error instanceof AIProviderError ? error.status : 500;
+  return jsonResponse(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      details: Deno.env.get('DENO_ENV') === 'development' && error instanceof Error ? error.stack : undefined,
+    },
+    status
+  );
+}
+
+// A client with the service role key
+export function serviceClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl) {
+    throw new Error('SUPABASE_URL environment variable is not set in edge function');
+  }
+  if (!supabaseKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY environment variable is not set in edge function');
+  }
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+function bearerToken(req: Request): string {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') || '');
+  if (!match) {
+    throw new HttpError('Missing authorization header', 401);
+  }
+  return match[1].trim();
+}
+
+// The signed-in user the request's JWT belongs to. The anon key is a valid JWT too,
+// but it has no user, so it is rejected here.
+export async function authenticate(req: Request, supabase: SupabaseClient): Promise<User> {
+  const token = bearerToken(req);
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new HttpError('Invalid or expired session. Please sign in again.', 401);
+  }
+  return data.user;
+}
+
+// Rejects a userId sent in the body by older clients when it is not the caller
+export function rejectOtherUser(user: User, claimedUserId: unknown) {
+  if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== user.id) {
+    throw new HttpError('userId does not match the signed-in user', 403);
+  }
+}
+
+// Throws unless every class exists and belongs to the user
+export async function requireOwnClasses(supabase: SupabaseClient, user: User, classIds: string[]) {
+  const ids = [...new Set(classIds)];
+  if (ids.length === 0) return;
+
+  const { data, error } = await supabase.from('classes').select('id, user_id').in('id', ids);
+  if (error) {
+    throw new Error(`Failed to load classes: ${error.message}`);
+  }
+
+  const owners = new Map((data || []).map((row) => [row.id as string, row.user_id as string]));
+  for (const id of ids) {
+    if (!owners.has(id)) {
+      throw new HttpError('Class not found', 404);
+    }
+    if (owners.get(id) !== user.id) {
+      throw new HttpError('You do not have access to this class', 403);
+    }
+  }
+}
+
+export function requireOwnClass(supabase: SupabaseClient, user: User, classId: string) {
+  return requireOwnClasses(supabase, user, [classId]);
+}
+
+export interface AuthContext {
+  user: User;
+  // Service role client; scope every query to `user` yourself
+  supabase: SupabaseClient;
+}
+
+type Handler = (req: Request) => Promise<Response>;
+
+function withCors(name: string, handle: Handler): Handler {
+  return async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+    try {
+      return await handle(req);
+    } catch (error) {
+      console.error(`Error in ${name}:`, error instanceof Error ? error.stack : error);
+      return errorResponse(error);
+    }
+  };
+}
+
+export function withAuth(name: string, handle: (req: Request, context: AuthContext) => Promise<Response>): Handler {
+  return withCors(name, async (req) => {
+    const supabase = serviceClient();
+    const user = await authenticate(req, supabase);
+    return handle(req, { user, supabase });
+  });
+}
+
+export function withServiceRole(name: string, handle: (req: Request, supabase: SupabaseClient) => Promise<Response>): Handler {
+  return withCors(name, async (req) => {
+    const supabase = serviceClient();
+    if (bearerToken(req) !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      throw new HttpError('This function can only be called with the service role key', 401);
+    }
+    return handle(req, supabase);
+  });
+}
+
+export interface FeedContext {
+  userId: string;
+  supabase: SupabaseClient;
+}
+
+export function withFeedToken(name: string, handle: (req: Request, context: FeedContext) => Promise<Response>): Handler {
+  return withCors(name, async (req) => {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      throw new HttpError('Missing feed token', 401);
+    }
+
+    const supabase = serviceClient();
+    const { data, error } = await supabase.from('calendar_feeds').select('user_id').eq('token', token).maybeSingle();
+    if (error) {
+      throw new Error(`Failed to look up feed token: ${error.message}`);
+    }
+    // Unknown and rotated tokens look the same
+    if (!data) {
+      throw new HttpError('Calendar feed not found', 404);
+    }
+    return handle(req, { userId: data.user_id, supabase });
+  });
+}
@@ -0,0 +1,122 @@
+// iCalendar (RFC 5545) export of study blocks, for the calendar-feed function, which
+// also serves the one-off download on the Calendar page. Blocks are stored as local
+// dates and times in the student's timezone; they are written as UTC instants, so no
+// VTIMEZONE is needed.
+
+import { BLOCK_KIND_LABELS, BlockKind } from './blockKinds.ts';
+import { addDays, zonedTimeToUtc } from './dates.ts';
+import { MEETING_KIND_LABELS, MeetingKind } from './meetings.ts';
+
+export interface CalendarBlock {
+  id: string;
+  blockDate: string;
+  startTime: string | null;
+  durationMinutes: number;
+  kind: string;
+  meetingKind?: string | null;
+  location?: string | null;
+  className?: string | null;
+  assignmentTitle?: string | null;
+  // Status of the pinky promise made for the block, if any: active, kept or broken
+  promiseStatus?: string | null;
+}
+
+export interface CalendarOptions {
+  timeZone: string;
+  name?: string;
+  now?: Date;
+}
+
+// Exported events carry this UID suffix, so an import can recognise its own export
+export const UID_DOMAIN = 'nudge.study';
+
+const PROMISE_TEXT: Record<string, string> = {
+  active: '🤙 Pinky promised',
+  kept: '🤙 Pinky promise kept',
+  broken: '💔 Pinky promise broken',
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Content lines longer than 75 octets continue on lines starting with a space
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 2025-12-01T16:00:00.000Z -> 20251201T160000Z
+const utcValue = (instant: Date) => instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const dateValue = (date: string) => date.replace(/-/g, '');
+
+const kindLabel = (block: CalendarBlock) =>
+  (block.kind === 'class_meeting' && block.meetingKind && MEETING_KIND_LABELS[block.meetingKind as MeetingKind]) ||
+  BLOCK_KIND_LABELS[block.kind as BlockKind] ||
+  BLOCK_KIND_LABELS.study;
+
+// "BIO 101 · Review session"
+export const eventSummary = (block: CalendarBlock) =>
+  [block.className, kindLabel(block)].filter(Boolean).join(' · ');
+
+export function eventDescription(block: CalendarBlock) {
+  const lines = [
+    block.assignmentTitle ? `Assignment: ${block.assignmentTitle}` : null,
+    `Duration: ${block.durationMinutes} min`,
+    block.promiseStatus ? PROMISE_TEXT[block.promiseStatus] ?? null : null,
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+export function buildCalendar(blocks: CalendarBlock[], { timeZone, name = 'Nudge study plan', now = new Date() }: CalendarOptions) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Nudge//Study plan//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    // Calendar apps poll subscriptions on their own schedule; ask for hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const block of blocks) {
+    lines.push('BEGIN:VEVENT', `UID:${block.id}@${UID_DOMAIN}`, `DTSTAMP:${utcValue(now)}`);
+
+    if (block.startTime) {
+      const start = zonedTimeToUtc(block.blockDate, block.startTime, timeZone);
+      const end = new Date(start.getTime() + block.durationMinutes * 60000);
+      lines.push(`DTSTART:${utcValue(start)}`, `DTEND:${utcValue(end)}`);
+    } else {
+      // Blocks without a time are all-day events
+      lines.push(`DTSTART;VALUE=DATE:${dateValue(block.blockDate)}`, `DTEND;VALUE=DATE:${dateValue(addDays(block.blockDate, 1))}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(eventSummary(block))}`, `DESCRIPTION:${escapeText(eventDescription(block))}`);
+    if (block.location) lines.push(`LOCATION:${escapeText(block.location)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,124 @@
+// Class meeting patterns and the academic-calendar exceptions that cancel them.
+// Expands a term schedule into dated class-meeting blocks; shared by parse-syllabus
+// and the web app so exception edits can regenerate meetings without re-parsing.
+
+import { addDays } from './dates.ts';
+import { DateRange, isDateInRanges } from './scheduler.ts';
+
+export type MeetingKind = 'lecture' | 'lab' | 'recitation' | 'office_hours';
+
+export const MEETING_KIND_LABELS: Record<MeetingKind, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  recitation: 'Recitation',
+  office_hours: 'Office hours',
+};
+
+// One recurring meeting pattern of a class, e.g. MWF lectures or a Thursday lab
+export interface ClassMeeting {
+  kind: MeetingKind;
+  days: string[];
+  startTime: string;
+  endTime: string;
+  location?: string;
+}
+
+export interface MeetingSchedule {
+  startDate?: string;
+  endDate?: string;
+  meetings: ClassMeeting[];
+}
+
+// holiday/break: no class and no studying; cancelled: only the class meeting is off
+export type ExceptionKind = 'holiday' | 'break' | 'cancelled';
+
+export interface TermException {
+  name: string;
+  kind: ExceptionKind;
+  startDate: string;
+  endDate: string;
+}
+
+export interface MeetingBlock {
+  blockDate: string;
+  startTime: string;
+  durationMinutes: number;
+  meetingKind: MeetingKind;
+  location: string | null;
+}
+
+const DAY_INDEX: Record<string, number> = {
+  Sunday: 0,
+  Monday: 1,
+  Tuesday: 2,
+  Wednesday: 3,
+  Thursday: 4,
+  Friday: 5,
+  Saturday: 6,
+};
+
+const MIN_DURATION = 15;
+const MAX_DURATION = 4 * 60;
+
+// Dates on which no studying should be scheduled
+export const studyFreeRanges = (exceptions: TermException[]) =>
+  exceptions.filter((e) => e.kind !== 'cancelled');
+
+// Length of a meeting, clamped to a sane range; null when the times are unusable
+export function meetingDuration(meeting: ClassMeeting): number | null {
+  const [startHour, startMin] = meeting.startTime.split(':').map(Number);
+  const [endHour, endMin] = meeting.endTime.split(':').map(Number);
+
+  if ([startHour, startMin, endHour, endMin].some((n) => isNaN(n))) {
+    console.error('Invalid time format in meeting:', meeting.startTime, meeting.endTime);
+    return null;
+  }
+
+  let durationMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
+
+  // End before start: assume the meeting runs past midnight
+  if (durationMinutes < 0) {
+    durationMinutes += 24 * 60;
+    console.warn(`End time (${meeting.endTime}) is before start time (${meeting.startTime}). Assuming next day. Duration: ${durationMinutes} minutes`);
+  }
+
+  return Math.min(Math.max(durationMinutes, MIN_DURATION), MAX_DURATION);
+}
+
+// Expands every meeting pattern into dated blocks between the term dates, skipping
+// exception dates. fromDate limits generation to the future when regenerating.
+export function generateMeetingBlocks(
+  schedule: MeetingSchedule | null,
+  exceptions: DateRange[] = [],
+  fromDate?: string
+): MeetingBlock[] {
+  if (!schedule || schedule.meetings.length === 0) return [];
+
+  // Default to the current spring semester when the syllabus does not give term dates
+  const currentYear = new Date().getFullYear();
+  const startDate = schedule.startDate || `${currentYear}-01-15`;
+  const endDate = schedule.endDate || `${currentYear}-05-15`;
+  const firstDate = fromDate && fromDate > startDate ? fromDate : startDate;
+
+  const blocks: MeetingBlock[] = [];
+  for (const meeting of schedule.meetings) {
+    const durationMinutes = meetingDuration(meeting);
+    const days = meeting.days.map((day) => DAY_INDEX[day]).filter((d) => d !== undefined);
+    if (durationMinutes === null || days.length === 0) continue;
+
+    for (let date = firstDate; date <= endDate; date = addDays(date, 1)) {
+      if (!days.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) continue;
+      if (isDateInRanges(date, exceptions)) continue;
+
+      blocks.push({
+        blockDate: date,
+        startTime: meeting.startTime,
+        durationMinutes,
+        meetingKind: meeting.kind,
+        location: meeting.location ?? null,
+      });
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,39 @@
+// Reading time from page counts. The model only reports which pages a reading covers;
+// minutes are worked out here from the student's own reading speed, so estimates are
+// consistent across classes and follow the student when they change their speed.
+
+// Midpoint of the 3-5 min/page rule of thumb for textbook reading
+export const DEFAULT_MINUTES_PER_PAGE = 4;
+
+export interface PageRange {
+  pageStart?: number | null;
+  pageEnd?: number | null;
+}
+
+// Profiles without a (sensible) reading speed use the default
+export const resolveReadingSpeed = (minutesPerPage: number | null | undefined) =>
+  minutesPerPage && minutesPerPage > 0 ? minutesPerPage : DEFAULT_MINUTES_PER_PAGE;
+
+// Pages in an inclusive range ("pp. 45-72" is 28 pages); null when the range is incomplete
+export function pageCount({ pageStart, pageEnd }: PageRange): number | null {
+  if (pageStart == null || pageEnd == null || pageEnd < pageStart) return null;
+  return pageEnd - pageStart + 1;
+}
+
+// Minutes to read a page range, rounded up to 5-minute steps; null without a full range
+export function readingMinutes(range: PageRange, minutesPerPage: number): number | null {
+  const pages = pageCount(range);
+  if (pages === null) return null;
+  return Math.max(5, Math.ceil((pages * minutesPerPage) / 5) * 5);
+}
+
+// Replaces the estimates of readings that have a page range; everything else is kept as-is
+export function estimateReadings<T extends PageRange & { type?: string | null; estimatedMinutes?: number }>(
+  items: T[],
+  minutesPerPage: number
+): T[] {
+  return items.map((item) => {
+    const minutes = item.type === 'reading' ? readingMinutes(item, minutesPerPage) : null;
+    return minutes === null ? item : { ...item, estimatedMinutes: minutes };
+  });
+}
@@ -0,0 +1,5 @@
+// Embedded to-one relations in supabase-js selects, e.g. "classes(name)". PostgREST
+// returns a single object (or null), but without generated database types the client
+// types every embedded relation as an array. Accepts either shape.
+export const embeddedOne = <T>(relation: T | T[] | null | undefined): T | null =>
+  Array.isArray(relation) ? relation[0] ?? null : relation ?? null;
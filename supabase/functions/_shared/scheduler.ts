@@ -0,0 +1,354 @@
+// Deterministic study-block scheduler. Packs assignment work into free time before
+// each deadline, respecting the student's daily budgets and everything already on
+// their calendar. Pure and dependency free so both the edge functions and the web
+// app can use it.
+
+import { intervalsOverlap } from './conflicts.ts';
+import { addDays, fromMinutes, toMinutes } from './dates.ts';
+
+export { addDays, fromMinutes, toMinutes };
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface SchedulerAssignment {
+  dueDate: string | null;
+  estimatedMinutes: number;
+  // Holidays and breaks during which this assignment is not worked on
+  blockedDates?: DateRange[];
+  // Share of the final grade in percent; heavier items win when hours are tight
+  weight?: number | null;
+  // Class the work belongs to, for splitting each day's budget between classes
+  classId?: string;
+}
+
+export interface BusyBlock {
+  blockDate: string;
+  startTime: string | null;
+  durationMinutes: number;
+  // Study sessions use up the daily budget; class meetings and imported events only occupy time
+  countsTowardBudget?: boolean;
+  classId?: string | null;
+}
+
+export interface StudyBudget {
+  weekdayMinutes: number;
+  weekendMinutes: number;
+  earliestTime: string;
+  latestTime: string;
+}
+
+export interface ScheduleOptions {
+  today: string;
+  // Current time of day (HH:mm); slots earlier than this are skipped today
+  now?: string;
+  // Days kept free right before a deadline
+  bufferDays?: number;
+  // How far ahead of a deadline work may start
+  windowDays?: number;
+  // Horizon for assignments without a due date
+  undatedWindowDays?: number;
+  maxSessionMinutes?: number;
+  minSessionMinutes?: number;
+  breakMinutes?: number;
+  // Weekday sessions start after school hours
+  weekdayStartTime?: string;
+  // Relative share of each day's budget per class id. With two or more classes, a class
+  // gets at most its part of a day while its work still fits on days where it has room left.
+  classShares?: Record<string, number>;
+}
+
+export interface ScheduledBlock {
+  blockDate: string;
+  startTime: string;
+  durationMinutes: number;
+  assignmentIndex: number;
+}
+
+export interface ScheduleResult {
+  blocks: ScheduledBlock[];
+  // Work that did not fit before its deadline
+  unscheduled: { assignmentIndex: number; minutes: number }[];
+}
+
+const SLOT_STEP_MINUTES = 15;
+
+export const DEFAULT_BUDGET: StudyBudget = {
+  weekdayMinutes: 120,
+  weekendMinutes: 180,
+  earliestTime: '07:00',
+  latestTime: '23:00',
+};
+
+export const isDateInRanges = (date: string, ranges: DateRange[]) =>
+  ranges.some((range) => date >= range.startDate && date <= range.endDate);
+
+const isWeekend = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+// Profile ranges are stored as text such as "2-3" or "4+"; plan against the upper bound
+export function rangeToMinutes(range: string | null | undefined, fallbackMinutes: number) {
+  const hours = (range || '').match(/\d+(\.\d+)?/g)?.map(Number) ?? [];
+  return hours.length > 0 ? Math.max(...hours) * 60 : fallbackMinutes;
+}
+
+export function budgetFromProfile(profile: {
+  weekday_study_range?: string | null;
+  weekend_study_range?: string | null;
+  earliest_study_time?: string | null;
+  latest_study_time?: string | null;
+} | null): StudyBudget {
+  return {
+    weekdayMinutes: rangeToMinutes(profile?.weekday_study_range, DEFAULT_BUDGET.weekdayMinutes),
+    weekendMinutes: rangeToMinutes(profile?.weekend_study_range, DEFAULT_BUDGET.weekendMinutes),
+    earliestTime: profile?.earliest_study_time || DEFAULT_BUDGET.earliestTime,
+    latestTime: profile?.latest_study_time || DEFAULT_BUDGET.latestTime,
+  };
+}
+
+// Splits an estimate into roughly equal sessions no longer than maxMinutes, rounded to 5 minutes
+export function splitIntoSessions(totalMinutes: number, maxMinutes: number, minMinutes: number) {
+  if (totalMinutes <= 0) return [];
+  if (totalMinutes <= maxMinutes) return [totalMinutes];
+
+  const count = Math.ceil(totalMinutes / maxMinutes);
+  const size = Math.ceil(totalMinutes / count / 5) * 5;
+  const sessions: number[] = [];
+  let remaining = totalMinutes;
+  while (remaining > 0) {
+    const next = Math.min(size, remaining);
+    // Fold a tiny leftover into the previous session instead of scheduling a 5-minute block
+    if (next < minMinutes && sessions.length > 0) {
+      sessions[sessions.length - 1] += next;
+    } else {
+      sessions.push(next);
+    }
+    remaining -= next;
+  }
+  return sessions;
+}
+
+interface DayState {
+  budget: number;
+  // The day's budget before anything was placed, and how much of it each class used
+  total: number;
+  byClass: Map<string, number>;
+  intervals: [number, number][];
+}
+
+// Grade weight lost to work that did not fit: each item's missing share of its
+// estimate times its weight. Items without a weight count as an average item.
+function unpreparedWeight(assignments: SchedulerAssignment[], unscheduled: ScheduleResult['unscheduled']) {
+  const known = assignments.map((a) => a.weight).filter((w): w is number => w != null && w > 0);
+  const averageWeight = known.length > 0 ? known.reduce((sum, w) => sum + w, 0) / known.length : 1;
+  return unscheduled.reduce((sum, { assignmentIndex, minutes }) => {
+    const assignment = assignments[assignmentIndex];
+    const weight = assignment.weight != null && assignment.weight > 0 ? assignment.weight : averageWeight;
+    return sum + weight * (minutes / assignment.estimatedMinutes);
+  }, 0);
+}
+
+export function scheduleStudyBlocks(
+  assignments: SchedulerAssignment[],
+  busy: BusyBlock[],
+  budget: StudyBudget,
+  options: ScheduleOptions
+): ScheduleResult {
+  // Earliest deadline first; undated work goes last. Ties keep the input order.
+  const byDeadline = assignments
+    .map((assignment, index) => ({ assignment, index }))
+    .sort((a, b) => {
+      const aDue = a.assignment.dueDate ?? '9999-12-31';
+      const bDue = b.assignment.dueDate ?? '9999-12-31';
+      return aDue === bDue ? a.index - b.index : aDue < bDue ? -1 : 1;
+    })
+    .map(({ index }) => index);
+
+  const plan = packStudyBlocks(assignments, byDeadline, busy, budget, options);
+  if (plan.unscheduled.length === 0 || !assignments.some((a) => a.weight != null)) return plan;
+
+  // Hours are tight: try giving the heaviest items their time first and keep whichever
+  // plan leaves less of the grade unprepared
+  const byWeight = [...byDeadline].sort((a, b) => (assignments[b].weight ?? 0) - (assignments[a].weight ?? 0));
+  const weighted = packStudyBlocks(assignments, byWeight, busy, budget, options);
+
+  return unpreparedWeight(assignments, weighted.unscheduled) < unpreparedWeight(assignments, plan.unscheduled)
+    ? weighted
+    : plan;
+}
+
+// Places each assignment's sessions, one assignment at a time in the given order
+function packStudyBlocks(
+  assignments: SchedulerAssignment[],
+  order: number[],
+  busy: BusyBlock[],
+  budget: StudyBudget,
+  options: ScheduleOptions
+): ScheduleResult {
+  const {
+    today,
+    now,
+    bufferDays = 1,
+    windowDays = 14,
+    undatedWindowDays = 14,
+    maxSessionMinutes = 90,
+    minSessionMinutes = 25,
+    breakMinutes = 15,
+    weekdayStartTime = '16:00',
+    classShares = {},
+  } = options;
+
+  const earliest = toMinutes(budget.earliestTime);
+  const latest = toMinutes(budget.latestTime);
+  const weekdayStart = Math.max(earliest, toMinutes(weekdayStartTime));
+
+  const days = new Map<string, DayState>();
+  const dayState = (date: string) => {
+    let state = days.get(date);
+    if (!state) {
+      const total = isWeekend(date) ? budget.weekendMinutes : budget.weekdayMinutes;
+      state = { budget: total, total, byClass: new Map(), intervals: [] };
+      days.set(date, state);
+    }
+    return state;
+  };
+
+  const spendBudget = (state: DayState, minutes: number, classId?: string | null) => {
+    state.budget -= minutes;
+    if (classId) state.byClass.set(classId, (state.byClass.get(classId) || 0) + minutes);
+  };
+
+  const totalShares = Object.values(classShares).reduce((sum, share) => sum + share, 0);
+  const sharesBudget = Object.keys(classShares).length >= 2 && totalShares > 0;
+
+  // Minutes left on a day for one class: the day's remaining budget, capped at the class's
+  // share of the day when shares apply
+  const roomFor = (date: string, classId: string | undefined, withinShare: boolean) => {
+    const state = dayState(date);
+    const share = classId ? classShares[classId] : undefined;
+    if (!withinShare || share === undefined) return state.budget;
+    const allowance = (state.total * share) / totalShares - (state.byClass.get(classId!) || 0);
+    return Math.min(state.budget, allowance);
+  };
+
+  for (const block of busy) {
+    const state = dayState(block.blockDate);
+    if (block.countsTowardBudget) spendBudget(state, block.durationMinutes, block.classId);
+    if (block.startTime) {
+      const start = toMinutes(block.startTime);
+      state.intervals.push([start, start + block.durationMinutes]);
+    }
+  }
+
+  const findSlot = (date: string, duration: number) => {
+    const state = dayState(date);
+    let dayStart = isWeekend(date) ? earliest : weekdayStart;
+    if (date === today && now) {
+      dayStart = Math.max(dayStart, Math.ceil(toMinutes(now) / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES);
+    }
+    for (let start = dayStart; start + duration <= latest; start += SLOT_STEP_MINUTES) {
+      const end = start + duration;
+      const clashes = state.intervals.some(([busyStart, busyEnd]) =>
+        intervalsOverlap([start, end], [busyStart, busyEnd], breakMinutes)
+      );
+      if (!clashes) return start;
+    }
+    return null;
+  };
+
+  const result: ScheduleResult = { blocks: [], unscheduled: [] };
+
+  // Days each assignment may be worked on: up to the buffer before the deadline, but
+  // never before today
+  const candidateDays = (assignment: SchedulerAssignment) => {
+    const { dueDate } = assignment;
+    let lastDay = dueDate ? addDays(dueDate, -bufferDays) : addDays(today, undatedWindowDays - 1);
+    if (lastDay < today) lastDay = dueDate && dueDate > today ? addDays(dueDate, -1) : today;
+    const firstDay = [today, addDays(lastDay, -(windowDays - 1))].sort()[1];
+
+    const candidates: string[] = [];
+    for (let date = firstDay; date <= lastDay; date = addDays(date, 1)) {
+      if (!isDateInRanges(date, assignment.blockedDates || [])) candidates.push(date);
+    }
+    return candidates;
+  };
+
+  // Places up to `minutes` of one assignment's work and returns how much did not fit
+  const place = (index: number, minutes: number, withinShare: boolean) => {
+    const assignment = assignments[index];
+    const { dueDate } = assignment;
+    const candidates = candidateDays(assignment);
+    const room = (date: string) => roomFor(date, assignment.classId, withinShare);
+
+    let unplaced = 0;
+    for (const session of splitIntoSessions(minutes, maxSessionMinutes, minSessionMinutes)) {
+      let remaining = session;
+
+      // A session that does not fit anywhere whole is split across days with budget left
+      while (remaining > 0) {
+        const smallest = Math.min(remaining, minSessionMinutes);
+
+        // Spread work out: the day with the most room left wins. Dated work prefers the
+        // later day on ties so sessions land close to the deadline; undated work the earlier.
+        const ranked = candidates
+          .filter((date) => room(date) >= smallest)
+          .sort((a, b) => room(b) - room(a) || (a < b ? 1 : -1) * (dueDate ? 1 : -1));
+
+        let placedMinutes = 0;
+        for (const date of ranked) {
+          const state = dayState(date);
+          const duration = Math.min(remaining, Math.floor(room(date) / 5) * 5);
+          if (duration < smallest) continue;
+
+          const start = findSlot(date, duration);
+          if (start === null) continue;
+
+          spendBudget(state, duration, assignment.classId);
+          state.intervals.push([start, start + duration]);
+          result.blocks.push({
+            blockDate: date,
+            startTime: fromMinutes(start),
+            durationMinutes: duration,
+            assignmentIndex: index,
+          });
+          placedMinutes = duration;
+          break;
+        }
+
+        if (placedMinutes === 0) break;
+        remaining -= placedMinutes;
+      }
+      unplaced += remaining;
+    }
+    return unplaced;
+  };
+
+  // Work due before today is skipped
+  const pending = order
+    .filter((index) => {
+      const { dueDate } = assignments[index];
+      return !dueDate || dueDate >= today;
+    })
+    .map((index) => ({ index, minutes: assignments[index].estimatedMinutes }));
+
+  // With shares, every class first gets its part of each day; what is left over may then
+  // take time the other classes did not need
+  for (const withinShare of sharesBudget ? [true, false] : [false]) {
+    for (const item of pending) {
+      if (item.minutes > 0) item.minutes = place(item.index, item.minutes, withinShare);
+    }
+  }
+
+  for (const { index, minutes } of pending) {
+    if (minutes > 0) result.unscheduled.push({ assignmentIndex: index, minutes });
+  }
+
+  result.blocks.sort((a, b) =>
+    a.blockDate === b.blockDate ? a.startTime.localeCompare(b.startTime) : a.blockDate < b.blockDate ? -1 : 1
+  );
+  return result;
+}
@@ -0,0 +1,66 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { addDays, resolveTimeZone, todayInZone } from '../_shared/dates.ts';
+import { buildCalendar, CalendarBlock } from '../_shared/icalendar.ts';
+import { corsHeaders, withFeedToken } from '../_shared/http.ts';
+import { embeddedOne } from '../_shared/relations.ts';
+
+// How far back the feed reaches; older blocks drop out of subscribed calendars
+const HISTORY_DAYS = 30;
+
+// The student's blocks from HISTORY_DAYS ago on, with the status of any pinky promise
+// made for them. pinky_promises.block_id is plain text without a foreign key, so the
+// promises are matched up here rather than embedded.
+export async function loadFeedBlocks(supabase: SupabaseClient, userId: string, since: string): Promise<CalendarBlock[]> {
+  const [{ data: blocks, error: blocksError }, { data: promises, error: promisesError }] = await Promise.all([
+    supabase
+      .from('study_blocks')
+      .select('id, block_date, start_time, duration_minutes, kind, meeting_kind, location, classes(name), syllabus_assignments(title)')
+      .eq('user_id', userId)
+      .gte('block_date', since)
+      .order('block_date')
+      .order('start_time'),
+    supabase.from('pinky_promises').select('block_id, status').eq('user_id', userId),
+  ]);
+
+  if (blocksError) throw new Error(`Failed to load study blocks: ${blocksError.message}`);
+  if (promisesError) throw new Error(`Failed to load pinky promises: ${promisesError.message}`);
+
+  const promiseStatus = new Map((promises || []).map((p) => [p.block_id as string, p.status as string]));
+
+  return (blocks || []).map((block) => ({
+    id: block.id,
+    blockDate: block.block_date,
+    startTime: block.start_time,
+    durationMinutes: block.duration_minutes,
+    kind: block.kind,
+    meetingKind: block.meeting_kind,
+    location: block.location,
+    className: embeddedOne<{ name: string }>(block.classes)?.name ?? null,
+    assignmentTitle: embeddedOne<{ title: string }>(block.syllabus_assignments)?.title ?? null,
+    promiseStatus: promiseStatus.get(block.id) ?? null,
+  }));
+}
+
+// Serves a student's study blocks as an iCalendar feed that Google, Apple or Outlook
+// calendars can subscribe to. Calendar apps cannot sign in, so the URL carries a secret
+// token; rotating it in the app cuts off every existing subscription.
+export const handler = withFeedToken('calendar-feed', async (_req, { userId, supabase }) => {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (profileError) throw new Error(`Failed to load profile: ${profileError.message}`);
+
+  const timeZone = resolveTimeZone(profile?.timezone);
+  const blocks = await loadFeedBlocks(supabase, userId, addDays(todayInZone(timeZone), -HISTORY_DAYS));
+
+  return new Response(buildCalendar(blocks, { timeZone }), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="nudge.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
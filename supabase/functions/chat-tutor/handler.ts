@@ -0,0 +1,29 @@
+import { getAIProvider } from '../_shared/ai.ts';
+import { jsonResponse, withAuth } from '../_shared/http.ts';
+
+export const handler = withAuth('chat-tutor', async (req) => {
+  const { messages, context } = await req.json();
+  const ai = getAIProvider();
+
+  const systemPrompt = `You are a helpful AI study tutor for Nudge, a social study app. You help students understand their coursework and study effectively.
+
+Context: The student is currently studying "${context}".
+
+Guidelines:
+- Be encouraging and supportive
+- Keep responses concise and clear (2-3 paragraphs max)
+- Use simple language and examples
+- Break down complex topics into digestible pieces
+- Offer to quiz or explain further if helpful
+- Use emojis sparingly but effectively 📚💡✨`;
+
+  const aiResponse = await ai.chat(
+    [
+      { role: 'system', content: systemPrompt },
+      ...messages
+    ],
+    { feature: 'chat-tutor' }
+  );
+
+  return jsonResponse({ response: aiResponse });
+});
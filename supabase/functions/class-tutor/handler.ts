@@ -0,0 +1,63 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { getAIProvider } from '../_shared/ai.ts';
+import { corsHeaders, HttpError, requireOwnClass, withAuth } from '../_shared/http.ts';
+
+export const handler = withAuth('class-tutor', async (req, { user, supabase }) => {
+  const { messages, classId } = await req.json();
+
+  if (!classId) {
+    throw new HttpError('Missing required parameter: classId', 400);
+  }
+  await requireOwnClass(supabase, user, classId);
+
+  // Get class context
+  const { data: classData } = await supabase
+    .from('classes')
+    .select('name, title')
+    .eq('id', classId)
+    .single();
+
+  // Get syllabus topics
+  const { data: topics } = await supabase
+    .from('syllabus_topics')
+    .select('title, description, estimated_minutes')
+    .eq('class_id', classId)
+    .order('order_index');
+
+  // Get assignments
+  const { data: assignments } = await supabase
+    .from('syllabus_assignments')
+    .select('title, type, due_date, estimated_minutes')
+    .eq('class_id', classId)
+    .order('due_date');
+
+  const contextInfo = `
+Class: ${classData?.name || 'Unknown'}
+
+Topics covered:
+${topics?.map(t => `- ${t.title}: ${t.description || 'No description'} (${t.estimated_minutes} min)`).join('\n') || 'No topics yet'}
+
+Assignments:
+${assignments?.map(a => `- ${a.title} (${a.type}): Due ${a.due_date || 'TBD'}, ~${a.estimated_minutes} min`).join('\n') || 'No assignments yet'}
+`;
+
+  const ai = getAIProvider();
+  const stream = await ai.chatStream(
+    [
+      {
+        role: 'system',
+        content: `You are an AI tutor helping students with ${classData?.name || 'this class'}. 
+
+${contextInfo}
+
+Answer questions about the class topics, help with assignments, provide study tips, and explain concepts. Be encouraging and clear. Keep answers concise but helpful.`
+      },
+      ...messages
+    ],
+    { feature: 'class-tutor' }
+  );
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' },
+  });
+});
@@ -1,115 +1,4 @@
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { handler } from './handler.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { messages, classId } = await req.json();
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // Get class context
-    const { data: classData } = await supabase
-      .from('classes')
-      .select('name, title')
-      .eq('id', classId)
-      .single();
-
-    // Get syllabus topics
-    const { data: topics } = await supabase
-      .from('syllabus_topics')
-      .select('title, description, estimated_minutes')
-      .eq('class_id', classId)
-      .order('order_index');
-
-    // Get assignments
-    const { data: assignments } = await supabase
-      .from('syllabus_assignments')
-      .select('title, type, due_date, estimated_minutes')
-      .eq('class_id', classId)
-      .order('due_date');
-
-    const contextInfo = `
-Class: ${classData?.name || 'Unknown'}
-
-Topics covered:
-${topics?.map(t => `- ${t.title}: ${t.description || 'No description'} (${t.estimated_minutes} min)`).join('\n') || 'No topics yet'}
-
-Assignments:
-${assignments?.map(a => `- ${a.title} (${a.type}): Due ${a.due_date || 'TBD'}, ~${a.estimated_minutes} min`).join('\n') || 'No assignments yet'}
-`;
-
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an AI tutor helping students with ${classData?.name || 'this class'}. 
-
-${contextInfo}
-
-Answer questions about the class topics, help with assignments, provide study tips, and explain concepts. Be encouraging and clear. Keep answers concise but helpful.`
-          },
-          ...messages
-        ],
-        stream: true
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Payment required. Please add credits to your workspace." }), {
-          status: 402,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    return new Response(response.body, {
-      headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' },
-    });
-
-  } catch (error) {
-    console.error('Error in class-tutor function:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
-  }
-});
\ No newline at end of file
+serve(handler);
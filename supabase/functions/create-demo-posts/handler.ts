@@ -0,0 +1,133 @@
+import { AIProviderError, getAIProvider } from '../_shared/ai.ts';
+import { HttpError, jsonResponse, rejectOtherUser, requireOwnClasses, withAuth } from '../_shared/http.ts';
+
+export const handler = withAuth('create-demo-posts', async (req, { user, supabase }) => {
+  const ai = getAIProvider();
+
+  // Parse and validate request body
+  let requestBody;
+  try {
+    requestBody = await req.json();
+  } catch (e) {
+    throw new HttpError('Invalid request body: ' + (e instanceof Error ? e.message : 'Unknown error'), 400);
+  }
+
+  const { userId: claimedUserId, classIds } = requestBody;
+
+  if (!classIds || !Array.isArray(classIds) || classIds.length === 0) {
+    throw new HttpError('classIds must be a non-empty array', 400);
+  }
+  rejectOtherUser(user, claimedUserId);
+  await requireOwnClasses(supabase, user, classIds);
+
+  const userId = user.id;
+  console.log('Creating demo posts for user:', userId, 'with classes:', classIds);
+
+  // Study photo prompts
+  const photoPrompts = [
+    "A cozy study desk setup with laptop, coffee cup, textbooks, and warm desk lamp lighting. Modern minimalist aesthetic, natural wood desk, plants in background. High quality, photorealistic.",
+    "A library study table with highlighters, open textbooks, notebook with handwritten notes, and a macbook. Soft natural lighting from window. Clean, organized study environment.",
+    "A colorful study setup with RGB keyboard, dual monitors showing code, energy drink, programming books, and sticky notes. Gaming chair, LED strip lights, dark room aesthetic.",
+    "A cafe study scene with matcha latte, open laptop, course notes, and a view of city through window. Warm afternoon lighting, bokeh background. Aesthetic study vibes.",
+    "A nighttime study desk with tablet, apple pencil, digital notes on screen, AirPods, and soft purple-blue ambient lighting. Modern tech setup, clean minimal desk.",
+    "A bright study corner with physics textbook open, calculator, graph paper with equations, pencils, and natural sunlight streaming in. Academic, organized workspace."
+  ];
+
+  const captions = [
+    "Finally understanding this topic 🧠✨ #studygrind",
+    "Late night study sesh but we're making progress 💪📚",
+    "Coffee + focus = productivity ☕️💯",
+    "When the concepts finally click 🎯 #studymode",
+    "My happy place 📖✨ Love this view!",
+    "Physics problems hitting different today 🔬💫"
+  ];
+
+  const createdPosts = [];
+
+  // Generate 6 demo posts
+  for (let i = 0; i < 6; i++) {
+    console.log(`Generating photo ${i + 1}/6...`);
+    
+    // Generate study photo
+    let photoUrl: string;
+    try {
+      photoUrl = await ai.generateImage(photoPrompts[i], { feature: 'create-demo-posts' });
+    } catch (error) {
+      // Rate limits and missing credits fail every later photo too, so they go to the client
+      if (error instanceof AIProviderError && (error.status === 429 || error.status === 402)) throw error;
+      console.error(`Image generation failed for photo ${i + 1}:`, error);
+      // Continue to next photo if image generation fails
+      continue;
+    }
+
+    // Random time in the past week
+    const daysAgo = Math.floor(Math.random() * 7);
+    const hoursAgo = Math.floor(Math.random() * 24);
+    const timestamp = new Date();
+    timestamp.setDate(timestamp.getDate() - daysAgo);
+    timestamp.setHours(timestamp.getHours() - hoursAgo);
+    
+    const minutesStudied = 30 + Math.floor(Math.random() * 90); // 30-120 minutes
+    const classId = classIds[i % classIds.length];
+
+    // Create study session
+    const { data: session, error: sessionError } = await supabase
+      .from('study_sessions')
+      .insert({
+        user_id: userId,
+        class_id: classId,
+        minutes_studied: minutesStudied,
+        started_at: new Date(timestamp.getTime() - minutesStudied * 60000).toISOString(),
+        completed_at: timestamp.toISOString(),
+        photo_url: photoUrl,
+        front_photo_url: photoUrl,
+        status: 'completed'
+      })
+      .select()
+      .single();
+
+    if (sessionError) {
+      console.error(`Error creating session ${i + 1}:`, JSON.stringify(sessionError, null, 2));
+      // Return detailed error if this is the first failure
+      if (i === 0) {
+        throw new Error(`Failed to create study session: ${sessionError.message || JSON.stringify(sessionError)}`);
+      }
+      continue;
+    }
+
+    // Create feed post
+    const { data: post, error: postError } = await supabase
+      .from('feed_posts')
+      .insert({
+        user_id: userId,
+        session_id: session.id,
+        class_id: classId,
+        photo_url: photoUrl,
+        front_photo_url: photoUrl,
+        minutes_studied: minutesStudied,
+        caption: captions[i],
+        visibility: 'everyone'
+      })
+      .select()
+      .single();
+
+    if (postError) {
+      console.error(`Error creating post ${i + 1}:`, JSON.stringify(postError, null, 2));
+      // Return detailed error if this is the first failure
+      if (i === 0) {
+        throw new Error(`Failed to create feed post: ${postError.message || JSON.stringify(postError)}`);
+      }
+      continue;
+    }
+
+    createdPosts.push(post);
+    console.log(`Created post ${i + 1}/6`);
+  }
+
+  console.log(`✅ Created ${createdPosts.length} demo posts`);
+
+  return jsonResponse({
+    success: true,
+    postsCreated: createdPosts.length
+  });
+});
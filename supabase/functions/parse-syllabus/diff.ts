@@ -0,0 +1,231 @@
+// Diffing of freshly parsed syllabus data against the rows already stored for a class.
+// Re-parsing a corrected syllabus must update what changed instead of inserting duplicates.
+
+// The model's 0–1 confidence in individual fields, keyed by field name. Only used to
+// point the student at fields worth checking in the draft; never stored.
+export type FieldConfidence = Partial<Record<string, number>>;
+
+export interface ParsedTopic {
+  title: string;
+  description?: string;
+  orderIndex?: number;
+  estimatedMinutes?: number;
+  confidence?: FieldConfidence;
+}
+
+export interface ParsedAssignment {
+  title: string;
+  dueDate?: string | null;
+  type?: string;
+  estimatedMinutes?: number;
+  // Grading category name and share of the final grade, in percent
+  category?: string | null;
+  weight?: number | null;
+  // Readings only: where the reading is, so its time can be estimated from page counts
+  textbook?: string | null;
+  chapter?: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  confidence?: FieldConfidence;
+}
+
+export interface ExistingTopic {
+  id: string;
+  title: string;
+  description: string | null;
+  order_index: number;
+  estimated_minutes: number;
+}
+
+export interface ExistingAssignment {
+  id: string;
+  title: string;
+  type: string | null;
+  due_date: string | null;
+  estimated_minutes: number;
+  category: string | null;
+  weight: number | null;
+  textbook: string | null;
+  chapter: string | null;
+  page_start: number | null;
+  page_end: number | null;
+}
+
+export interface TopicRow {
+  id: string | null;
+  title: string;
+  description: string;
+  order_index: number;
+  estimated_minutes: number;
+}
+
+export interface AssignmentRow {
+  id: string | null;
+  title: string;
+  type: string;
+  due_date: string | null;
+  estimated_minutes: number;
+  category: string | null;
+  weight: number | null;
+  textbook: string | null;
+  chapter: string | null;
+  page_start: number | null;
+  page_end: number | null;
+}
+
+export interface FieldChange {
+  field: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export interface ChangedItem {
+  id: string;
+  title: string;
+  changes: FieldChange[];
+}
+
+export interface EntityDiff<Row> {
+  added: Row[];
+  changed: ChangedItem[];
+  removed: { id: string; title: string }[];
+  unchanged: number;
+  // One row per incoming item, in incoming order, carrying the id of the matched existing row (if any)
+  rows: Row[];
+}
+
+export const normalizeTitle = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const compareFields = (
+  pairs: [string, string | number | null, string | number | null][]
+): FieldChange[] =>
+  pairs
+    .filter(([, from, to]) => (from ?? null) !== (to ?? null))
+    .map(([field, from, to]) => ({ field, from: from ?? null, to: to ?? null }));
+
+export function diffTopics(existing: ExistingTopic[], incoming: ParsedTopic[]): EntityDiff<TopicRow> {
+  const unmatched = new Map<string, ExistingTopic[]>();
+  for (const topic of existing) {
+    const key = normalizeTitle(topic.title);
+    unmatched.set(key, [...(unmatched.get(key) || []), topic]);
+  }
+
+  const diff: EntityDiff<TopicRow> = { added: [], changed: [], removed: [], unchanged: 0, rows: [] };
+
+  incoming.forEach((topic, index) => {
+    const row: TopicRow = {
+      id: null,
+      title: topic.title,
+      description: topic.description || '',
+      order_index: topic.orderIndex ?? index + 1,
+      estimated_minutes: topic.estimatedMinutes || 60,
+    };
+
+    const candidates = unmatched.get(normalizeTitle(topic.title));
+    const match = candidates?.shift();
+
+    if (!match) {
+      diff.added.push(row);
+      diff.rows.push(row);
+      return;
+    }
+
+    row.id = match.id;
+    const changes = compareFields([
+      ['title', match.title, row.title],
+      ['description', match.description || '', row.description],
+      ['order_index', match.order_index, row.order_index],
+      ['estimated_minutes', match.estimated_minutes, row.estimated_minutes],
+    ]);
+
+    if (changes.length > 0) {
+      diff.changed.push({ id: match.id, title: row.title, changes });
+    } else {
+      diff.unchanged++;
+    }
+    diff.rows.push(row);
+  });
+
+  for (const leftovers of unmatched.values()) {
+    diff.removed.push(...leftovers.map((t) => ({ id: t.id, title: t.title })));
+  }
+
+  return diff;
+}
+
+export function diffAssignments(
+  existing: ExistingAssignment[],
+  incoming: ParsedAssignment[]
+): EntityDiff<AssignmentRow> {
+  const remaining = [...existing];
+  const takeMatch = (predicate: (a: ExistingAssignment) => boolean) => {
+    const index = remaining.findIndex(predicate);
+    return index === -1 ? null : remaining.splice(index, 1)[0];
+  };
+
+  const rows: AssignmentRow[] = incoming.map((a) => ({
+    id: null,
+    title: a.title,
+    type: a.type || 'reading',
+    due_date: a.dueDate || null,
+    estimated_minutes: a.estimatedMinutes || 60,
+    category: a.category ?? null,
+    weight: a.weight ?? null,
+    textbook: a.textbook ?? null,
+    chapter: a.chapter ?? null,
+    page_start: a.pageStart ?? null,
+    page_end: a.pageEnd ?? null,
+  }));
+
+  // First pass: same title and same due date. Second pass: same title, due date moved.
+  const matches = new Map<number, ExistingAssignment>();
+  rows.forEach((row, index) => {
+    const match = takeMatch(
+      (a) => normalizeTitle(a.title) === normalizeTitle(row.title) && a.due_date === row.due_date
+    );
+    if (match) matches.set(index, match);
+  });
+  rows.forEach((row, index) => {
+    if (matches.has(index)) return;
+    const match = takeMatch((a) => normalizeTitle(a.title) === normalizeTitle(row.title));
+    if (match) matches.set(index, match);
+  });
+
+  const diff: EntityDiff<AssignmentRow> = { added: [], changed: [], removed: [], unchanged: 0, rows };
+
+  rows.forEach((row, index) => {
+    const match = matches.get(index);
+    if (!match) {
+      diff.added.push(row);
+      return;
+    }
+
+    row.id = match.id;
+    const changes = compareFields([
+      ['title', match.title, row.title],
+      ['type', match.type, row.type],
+      ['due_date', match.due_date, row.due_date],
+      ['estimated_minutes', match.estimated_minutes, row.estimated_minutes],
+      ['category', match.category, row.category],
+      ['weight', match.weight, row.weight],
+      ['textbook', match.textbook, row.textbook],
+      ['chapter', match.chapter, row.chapter],
+      ['page_start', match.page_start, row.page_start],
+      ['page_end', match.page_end, row.page_end],
+    ]);
+
+    if (changes.length > 0) {
+      diff.changed.push({ id: match.id, title: row.title, changes });
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  diff.removed = remaining.map((a) => ({ id: a.id, title: a.title }));
+
+  return diff;
+}
@@ -0,0 +1,160 @@
+// Turns an uploaded syllabus into something the model can read. PDFs and photos are
+// sent as files; DOCX, HTML and plain-text syllabi are reduced to their text first,
+// since the vision endpoint only understands PDFs and images.
+
+import { unzipSync } from 'https://esm.sh/fflate@0.8.2';
+
+export type SyllabusFormat = 'pdf' | 'docx' | 'html' | 'text' | 'jpeg' | 'png';
+
+export type SyllabusContent =
+  | { kind: 'file'; format: SyllabusFormat; mimeType: string; base64: string }
+  | { kind: 'text'; format: SyllabusFormat; text: string };
+
+// Long syllabi are cut here; the schedule and grading sections are rarely past this point
+const MAX_TEXT_LENGTH = 200_000;
+
+const EXTENSION_FORMATS: Record<string, SyllabusFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  md: 'text',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  png: 'png',
+};
+
+const MIME_FORMATS: Record<string, SyllabusFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+// The file's own bytes win over its name and stored content type, which are easy to get wrong
+export function detectFormat(bytes: Uint8Array, path: string, contentType?: string | null): SyllabusFormat {
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return 'pdf'; // %PDF
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'png';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'docx'; // ZIP container
+
+  const extension = path.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+  // Binary formats were ruled out above, so only the text formats are taken from the name
+  const named = EXTENSION_FORMATS[extension] ?? MIME_FORMATS[mimeType];
+  if (named === 'html' || named === 'text') return named;
+
+  // An LMS page saved without an extension still reads as HTML; anything else as plain text
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024)).trimStart().toLowerCase();
+  return head.startsWith('<!doctype html') || head.startsWith('<html') ? 'html' : 'text';
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// Collapses runs of spaces and blank lines left behind by removed markup
+const tidyText = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.replace(/[ \u00a0]+/g, ' ').replace(/ ?\t[\t ]*/g, '\t').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    // Table cells stay on one line so a schedule row ("Week 3 | Mon | Quiz 1") keeps together
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|header|footer|tr|table|ul|ol|h[1-6]|blockquote|pre)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+  return tidyText(decodeEntities(text));
+}
+
+// Word keeps the body text in word/document.xml: <w:t> runs inside <w:p> paragraphs
+export function docxToText(bytes: Uint8Array): string {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' });
+  } catch {
+    throw new Error('The uploaded file is not a valid DOCX document');
+  }
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) {
+    throw new Error('The uploaded file is not a Word document. Please upload a PDF, DOCX, HTML, text file or photo.');
+  }
+
+  const xml = new TextDecoder().decode(documentXml);
+  const text = xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(br|cr)\/>/g, '\n')
+    .replace(/<\/w:tc>/g, '\t')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return tidyText(decodeEntities(text));
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  // Process in chunks to avoid stack overflow
+  let binaryString = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binaryString += String.fromCharCode.apply(null, Array.from(chunk));
+  }
+  return btoa(binaryString);
+}
+
+export function extractContent(bytes: Uint8Array, path: string, contentType?: string | null): SyllabusContent {
+  const format = detectFormat(bytes, path, contentType);
+
+  if (format === 'pdf' || format === 'jpeg' || format === 'png') {
+    const mimeType = format === 'pdf' ? 'application/pdf' : `image/${format}`;
+    return { kind: 'file', format, mimeType, base64: toBase64(bytes) };
+  }
+
+  let text: string;
+  if (format === 'docx') {
+    text = docxToText(bytes);
+  } else {
+    const raw = new TextDecoder().decode(bytes);
+    text = format === 'html' ? htmlToText(raw) : raw.trim();
+  }
+
+  if (!text) {
+    throw new Error('No text was found in the uploaded syllabus');
+  }
+  return { kind: 'text', format, text: text.slice(0, MAX_TEXT_LENGTH) };
+}
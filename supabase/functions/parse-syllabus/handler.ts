@@ -0,0 +1,656 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { diffAssignments, diffTopics } from './diff.ts';
+import { extractContent, SyllabusContent, SyllabusFormat } from './extract.ts';
+import {
+  extractJson,
+  formatIssues,
+  ParsedSyllabus,
+  ValidationResult,
+  validateSyllabus,
+} from './schema.ts';
+import { BusyBlock, budgetFromProfile, scheduleStudyBlocks } from '../_shared/scheduler.ts';
+import { generateMeetingBlocks, MeetingKind, studyFreeRanges, TermException } from '../_shared/meetings.ts';
+import { resolveTimeZone, ZonedDateTime, zonedNow } from '../_shared/dates.ts';
+import { estimateReadings, resolveReadingSpeed } from '../_shared/reading.ts';
+import { AIProvider, ChatMessage, getAIProvider } from '../_shared/ai.ts';
+import { BlockKind, isStudyKind, plannedBlockKind } from '../_shared/blockKinds.ts';
+import { blocksOverlap, TimedBlock } from '../_shared/conflicts.ts';
+import { difficultyFactor, scaleMinutes } from '../_shared/difficulty.ts';
+import { HttpError, jsonResponse, rejectOtherUser, requireOwnClass, withAuth } from '../_shared/http.ts';
+
+interface PlannedBlock {
+  blockDate: string;
+  startTime: string;
+  durationMinutes: number;
+  kind: BlockKind;
+  assignmentIndex?: number | null;
+  meetingKind?: MeetingKind | null;
+  location?: string | null;
+}
+
+interface CalendarBlockRow {
+  id: string;
+  class_id: string;
+  source: string;
+  kind: string;
+  attendance: string | null;
+  block_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+}
+
+type ParseMode = 'apply' | 'preview';
+
+async function downloadSyllabus(supabase: SupabaseClient, syllabusUrl: string): Promise<SyllabusContent> {
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('syllabi')
+    .download(syllabusUrl);
+
+  if (downloadError) {
+    console.error('Error downloading file:', downloadError);
+    throw new Error(`Failed to download file: ${downloadError.message}`);
+  }
+
+  const bytes = new Uint8Array(await fileData.arrayBuffer());
+  const content = extractContent(bytes, syllabusUrl, fileData.type);
+  console.log(`Syllabus read as ${content.format} (${content.kind})`);
+  return content;
+}
+
+function parseAndValidate(contentText: string): ValidationResult<ParsedSyllabus> {
+  let raw: unknown;
+  try {
+    raw = extractJson(contentText);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { ok: false, issues: [{ path: '', message: `is not valid JSON (${message})` }] };
+  }
+  return validateSyllabus(raw);
+}
+
+const SOURCE_DESCRIPTIONS: Record<SyllabusFormat, string> = {
+  pdf: 'PDF',
+  docx: 'text (extracted from a Word document)',
+  html: 'text (extracted from a web page)',
+  text: 'text',
+  jpeg: 'photo',
+  png: 'image',
+};
+
+async function extractSyllabus(ai: AIProvider, syllabus: SyllabusContent, weekdayHours: number): Promise<ParsedSyllabus> {
+  console.log(`Calling the ${ai.name} AI provider to parse syllabus...`);
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You are a syllabus parser. Extract class schedule, topics, and assignments with time estimates.
+
+Return ONLY valid JSON in this exact format (no markdown):
+{
+  "schedule": {
+    "startDate": "2025-01-15",
+    "endDate": "2025-05-15",
+    "meetings": [
+      {"kind": "lecture", "days": ["Monday", "Wednesday", "Friday"], "startTime": "10:00", "endTime": "11:00", "location": "Hall 101"},
+      {"kind": "lab", "days": ["Thursday"], "startTime": "14:00", "endTime": "16:50", "location": "Science Bldg 210"}
+    ]
+  },
+  "topics": [
+    {"title": "Week 1: Introduction", "description": "Overview", "orderIndex": 1, "estimatedMinutes": 60, "confidence": {"title": 0.95, "estimatedMinutes": 0.6}}
+  ],
+  "assignments": [
+    {"title": "Read Chapter 3: Cells", "dueDate": "2025-02-03", "type": "reading", "textbook": "Campbell Biology", "chapter": "3", "pageStart": 45, "pageEnd": 72, "category": null, "weight": null, "confidence": {"title": 0.9, "dueDate": 0.8, "type": 0.95}},
+    {"title": "Problem Set 1", "dueDate": "2025-03-15", "type": "hw", "estimatedMinutes": 120, "category": "Homework", "weight": null, "confidence": {"title": 0.9, "dueDate": 0.5, "type": 0.9, "estimatedMinutes": 0.6}},
+    {"title": "Midterm Exam", "dueDate": "2025-03-20", "type": "exam", "estimatedMinutes": 300, "category": "Exams", "weight": 25, "confidence": {"title": 0.95, "dueDate": 0.95, "type": 0.95, "estimatedMinutes": 0.7}}
+  ],
+  "gradingCategories": [
+    {"name": "Homework", "weight": 30},
+    {"name": "Exams", "weight": 50},
+    {"name": "Participation", "weight": 20}
+  ],
+  "exceptions": [
+    {"name": "Spring Break", "kind": "break", "startDate": "2025-03-10", "endDate": "2025-03-14"},
+    {"name": "Presidents' Day", "kind": "holiday", "startDate": "2025-02-17"},
+    {"name": "No lab this week", "kind": "cancelled", "startDate": "2025-02-06"}
+  ]
+}
+
+Input:
+- The syllabus may be a PDF, a photo or screenshot of a printed page, or plain text extracted from a Word document or LMS web page
+- In extracted text, table rows are flattened onto one line with cells separated by tabs
+- Ignore site navigation, headers and footers that are not part of the course content
+
+Schedule extraction:
+- List every recurring meeting pattern separately: lectures, labs, recitations/discussion sections and office hours
+- Meeting kinds: "lecture", "lab", "recitation", "office_hours"
+- Look for meeting times (e.g., "MWF 10:00-11:00", "Lab: Thursdays 2:00-4:50 PM", "Office hours Tue 3-4pm")
+- Extract days of week: Monday, Tuesday, Wednesday, Thursday, Friday, Saturday, Sunday
+- Extract start and end times in 24-hour format (HH:mm)
+- Include the room or location of each meeting if given, otherwise omit it
+- Extract semester/term start and end dates if available
+- If no meeting times are found, set schedule to null
+
+Academic calendar exceptions:
+- List holidays, breaks and cancelled class dates mentioned anywhere in the syllabus
+- Exception kinds: "holiday" (single day off), "break" (multi-day break), "cancelled" (a class meeting that does not happen)
+- Omit endDate for single days; return an empty array if there are none
+
+Reading list:
+- List every assigned reading as an assignment of type "reading", one per chapter or page range
+- Give the textbook title, the chapter (as written, e.g. "3" or "3.2") and the first and last page (pageStart, pageEnd) whenever the syllabus states them; use null for anything not stated
+- Reading time is calculated from the page range, so estimatedMinutes only matters for readings without pages
+
+Time estimates:
+- Reading without a page range: 30-90 min
+- Homework: 90-180 min
+- Project: 300-600 min
+- Exam prep: 180-360 min
+
+Grading breakdown:
+- List every grading category with its percentage of the final grade (e.g. "Homework 30%")
+- Give each assignment the category it belongs to, using the category names exactly as listed
+- Set an assignment's weight only when the syllabus states that item's own percentage (e.g. "Midterm 25%"); otherwise use null
+- Return an empty array if there is no grading breakdown
+
+Confidence:
+- For every topic and assignment, rate how sure you are of each field from 0 to 1
+- Use a low score when a value is guessed or inferred (e.g. a due date worked out from "week 5", a type guessed from the title, or any time estimate not stated in the syllabus)
+
+Assignment types: "reading", "hw", "project", "exam"
+Adjust estimates based on weekday hours preference: ${weekdayHours}h/day`,
+    },
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: `Parse this syllabus ${SOURCE_DESCRIPTIONS[syllabus.format]} and extract the class meeting schedule, all topics/lessons, assignments with time estimates, and the grading breakdown. Pay special attention to finding when the class meets (days and times of lectures, labs, recitations and office hours).`
+        },
+        syllabus.kind === 'file'
+          ? {
+              type: 'image_url',
+              image_url: {
+                url: `data:${syllabus.mimeType};base64,${syllabus.base64}`
+              }
+            }
+          : {
+              type: 'text',
+              text: syllabus.text
+            }
+      ]
+    },
+  ];
+
+  const contentText = await ai.chat(messages, { feature: 'parse-syllabus', json: true });
+  console.log('AI response:', contentText);
+
+  const result = parseAndValidate(contentText);
+  if (result.ok) return result.value;
+
+  // Give the model one chance to fix its own output, pointing at the exact fields
+  console.warn('Syllabus payload failed validation, asking for a repair:\n' + formatIssues(result.issues));
+  const repairedText = await ai.chat([
+    ...messages,
+    { role: 'assistant', content: contentText },
+    {
+      role: 'user',
+      content: `Your JSON did not match the required format:\n${formatIssues(result.issues)}\n\nReturn the corrected JSON only, in the exact format described above. Use YYYY-MM-DD dates, 24-hour HH:mm times and only the assignment types "reading", "hw", "project" or "exam". Drop entries you cannot fix.`,
+    },
+  ], { feature: 'parse-syllabus', json: true });
+  console.log('AI repair response:', repairedText);
+
+  const repaired = parseAndValidate(repairedText);
+  if (repaired.ok) return repaired.value;
+
+  throw new Error(`AI returned an invalid syllabus format:\n${formatIssues(repaired.issues, 5)}`);
+}
+
+// Exceptions the student entered for this class or for all of their classes
+async function loadUserExceptions(supabase: SupabaseClient, classId: string, userId: string): Promise<TermException[]> {
+  const { data, error } = await supabase
+    .from('term_exceptions')
+    .select('name, kind, start_date, end_date')
+    .eq('user_id', userId)
+    .eq('source', 'user')
+    .or(`class_id.eq.${classId},class_id.is.null`);
+
+  if (error) throw new Error(`Failed to load term exceptions: ${error.message}`);
+
+  return (data || []).map((e: { name: string; kind: TermException['kind']; start_date: string; end_date: string }) => ({
+    name: e.name,
+    kind: e.kind,
+    startDate: e.start_date,
+    endDate: e.end_date,
+  }));
+}
+
+interface StudyProfile {
+  weekday_study_range: string | null;
+  weekend_study_range: string | null;
+  earliest_study_time: string | null;
+  latest_study_time: string | null;
+  timezone: string | null;
+  reading_minutes_per_page: number | null;
+}
+
+async function loadStudyProfile(supabase: SupabaseClient, userId: string): Promise<StudyProfile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('weekday_study_range, weekend_study_range, earliest_study_time, latest_study_time, timezone, reading_minutes_per_page')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load profile: ${error.message}`);
+  return data;
+}
+
+// Everything on the student's calendar from today on, except this class's syllabus
+// blocks, which are about to be regenerated
+async function loadOtherBlocks(supabase: SupabaseClient, classId: string, userId: string, today: string) {
+  const { data, error } = await supabase
+    .from('study_blocks')
+    .select('id, class_id, source, kind, attendance, block_date, start_time, duration_minutes')
+    .eq('user_id', userId)
+    .gte('block_date', today);
+
+  if (error) throw new Error(`Failed to load study blocks: ${error.message}`);
+
+  return ((data || []) as CalendarBlockRow[]).filter((b) => !(b.class_id === classId && b.source === 'syllabus'));
+}
+
+const toTimedBlock = (b: CalendarBlockRow): TimedBlock => ({
+  id: b.id,
+  blockDate: b.block_date,
+  startTime: b.start_time,
+  durationMinutes: b.duration_minutes,
+  kind: b.kind,
+  attendance: b.attendance,
+});
+
+// New class meetings that clash with something already on the calendar, such as another
+// class's meeting or an imported event. They are still added; the student sees the count.
+function countMeetingConflicts(classMeetingBlocks: PlannedBlock[], otherBlocks: CalendarBlockRow[]) {
+  const others = otherBlocks.map(toTimedBlock);
+  return classMeetingBlocks.filter((block, index) => {
+    const meeting: TimedBlock = { id: `new-${index}`, ...block };
+    return others.some((other) => blocksOverlap(meeting, other));
+  }).length;
+}
+
+// Packs study sessions for the class's assignments around everything already on the
+// student's calendar, using the budgets from their profile. Estimates are scaled by the
+// class's difficulty, and each class gets a share of the day by its difficulty. `clock`
+// is the current date and time in the student's timezone.
+function generateStudyPlan(
+  classId: string,
+  profile: StudyProfile | null,
+  clock: ZonedDateTime,
+  assignments: ParsedSyllabus['assignments'],
+  classMeetingBlocks: PlannedBlock[],
+  otherBlocks: CalendarBlockRow[],
+  exceptions: TermException[],
+  difficulties: Map<string, string | null>
+): PlannedBlock[] {
+  if (assignments.length === 0) return [];
+
+  console.log('Scheduling study blocks for assignments...');
+
+  // A cancelled meeting frees its time
+  const busy: BusyBlock[] = otherBlocks
+    .filter((b) => b.attendance !== 'cancelled')
+    .map((b) => ({
+      blockDate: b.block_date,
+      startTime: b.start_time,
+      durationMinutes: b.duration_minutes,
+      countsTowardBudget: isStudyKind(b.kind),
+      classId: b.class_id,
+    }));
+
+  busy.push(...classMeetingBlocks.map((b) => ({
+    blockDate: b.blockDate,
+    startTime: b.startTime,
+    durationMinutes: b.durationMinutes,
+  })));
+
+  const { blocks, unscheduled } = scheduleStudyBlocks(
+    assignments.map((a) => ({
+      dueDate: a.dueDate ?? null,
+      estimatedMinutes: scaleMinutes(a.estimatedMinutes || 60, difficulties.get(classId)),
+      weight: a.weight ?? null,
+      classId,
+      blockedDates: studyFreeRanges(exceptions),
+    })),
+    busy,
+    budgetFromProfile(profile),
+    {
+      today: clock.date,
+      now: clock.time,
+      classShares: Object.fromEntries([...difficulties].map(([id, difficulty]) => [id, difficultyFactor(difficulty)])),
+    }
+  );
+
+  if (unscheduled.length > 0) {
+    console.warn('Could not fit all assignment work before its deadline:', unscheduled);
+  }
+
+  return blocks.map((block) => ({ ...block, kind: plannedBlockKind(assignments[block.assignmentIndex].type) }));
+}
+
+// Count the class's regenerable blocks and how many of them must be kept because
+// a study session or pinky promise already points at them
+async function summarizeExistingBlocks(supabase: SupabaseClient, classId: string, userId: string, today: string) {
+  const { data: blocks, error } = await supabase
+    .from('study_blocks')
+    .select('id')
+    .eq('class_id', classId)
+    .eq('user_id', userId)
+    .eq('source', 'syllabus')
+    .gte('block_date', today);
+
+  if (error) throw new Error(`Failed to load study blocks: ${error.message}`);
+
+  const blockIds = (blocks || []).map((b: { id: string }) => b.id);
+  if (blockIds.length === 0) return { existing: 0, preserved: 0 };
+
+  const [{ data: sessions }, { data: promises }] = await Promise.all([
+    supabase.from('study_sessions').select('block_id').in('block_id', blockIds),
+    supabase.from('pinky_promises').select('block_id').in('block_id', blockIds),
+  ]);
+
+  const attached = new Set([
+    ...(sessions || []).map((s: { block_id: string }) => s.block_id),
+    ...(promises || []).map((p: { block_id: string }) => p.block_id),
+  ]);
+
+  return { existing: blockIds.length, preserved: attached.size };
+}
+
+type JobStatus = 'queued' | 'downloading' | 'extracting' | 'scheduling' | 'done' | 'failed';
+
+interface ParseRequest {
+  jobId: string;
+  syllabusUrl?: string;
+  classId: string;
+  userId: string;
+  weekdayHours?: number;
+  mode: ParseMode;
+  parsed?: ParsedSyllabus;
+}
+
+// Supabase edge runtime hook for work that continues after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+async function updateJob(supabase: SupabaseClient, jobId: string, fields: Record<string, unknown>) {
+  const { error } = await supabase.from('parse_jobs').update(fields).eq('id', jobId);
+  if (error) {
+    console.error(`Failed to update parse job ${jobId}:`, error);
+  }
+}
+
+async function runParse(supabase: SupabaseClient, ai: AIProvider, request: ParseRequest) {
+  const { jobId, syllabusUrl, classId, userId, weekdayHours, mode } = request;
+  const setStatus = (status: JobStatus) => updateJob(supabase, jobId, { status });
+
+  console.log('Processing syllabus:', { jobId, syllabusUrl, classId, userId, mode, reusingParsed: !!request.parsed });
+
+  const profile = await loadStudyProfile(supabase, userId);
+
+  // A previewed parse is sent back unchanged on confirm, so the AI is not called twice
+  let parsed: ParsedSyllabus;
+  if (request.parsed) {
+    parsed = request.parsed;
+  } else {
+    await setStatus('downloading');
+    const syllabus = await downloadSyllabus(supabase, syllabusUrl!);
+
+    await setStatus('extracting');
+    const extracted = await extractSyllabus(ai, syllabus, weekdayHours ?? 2);
+
+    // Readings with page ranges are timed at the student's own reading speed
+    const minutesPerPage = resolveReadingSpeed(profile?.reading_minutes_per_page);
+    parsed = { ...extracted, assignments: estimateReadings(extracted.assignments, minutesPerPage) };
+  }
+
+  await setStatus('scheduling');
+
+  const { schedule = null, topics = [], assignments = [] } = parsed;
+
+  console.log(`Parsed schedule:`, schedule);
+  console.log(`Parsed ${topics.length} topics and ${assignments.length} assignments`);
+
+  // Compare against what is already stored for this class
+  const [{ data: existingTopics, error: topicsError }, { data: existingAssignments, error: assignmentsError }] =
+    await Promise.all([
+      supabase
+        .from('syllabus_topics')
+        .select('id, title, description, order_index, estimated_minutes')
+        .eq('class_id', classId),
+      supabase
+        .from('syllabus_assignments')
+        .select('id, title, type, due_date, estimated_minutes, category, weight, textbook, chapter, page_start, page_end')
+        .eq('class_id', classId),
+    ]);
+
+  if (topicsError) throw new Error(`Failed to load existing topics: ${topicsError.message}`);
+  if (assignmentsError) throw new Error(`Failed to load existing assignments: ${assignmentsError.message}`);
+
+  const topicDiff = diffTopics(existingTopics || [], topics);
+  const assignmentDiff = diffAssignments(existingAssignments || [], assignments);
+
+  const { data: classes, error: classesError } = await supabase
+    .from('classes')
+    .select('id, difficulty')
+    .eq('user_id', userId);
+  if (classesError) throw new Error(`Failed to load classes: ${classesError.message}`);
+  const difficulties = new Map<string, string | null>((classes || []).map((c) => [c.id, c.difficulty]));
+
+  // Calculate total estimated minutes for a class of this difficulty
+  const totalMinutes = scaleMinutes(
+    topics.reduce((sum, t) => sum + (t.estimatedMinutes || 0), 0) +
+      assignments.reduce((sum, a) => sum + (a.estimatedMinutes || 0), 0),
+    difficulties.get(classId)
+  );
+
+  // "Today" and "now" are taken in the student's timezone, not the server's
+  const clock = zonedNow(resolveTimeZone(profile?.timezone));
+
+  // Holidays and breaks from the syllabus plus the ones the student added themselves
+  const exceptions = [...parsed.exceptions, ...(await loadUserExceptions(supabase, classId, userId))];
+  const classMeetingBlocks: PlannedBlock[] = generateMeetingBlocks(schedule, exceptions).map((block) => ({
+    ...block,
+    kind: 'class_meeting',
+    assignmentIndex: null,
+  }));
+  console.log(`Generated ${classMeetingBlocks.length} class meeting blocks (${exceptions.length} term exceptions)`);
+
+  const otherBlocks = await loadOtherBlocks(supabase, classId, userId, clock.date);
+  const meetingConflicts = countMeetingConflicts(classMeetingBlocks, otherBlocks);
+  if (meetingConflicts > 0) {
+    console.warn(`${meetingConflicts} class meetings overlap other blocks on the calendar`);
+  }
+
+  const assignmentStudyBlocks = generateStudyPlan(
+    classId,
+    profile,
+    clock,
+    assignments,
+    classMeetingBlocks,
+    otherBlocks,
+    exceptions,
+    difficulties
+  );
+  const allStudyBlocks = [...classMeetingBlocks, ...assignmentStudyBlocks].map((block) => ({
+    block_date: block.blockDate,
+    start_time: block.startTime,
+    duration_minutes: block.durationMinutes,
+    assignment_index: block.assignmentIndex ?? null,
+    kind: block.kind,
+    meeting_kind: block.meetingKind ?? null,
+    location: block.location ?? null,
+  }));
+
+  const blockSummary = await summarizeExistingBlocks(supabase, classId, userId, clock.date);
+
+  const diff = {
+    topics: {
+      added: topicDiff.added.map((t) => t.title),
+      changed: topicDiff.changed,
+      removed: topicDiff.removed.map((t) => t.title),
+      unchanged: topicDiff.unchanged,
+    },
+    assignments: {
+      added: assignmentDiff.added.map((a) => a.title),
+      changed: assignmentDiff.changed,
+      removed: assignmentDiff.removed.map((a) => a.title),
+      unchanged: assignmentDiff.unchanged,
+    },
+    blocks: {
+      added: allStudyBlocks.length,
+      removed: blockSummary.existing - blockSummary.preserved,
+      preserved: blockSummary.preserved,
+      conflicts: meetingConflicts,
+    },
+  };
+
+  const counts = {
+    topics_count: topics.length,
+    assignments_count: assignments.length,
+    blocks_count: allStudyBlocks.length,
+  };
+
+  if (mode === 'preview') {
+    console.log('Preview only, nothing written');
+    return { ...counts, result: { parsed, diff } };
+  }
+
+  // Apply topics, assignments and blocks in one transaction
+  const { data: applied, error: applyError } = await supabase.rpc('apply_syllabus_diff', {
+    p_class_id: classId,
+    p_user_id: userId,
+    p_topics: topicDiff.rows,
+    p_removed_topic_ids: topicDiff.removed.map((t) => t.id),
+    p_assignments: assignmentDiff.rows,
+    p_removed_assignment_ids: assignmentDiff.removed.map((a) => a.id),
+    p_blocks: allStudyBlocks,
+    p_total_minutes: totalMinutes,
+    p_schedule: schedule,
+    p_exceptions: parsed.exceptions.map((e) => ({
+      name: e.name,
+      kind: e.kind,
+      start_date: e.startDate,
+      end_date: e.endDate,
+    })),
+    p_grading_categories: parsed.gradingCategories,
+  });
+
+  if (applyError) {
+    console.error('Error applying syllabus diff:', applyError);
+    throw new Error(`Failed to save syllabus: ${applyError.message}`);
+  }
+
+  console.log(`Applied syllabus diff (${classMeetingBlocks.length} class meetings, ${assignmentStudyBlocks.length} assignment blocks):`, applied);
+
+  return {
+    ...counts,
+    blocks_count: applied?.blocksInserted ?? allStudyBlocks.length,
+    result: {
+      diff,
+      totalMinutes,
+      classMeetingBlocksCount: classMeetingBlocks.length,
+      assignmentBlocksCount: assignmentStudyBlocks.length,
+    },
+  };
+}
+
+async function runJob(supabase: SupabaseClient, ai: AIProvider, request: ParseRequest) {
+  try {
+    const outcome = await runParse(supabase, ai, request);
+    await updateJob(supabase, request.jobId, {
+      ...outcome,
+      status: 'done',
+      finished_at: new Date().toISOString(),
+    });
+    console.log('✅ Syllabus parsing complete');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error in parse-syllabus job:', errorMessage);
+    console.error('Error details:', error instanceof Error ? error.stack : String(error));
+
+    await updateJob(supabase, request.jobId, {
+      status: 'failed',
+      error: errorMessage,
+      finished_at: new Date().toISOString(),
+    });
+  }
+}
+
+export const handler = withAuth('parse-syllabus', async (req, { user, supabase }) => {
+  const ai = getAIProvider();
+
+  const {
+    syllabusUrl,
+    classId,
+    userId: claimedUserId,
+    weekdayHours,
+    mode = 'apply',
+    parsed,
+  }: {
+    syllabusUrl?: string;
+    classId?: string;
+    userId?: string;
+    weekdayHours?: number;
+    mode?: ParseMode;
+    parsed?: unknown;
+  } = await req.json();
+
+  if ((!syllabusUrl && !parsed) || !classId) {
+    throw new HttpError('Missing required parameters: syllabusUrl or classId', 400);
+  }
+  rejectOtherUser(user, claimedUserId);
+  await requireOwnClass(supabase, user, classId);
+
+  // Uploads live under the owner's folder in the syllabi bucket
+  if (syllabusUrl && !syllabusUrl.startsWith(`${user.id}/`)) {
+    throw new HttpError('You do not have access to this syllabus', 403);
+  }
+
+  // A confirmed preview comes back from the client, so it is validated like model output
+  let validatedParsed: ParsedSyllabus | undefined;
+  if (parsed) {
+    const validation = validateSyllabus(parsed);
+    if (!validation.ok) {
+      return jsonResponse({ success: false, error: 'Invalid syllabus data', issues: validation.issues }, 400);
+    }
+    validatedParsed = validation.value;
+  }
+
+  // Enqueue the job; the client follows its progress through the parse_jobs row
+  const { data: job, error: jobError } = await supabase
+    .from('parse_jobs')
+    .insert({ user_id: user.id, class_id: classId, mode, status: 'queued' })
+    .select('id')
+    .single();
+
+  if (jobError) {
+    throw new Error(`Failed to create parse job: ${jobError.message}`);
+  }
+
+  const work = runJob(supabase, ai, {
+    jobId: job.id,
+    syllabusUrl,
+    classId,
+    userId: user.id,
+    weekdayHours,
+    mode,
+    parsed: validatedParsed,
+  });
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(work);
+  } else {
+    await work;
+  }
+
+  return jsonResponse({ success: true, jobId: job.id }, 202);
+});
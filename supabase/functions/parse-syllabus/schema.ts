@@ -0,0 +1,567 @@
+// Strict schema for the syllabus payload returned by the model (or sent back by the
+// client when confirming a preview). Everything is validated and normalized here
+// before it reaches the diff or the database.
+
+import { FieldConfidence, normalizeTitle, ParsedAssignment, ParsedTopic } from './diff.ts';
+import { ClassMeeting, ExceptionKind, MeetingKind, MeetingSchedule, TermException } from '../_shared/meetings.ts';
+import { normalizeDate, normalizeTime } from '../_shared/dateText.ts';
+
+export type AssignmentType = 'reading' | 'hw' | 'project' | 'exam';
+
+// A line of the grading breakdown, e.g. "Homework 30%"
+export interface GradingCategory {
+  name: string;
+  weight: number;
+}
+
+export interface ParsedSyllabus {
+  schedule: MeetingSchedule | null;
+  topics: ParsedTopic[];
+  assignments: ParsedAssignment[];
+  exceptions: TermException[];
+  gradingCategories: GradingCategory[];
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Abbreviations used in syllabi ("MWF", "Tu/Th", "R" for Thursday)
+const DAY_ALIASES: Record<string, string> = {
+  su: 'Sunday', sun: 'Sunday', u: 'Sunday',
+  m: 'Monday', mo: 'Monday', mon: 'Monday',
+  t: 'Tuesday', tu: 'Tuesday', tue: 'Tuesday', tues: 'Tuesday',
+  w: 'Wednesday', we: 'Wednesday', wed: 'Wednesday',
+  r: 'Thursday', th: 'Thursday', thu: 'Thursday', thur: 'Thursday', thurs: 'Thursday',
+  f: 'Friday', fr: 'Friday', fri: 'Friday',
+  s: 'Saturday', sa: 'Saturday', sat: 'Saturday',
+};
+
+// Free-form assignment kinds mapped onto the syllabus_assignments.type check constraint
+const TYPE_ALIASES: [RegExp, AssignmentType][] = [
+  [/^(reading|read|readings|chapter|chapters|textbook)$/, 'reading'],
+  [/^(hw|homework|assignment|problem set|pset|problem sets|exercise|exercises|worksheet|lab|lab report)$/, 'hw'],
+  [/^(project|paper|essay|report|presentation|final project|term paper|portfolio)$/, 'project'],
+  [/^(exam|midterm|final|final exam|quiz|test|assessment)$/, 'exam'],
+];
+
+const MEETING_KIND_ALIASES: [RegExp, MeetingKind][] = [
+  [/^(lecture|lectures|class|seminar|lec)$/, 'lecture'],
+  [/^(lab|labs|laboratory|studio|practicum)$/, 'lab'],
+  [/^(recitation|discussion|section|tutorial|rec|dis)$/, 'recitation'],
+  [/^(office hours|office hour|oh|student hours)$/, 'office_hours'],
+];
+
+const EXCEPTION_KIND_ALIASES: [RegExp, ExceptionKind][] = [
+  [/^(holiday|no class|no classes|day off)$/, 'holiday'],
+  [/^(break|spring break|fall break|winter break|thanksgiving break|reading week|recess|vacation)$/, 'break'],
+  [/^(cancelled|canceled|class cancelled|class canceled|no lecture)$/, 'cancelled'],
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Splits "MWF", "Tu/Th", "Mon, Wed" or a list of names into full weekday names
+export function normalizeDays(value: unknown): string[] | null {
+  const tokens: string[] = [];
+  const parts = Array.isArray(value) ? value : typeof value === 'string' ? [value] : null;
+  if (!parts) return null;
+
+  for (const part of parts) {
+    if (typeof part !== 'string') return null;
+    for (const word of part.split(/[\s,/&]+|\band\b/i).filter(Boolean)) {
+      const lower = word.toLowerCase();
+      const full = DAY_NAMES.find((d) => d.toLowerCase() === lower) || DAY_ALIASES[lower];
+      if (full) {
+        tokens.push(full);
+        continue;
+      }
+      // Run-together letters such as "MWF" or "TTh"
+      const letters = word.match(/Th|Tu|Su|Sa|[MTWRFSU]/g);
+      if (!letters || letters.join('') !== word) return null;
+      tokens.push(...letters.map((l) => DAY_ALIASES[l.toLowerCase()]));
+    }
+  }
+
+  return DAY_NAMES.filter((d) => tokens.includes(d));
+}
+
+export function normalizeMeetingKind(value: string): MeetingKind | null {
+  const key = value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+  for (const [pattern, kind] of MEETING_KIND_ALIASES) {
+    if (pattern.test(key)) return kind;
+  }
+  return null;
+}
+
+export function normalizeExceptionKind(value: string): ExceptionKind | null {
+  const key = value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+  for (const [pattern, kind] of EXCEPTION_KIND_ALIASES) {
+    if (pattern.test(key)) return kind;
+  }
+  return null;
+}
+
+export function normalizeAssignmentType(value: string): AssignmentType | null {
+  const key = value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+  for (const [pattern, type] of TYPE_ALIASES) {
+    if (pattern.test(key)) return type;
+  }
+  return null;
+}
+
+function readMinutes(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const minutes = typeof value === 'string' ? Number(value) : value;
+  if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0) {
+    issues.push({ path, message: 'must be a positive number of minutes' });
+    return undefined;
+  }
+  return Math.round(minutes);
+}
+
+// Percent of the final grade; accepts 25, "25" and "25%"
+function readWeight(value: unknown, path: string, issues: ValidationIssue[]): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const weight = typeof value === 'string' ? Number(value.replace('%', '').trim()) : value;
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0 || weight > 100) {
+    issues.push({ path, message: 'must be a percentage between 0 and 100' });
+    return null;
+  }
+  return Math.round(weight * 100) / 100;
+}
+
+// Confidence is advisory, so malformed entries are dropped instead of failing the parse
+function readConfidence(value: unknown): FieldConfidence | undefined {
+  if (!isRecord(value)) return undefined;
+  const confidence: FieldConfidence = {};
+  for (const [field, raw] of Object.entries(value)) {
+    const score = typeof raw === 'string' ? Number(raw) : raw;
+    if (typeof score === 'number' && Number.isFinite(score)) {
+      confidence[field] = Math.min(Math.max(score, 0), 1);
+    }
+  }
+  return Object.keys(confidence).length > 0 ? confidence : undefined;
+}
+
+function readPage(value: unknown, path: string, issues: ValidationIssue[]): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const page = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof page !== 'number' || !Number.isInteger(page) || page <= 0) {
+    issues.push({ path, message: 'must be a positive page number' });
+    return null;
+  }
+  return page;
+}
+
+// Page range of a reading from pageStart/pageEnd, or from a "pages" string such as
+// "45-72", "pp. 45–72" or "p. 12"
+function readPageRange(
+  item: Record<string, unknown>,
+  path: string,
+  issues: ValidationIssue[]
+): { pageStart: number | null; pageEnd: number | null } {
+  let pageStart = readPage(item.pageStart, `${path}.pageStart`, issues);
+  let pageEnd = readPage(item.pageEnd, `${path}.pageEnd`, issues);
+
+  if (pageStart === null && pageEnd === null && typeof item.pages === 'string' && item.pages.trim()) {
+    const match = item.pages.trim().match(/^(?:pp?\.?\s*)?(\d+)(?:\s*[-–—]\s*(\d+))?$/i);
+    if (!match) {
+      issues.push({ path: `${path}.pages`, message: 'must be a page range such as "45-72"' });
+    } else {
+      pageStart = Number(match[1]);
+      pageEnd = Number(match[2] ?? match[1]);
+    }
+  }
+
+  if (pageStart !== null && pageEnd === null) pageEnd = pageStart;
+  if (pageStart !== null && pageEnd !== null && pageEnd < pageStart) {
+    issues.push({ path: `${path}.pageEnd`, message: 'must not be before pageStart' });
+    return { pageStart: null, pageEnd: null };
+  }
+  return { pageStart, pageEnd };
+}
+
+function readOptionalString(value: unknown, path: string, issues: ValidationIssue[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string' });
+    return undefined;
+  }
+  return value.trim();
+}
+
+function validateMeeting(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): ClassMeeting | null {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return null;
+  }
+
+  let kind: MeetingKind = 'lecture';
+  if (value.kind !== undefined && value.kind !== null) {
+    const mapped = typeof value.kind === 'string' ? normalizeMeetingKind(value.kind) : null;
+    if (mapped) {
+      kind = mapped;
+    } else {
+      issues.push({ path: `${path}.kind`, message: 'must be one of "lecture", "lab", "recitation", "office_hours"' });
+    }
+  }
+
+  const days = normalizeDays(value.days);
+  if (!days) {
+    issues.push({ path: `${path}.days`, message: 'must be a list of weekday names' });
+  } else if (days.length === 0) {
+    issues.push({ path: `${path}.days`, message: 'must contain at least one weekday' });
+  }
+
+  const readTime = (field: 'startTime' | 'endTime') => {
+    const raw = value[field];
+    const time = typeof raw === 'string' ? normalizeTime(raw) : null;
+    if (!time) issues.push({ path: `${path}.${field}`, message: 'must be a time such as "14:00" or "2:00 PM"' });
+    return time;
+  };
+  const startTime = readTime('startTime');
+  const endTime = readTime('endTime');
+  const location = readOptionalString(value.location, `${path}.location`, issues);
+
+  if (!days || days.length === 0 || !startTime || !endTime) return null;
+  return { kind, days, startTime, endTime, location: location || undefined };
+}
+
+function validateSchedule(
+  value: unknown,
+  fallbackYear: number,
+  issues: ValidationIssue[]
+): MeetingSchedule | null {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) {
+    issues.push({ path: 'schedule', message: 'must be an object or null' });
+    return null;
+  }
+
+  const readDate = (field: 'startDate' | 'endDate') => {
+    const raw = value[field];
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    const date = typeof raw === 'string' ? normalizeDate(raw, fallbackYear) : null;
+    if (!date) {
+      issues.push({ path: `schedule.${field}`, message: 'must be a date in YYYY-MM-DD format' });
+      return undefined;
+    }
+    return date;
+  };
+  const startDate = readDate('startDate');
+  const endDate = readDate('endDate');
+
+  if (startDate && endDate && startDate > endDate) {
+    issues.push({ path: 'schedule.endDate', message: 'must not be before startDate' });
+  }
+
+  const meetings: ClassMeeting[] = [];
+  if (value.meetings === undefined && value.days !== undefined) {
+    // Older single-pattern format: the days/times on the schedule itself are the lectures
+    const meeting = validateMeeting({ ...value, kind: 'lecture' }, 'schedule', issues);
+    if (meeting) meetings.push(meeting);
+  } else if (value.meetings !== undefined && value.meetings !== null) {
+    if (!Array.isArray(value.meetings)) {
+      issues.push({ path: 'schedule.meetings', message: 'must be an array' });
+    } else {
+      value.meetings.forEach((item, index) => {
+        const meeting = validateMeeting(item, `schedule.meetings[${index}]`, issues);
+        if (meeting) meetings.push(meeting);
+      });
+    }
+  }
+
+  if (meetings.length === 0 && !startDate && !endDate) return null;
+  return { startDate, endDate, meetings };
+}
+
+function validateTopics(value: unknown, issues: ValidationIssue[]): ParsedTopic[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'topics', message: 'must be an array' });
+    return [];
+  }
+
+  const topics: ParsedTopic[] = [];
+  value.forEach((item, index) => {
+    const path = `topics[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    const title = typeof item.title === 'string' ? item.title.trim() : '';
+    if (!title) {
+      issues.push({ path: `${path}.title`, message: 'is required' });
+      return;
+    }
+
+    const orderIndex = item.orderIndex === undefined || item.orderIndex === null
+      ? undefined
+      : Number(item.orderIndex);
+    if (orderIndex !== undefined && (!Number.isInteger(orderIndex) || orderIndex < 0)) {
+      issues.push({ path: `${path}.orderIndex`, message: 'must be a non-negative integer' });
+    }
+
+    topics.push({
+      title,
+      description: readOptionalString(item.description, `${path}.description`, issues),
+      orderIndex: Number.isInteger(orderIndex) ? orderIndex : undefined,
+      estimatedMinutes: readMinutes(item.estimatedMinutes, `${path}.estimatedMinutes`, issues),
+      confidence: readConfidence(item.confidence),
+    });
+  });
+
+  return topics;
+}
+
+function validateAssignments(
+  value: unknown,
+  fallbackYear: number,
+  issues: ValidationIssue[]
+): ParsedAssignment[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'assignments', message: 'must be an array' });
+    return [];
+  }
+
+  const assignments: ParsedAssignment[] = [];
+  value.forEach((item, index) => {
+    const path = `assignments[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    const title = typeof item.title === 'string' ? item.title.trim() : '';
+    if (!title) {
+      issues.push({ path: `${path}.title`, message: 'is required' });
+      return;
+    }
+
+    let dueDate: string | null = null;
+    if (item.dueDate !== undefined && item.dueDate !== null && item.dueDate !== '') {
+      dueDate = typeof item.dueDate === 'string' ? normalizeDate(item.dueDate, fallbackYear) : null;
+      if (!dueDate) {
+        issues.push({ path: `${path}.dueDate`, message: 'must be a date in YYYY-MM-DD format or null' });
+      }
+    }
+
+    let type: AssignmentType = 'reading';
+    if (item.type !== undefined && item.type !== null) {
+      const mapped = typeof item.type === 'string' ? normalizeAssignmentType(item.type) : null;
+      if (mapped) {
+        type = mapped;
+      } else {
+        issues.push({ path: `${path}.type`, message: 'must be one of "reading", "hw", "project", "exam"' });
+      }
+    }
+
+    const category = readOptionalString(item.category, `${path}.category`, issues);
+    const textbook = readOptionalString(item.textbook, `${path}.textbook`, issues);
+    // "Chapter 3" is often given as a bare number
+    const chapter = typeof item.chapter === 'number'
+      ? String(item.chapter)
+      : readOptionalString(item.chapter, `${path}.chapter`, issues);
+    const { pageStart, pageEnd } = readPageRange(item, path, issues);
+
+    assignments.push({
+      title,
+      dueDate,
+      type,
+      estimatedMinutes: readMinutes(item.estimatedMinutes, `${path}.estimatedMinutes`, issues),
+      category: category || null,
+      weight: readWeight(item.weight, `${path}.weight`, issues),
+      textbook: textbook || null,
+      chapter: chapter || null,
+      pageStart,
+      pageEnd,
+      confidence: readConfidence(item.confidence),
+    });
+  });
+
+  return assignments;
+}
+
+function validateExceptions(
+  value: unknown,
+  fallbackYear: number,
+  issues: ValidationIssue[]
+): TermException[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'exceptions', message: 'must be an array' });
+    return [];
+  }
+
+  const exceptions: TermException[] = [];
+  value.forEach((item, index) => {
+    const path = `exceptions[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    const name = typeof item.name === 'string' && item.name.trim() ? item.name.trim() : 'No class';
+
+    let kind: ExceptionKind = 'holiday';
+    if (item.kind !== undefined && item.kind !== null) {
+      const mapped = typeof item.kind === 'string' ? normalizeExceptionKind(item.kind) : null;
+      if (mapped) {
+        kind = mapped;
+      } else {
+        issues.push({ path: `${path}.kind`, message: 'must be one of "holiday", "break", "cancelled"' });
+      }
+    }
+
+    const startDate = typeof item.startDate === 'string' ? normalizeDate(item.startDate, fallbackYear) : null;
+    if (!startDate) {
+      issues.push({ path: `${path}.startDate`, message: 'must be a date in YYYY-MM-DD format' });
+      return;
+    }
+
+    // A single no-class day has no end date
+    let endDate = startDate;
+    if (item.endDate !== undefined && item.endDate !== null && item.endDate !== '') {
+      const parsedEnd = typeof item.endDate === 'string' ? normalizeDate(item.endDate, fallbackYear) : null;
+      if (!parsedEnd) {
+        issues.push({ path: `${path}.endDate`, message: 'must be a date in YYYY-MM-DD format or null' });
+        return;
+      }
+      if (parsedEnd < startDate) {
+        issues.push({ path: `${path}.endDate`, message: 'must not be before startDate' });
+        return;
+      }
+      endDate = parsedEnd;
+    }
+
+    exceptions.push({ name, kind, startDate, endDate });
+  });
+
+  return exceptions;
+}
+
+function validateGradingCategories(value: unknown, issues: ValidationIssue[]): GradingCategory[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'gradingCategories', message: 'must be an array' });
+    return [];
+  }
+
+  const categories: GradingCategory[] = [];
+  value.forEach((item, index) => {
+    const path = `gradingCategories[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'must be an object' });
+      return;
+    }
+
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      issues.push({ path: `${path}.name`, message: 'is required' });
+      return;
+    }
+
+    const weight = readWeight(item.weight, `${path}.weight`, issues);
+    if (weight === null) {
+      if (item.weight === undefined || item.weight === null) {
+        issues.push({ path: `${path}.weight`, message: 'is required' });
+      }
+      return;
+    }
+
+    categories.push({ name, weight });
+  });
+
+  return categories;
+}
+
+// Items without their own weight split what is left of their category's weight,
+// e.g. four quizzes in a 20% "Quizzes" category are worth 5% each
+function applyCategoryWeights(assignments: ParsedAssignment[], categories: GradingCategory[]) {
+  const remaining = new Map(categories.map((c) => [normalizeTitle(c.name), c.weight]));
+  const unweighted = new Map<string, number>();
+  for (const a of assignments) {
+    if (!a.category) continue;
+    const key = normalizeTitle(a.category);
+    if (a.weight != null) {
+      if (remaining.has(key)) remaining.set(key, remaining.get(key)! - a.weight);
+    } else {
+      unweighted.set(key, (unweighted.get(key) || 0) + 1);
+    }
+  }
+
+  return assignments.map((a) => {
+    if (a.weight != null || !a.category) return a;
+    const key = normalizeTitle(a.category);
+    const left = remaining.get(key);
+    if (left === undefined || left <= 0) return a;
+    return { ...a, weight: Math.round((left / unweighted.get(key)!) * 100) / 100 };
+  });
+}
+
+// Validates and normalizes a syllabus payload. fallbackYear completes dates written without a year.
+export function validateSyllabus(
+  raw: unknown,
+  fallbackYear = new Date().getFullYear()
+): ValidationResult<ParsedSyllabus> {
+  const issues: ValidationIssue[] = [];
+
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ path: '', message: 'must be a JSON object' }] };
+  }
+
+  // Dates without a year belong to the term the schedule describes
+  const termYear =
+    isRecord(raw.schedule) && typeof raw.schedule.startDate === 'string'
+      ? Number(normalizeDate(raw.schedule.startDate, fallbackYear)?.slice(0, 4)) || fallbackYear
+      : fallbackYear;
+
+  const schedule = validateSchedule(raw.schedule, termYear, issues);
+  const topics = validateTopics(raw.topics, issues);
+  const assignments = validateAssignments(raw.assignments, termYear, issues);
+  const exceptions = validateExceptions(raw.exceptions, termYear, issues);
+  const gradingCategories = validateGradingCategories(raw.gradingCategories, issues);
+
+  if (issues.length > 0) return { ok: false, issues };
+  return {
+    ok: true,
+    value: {
+      schedule,
+      topics,
+      assignments: applyCategoryWeights(assignments, gradingCategories),
+      exceptions,
+      gradingCategories,
+    },
+  };
+}
+
+export const formatIssues = (issues: ValidationIssue[], limit = 20) =>
+  issues
+    .slice(0, limit)
+    .map((issue) => `- ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n') + (issues.length > limit ? `\n- …and ${issues.length - limit} more` : '');
+
+// Pulls the JSON document out of a model reply that may be wrapped in a markdown fence
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  const candidate = fenced ? fenced[1] : text.match(/[[{][\s\S]*[\]}]/)?.[0] ?? text;
+  return JSON.parse(candidate);
+}
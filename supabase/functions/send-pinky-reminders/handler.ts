@@ -0,0 +1,216 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { Resend } from 'https://esm.sh/resend@2.0.0';
+import { addDays, DEFAULT_TIME_ZONE, minutesUntil, resolveTimeZone, todayInZone } from '../_shared/dates.ts';
+import { jsonResponse, withServiceRole } from '../_shared/http.ts';
+import { embeddedOne } from '../_shared/relations.ts';
+
+// Each student's timezone, keyed by user id; missing or invalid zones resolve to UTC
+async function loadTimeZones(supabase: SupabaseClient, userIds: string[]) {
+  const timeZones = new Map<string, string>();
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return timeZones;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, timezone')
+    .in('user_id', ids);
+
+  if (error) {
+    console.error('Error fetching timezones:', error);
+  }
+
+  for (const profile of data || []) {
+    timeZones.set(profile.user_id, resolveTimeZone(profile.timezone));
+  }
+  return timeZones;
+}
+
+interface PromisedBlock {
+  id: string;
+  block_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+  classes: { name: string } | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The study blocks promises point at, keyed by id. pinky_promises.block_id is plain
+// text without a foreign key, so the blocks cannot be embedded in the promise query.
+async function loadPromisedBlocks(supabase: SupabaseClient, blockIds: string[]) {
+  const blocks = new Map<string, PromisedBlock>();
+  const ids = [...new Set(blockIds)].filter((id) => UUID_PATTERN.test(id));
+  if (ids.length === 0) return blocks;
+
+  const { data, error } = await supabase
+    .from('study_blocks')
+    .select('id, block_date, start_time, duration_minutes, classes(name)')
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error fetching promised blocks:', error);
+    throw error;
+  }
+
+  for (const row of data || []) {
+    blocks.set(row.id, {
+      id: row.id,
+      block_date: row.block_date,
+      start_time: row.start_time,
+      duration_minutes: row.duration_minutes,
+      classes: embeddedOne<{ name: string }>(row.classes),
+    });
+  }
+  return blocks;
+}
+
+// Runs on a schedule and is called with the service role key, not a user session
+export const handler = withServiceRole('send-pinky-reminders', async (_req, supabase) => {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+
+  if (!resendApiKey) {
+    console.log('RESEND_API_KEY not configured, skipping email sending');
+  }
+
+  const resend = resendApiKey ? new Resend(resendApiKey) : null;
+
+  const now = new Date();
+
+  // Block dates and times are in each student's own timezone, and "today" differs
+  // between zones by up to a day either way from the UTC date
+  const utcToday = todayInZone('UTC', now);
+
+  console.log('Checking for pinky promises...', { now: now.toISOString() });
+
+  // Find active pinky promises whose study block could start within the next hour
+  const { data: promises, error: promisesError } = await supabase
+    .from('pinky_promises')
+    .select('*')
+    .eq('status', 'active')
+    .gte('date', addDays(utcToday, -1))
+    .lte('date', addDays(utcToday, 1));
+
+  if (promisesError) {
+    console.error('Error fetching promises:', promisesError);
+    throw promisesError;
+  }
+
+  console.log(`Found ${promises?.length || 0} active promises around today`);
+
+  const timeZones = await loadTimeZones(supabase, (promises || []).map((p) => p.user_id));
+  const blocks = await loadPromisedBlocks(supabase, (promises || []).map((p) => p.block_id));
+
+  let remindersSent = 0;
+
+  for (const promise of promises || []) {
+    const block = blocks.get(promise.block_id);
+    if (!block || !block.start_time) continue;
+
+    const blockTime = block.start_time;
+    const timeZone = timeZones.get(promise.user_id) ?? DEFAULT_TIME_ZONE;
+
+    // Remind when the block starts within the next hour in the student's timezone
+    const minutesLeft = minutesUntil(block.block_date, blockTime, timeZone, now);
+    const shouldRemind = minutesLeft >= 0 && minutesLeft <= 60;
+
+    if (!shouldRemind) continue;
+
+    console.log('Sending reminder for promise:', promise.id);
+
+    // Get user email
+    const { data: userData } = await supabase.auth.admin.getUserById(promise.user_id);
+    
+    if (!userData?.user?.email) {
+      console.log('No email found for user:', promise.user_id);
+      continue;
+    }
+
+    // Send reminder email if Resend is configured
+    if (resend) {
+      try {
+        const formatTime = (timeStr: string) => {
+          const [hours, minutes] = timeStr.split(':');
+          const hour = parseInt(hours);
+          const ampm = hour >= 12 ? 'PM' : 'AM';
+          const displayHour = hour % 12 || 12;
+          return `${displayHour}:${minutes} ${ampm}`;
+        };
+
+        await resend.emails.send({
+          from: 'Nudge Study App <onboarding@resend.dev>',
+          to: [userData.user.email],
+          subject: '🤙 Pinky Promise Reminder - Study Time Soon!',
+          html: `
+            <div style="font-family: system-ui, -apple-system, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <h1 style="font-size: 24px; margin-bottom: 20px;">🤙 Hey! You made a pinky promise!</h1>
+              
+              <div style="background: #f5f5f5; padding: 20px; border-radius: 10px; margin: 20px 0;">
+                <h2 style="margin: 0 0 10px 0; font-size: 18px;">${block.classes?.name || 'Your study session'}</h2>
+                <p style="margin: 5px 0; color: #666;">
+                  <strong>Time:</strong> ${formatTime(blockTime)} (in about 1 hour)
+                </p>
+                <p style="margin: 5px 0; color: #666;">
+                  <strong>Duration:</strong> ${block.duration_minutes} minutes
+                </p>
+              </div>
+
+              <p style="font-size: 16px; line-height: 1.6;">
+                You promised to show up for this study session. Don't break your pinky promise! 💪
+              </p>
+
+              <p style="font-size: 14px; color: #666; margin-top: 30px;">
+                Remember: Keeping your promises builds trust with yourself and makes you stronger.
+              </p>
+            </div>
+          `,
+        });
+
+        remindersSent++;
+        console.log('Reminder email sent to:', userData.user.email);
+      } catch (emailError) {
+        console.error('Error sending email:', emailError);
+      }
+    }
+  }
+
+  // Check for broken promises (blocks that passed without completion). A promise is
+  // only settled once its date is over in the student's own timezone.
+  const { data: oldPromises, error: oldError } = await supabase
+    .from('pinky_promises')
+    .select('*')
+    .eq('status', 'active')
+    .lte('date', utcToday);
+
+  if (!oldError && oldPromises) {
+    const oldTimeZones = await loadTimeZones(supabase, oldPromises.map((p) => p.user_id));
+
+    for (const promise of oldPromises) {
+      const timeZone = oldTimeZones.get(promise.user_id) ?? DEFAULT_TIME_ZONE;
+      if (promise.date >= todayInZone(timeZone, now)) continue;
+
+      // Check if there's a completed study session for this block
+      const { data: sessions } = await supabase
+        .from('study_sessions')
+        .select('id')
+        .eq('block_id', promise.block_id)
+        .eq('user_id', promise.user_id)
+        .limit(1);
+
+      const newStatus = sessions && sessions.length > 0 ? 'kept' : 'broken';
+      
+      await supabase
+        .from('pinky_promises')
+        .update({ status: newStatus })
+        .eq('id', promise.id);
+
+      console.log(`Updated promise ${promise.id} to ${newStatus}`);
+    }
+  }
+
+  return jsonResponse({
+    success: true,
+    remindersSent,
+    message: `Sent ${remindersSent} reminder(s)`,
+  });
+});
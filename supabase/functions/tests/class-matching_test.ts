@@ -0,0 +1,31 @@
+// Matching imported calendar events to the student's classes. These run without a
+// database: the matching is pure.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { courseCode, importedClassLabel, matchClass } from '../_shared/classMatching.ts';
+
+const classes = [
+  { id: 'cs', name: 'CS 101', title: 'Intro to Computer Science' },
+  { id: 'math', name: 'MATH 221', title: 'Linear Algebra' },
+  { id: 'bio', name: 'Biology', title: null },
+];
+
+Deno.test('event labels keep hyphenated and underscored course codes whole', () => {
+  assertEquals(importedClassLabel('CS-101 Intro'), 'CS-101 Intro');
+  assertEquals(importedClassLabel('Lecture: MATH_221 Linear Algebra'), 'MATH_221 Linear Algebra');
+  assertEquals(importedClassLabel('Lecture: BIO 101 - Room 4'), 'BIO 101');
+  assertEquals(importedClassLabel('Homework 3 [CS-101-01 - Intro]'), 'CS-101-01 - Intro');
+});
+
+Deno.test('course codes are read through hyphens, underscores and term tags', () => {
+  assertEquals(courseCode('CS-101 Intro'), 'CS101');
+  assertEquals(courseCode('MATH_221 FA25'), 'MATH221');
+  assertEquals(courseCode('Biology'), null);
+});
+
+Deno.test('hyphenated course codes match the class with that code', () => {
+  assertEquals(matchClass(importedClassLabel('CS-101 Intro'), classes), { classId: 'cs', match: 'code' });
+  assertEquals(matchClass(importedClassLabel('Exam: MATH_221 Midterm'), classes), { classId: 'math', match: 'code' });
+  assertEquals(matchClass('biology', classes), { classId: 'bio', match: 'exact' });
+  assertEquals(matchClass('Art History', classes), null);
+});
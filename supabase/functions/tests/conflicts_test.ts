@@ -0,0 +1,69 @@
+// Overlap checks between blocks and moving one out of a clash. These run without a
+// database: the checks are pure.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { blockToMove, findConflicts, nextFreeSlot, TimedBlock } from '../_shared/conflicts.ts';
+
+const block = (id: string, overrides: Partial<TimedBlock> = {}): TimedBlock => ({
+  id,
+  blockDate: '2025-12-02',
+  startTime: '10:00',
+  durationMinutes: 60,
+  kind: 'study',
+  ...overrides,
+});
+
+Deno.test('blocks overlapping on the same day conflict with each other', () => {
+  const lecture = block('lecture', { kind: 'class_meeting' });
+  const study = block('study', { startTime: '10:30' });
+  const later = block('later', { startTime: '11:00' });
+  const otherDay = block('other', { blockDate: '2025-12-03' });
+
+  const conflicts = findConflicts([lecture, study, later, otherDay]);
+
+  assertEquals(conflicts.get('lecture')?.map((b) => b.id), ['study']);
+  assertEquals(conflicts.get('study')?.map((b) => b.id), ['lecture', 'later']);
+  assertEquals(conflicts.has('other'), false);
+});
+
+Deno.test('cancelled meetings and blocks without a time take up no time', () => {
+  const cancelled = block('lecture', { kind: 'class_meeting', attendance: 'cancelled' });
+  const allDay = block('exam', { kind: 'exam', startTime: null });
+  const study = block('study');
+
+  assertEquals(findConflicts([cancelled, allDay, study]).size, 0);
+});
+
+Deno.test('the lowest priority block moves, and fixed blocks never do', () => {
+  const lecture = block('lecture', { kind: 'class_meeting' });
+  const review = block('review', { kind: 'review' });
+  const study = block('study', { startTime: '10:30' });
+  const exam = block('exam', { kind: 'exam' });
+
+  assertEquals(blockToMove(lecture, [review, study])?.id, 'study');
+  assertEquals(blockToMove(review, [lecture])?.id, 'review');
+  assertEquals(blockToMove(lecture, [exam]), null);
+});
+
+Deno.test('the next free slot skips busy time and rolls over to the next day', () => {
+  const study = block('study', { startTime: '21:00' });
+  const busy = [
+    block('lecture', { kind: 'class_meeting', startTime: '21:00' }),
+    block('morning', { blockDate: '2025-12-03', startTime: '07:00', durationMinutes: 60 }),
+  ];
+  const options = { earliestTime: '07:00', latestTime: '23:00' };
+
+  assertEquals(nextFreeSlot(block('study', { startTime: '10:00' }), [block('lecture', { durationMinutes: 45 })], options), {
+    blockDate: '2025-12-02',
+    startTime: '10:45',
+  });
+  assertEquals(nextFreeSlot(study, busy, options), { blockDate: '2025-12-02', startTime: '22:00' });
+  assertEquals(nextFreeSlot(block('study', { startTime: '21:30', durationMinutes: 90 }), busy, options), {
+    blockDate: '2025-12-03',
+    startTime: '08:00',
+  });
+  assertEquals(
+    nextFreeSlot(study, [], { ...options, notBefore: { date: '2025-12-04', time: '13:10' } }),
+    { blockDate: '2025-12-04', startTime: '13:15' }
+  );
+});
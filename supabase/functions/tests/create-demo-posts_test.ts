@@ -0,0 +1,57 @@
+// create-demo-posts against the fake AI gateway
+
+import { assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler as createDemoPosts } from '../create-demo-posts/handler.ts';
+import { FakeGateway, pointAIAtGateway, startFakeGateway } from './helpers/fakeGateway.ts';
+import { createUserWithClass, dbTest, jsonRequest, removeUser } from './helpers/testDb.ts';
+
+async function withGateway(fn: (gateway: FakeGateway) => Promise<void>) {
+  const gateway = startFakeGateway();
+  pointAIAtGateway(gateway);
+  try {
+    await fn(gateway);
+  } finally {
+    await gateway.close();
+  }
+}
+
+const image = (n: number) => ({ image: `https://images.example.com/desk-${n}.png` });
+
+dbTest('create-demo-posts posts the photos the image model generates', (supabase) =>
+  withGateway(async (gateway) => {
+    const fixture = await createUserWithClass(supabase);
+    try {
+      // The third photo fails; the others are still posted
+      gateway.reply(image(1), image(2), { status: 500 }, image(4), image(5), image(6));
+
+      const response = await createDemoPosts(jsonRequest({ classIds: [fixture.classId] }, fixture.accessToken));
+      assertEquals(response.status, 200);
+      assertEquals(await response.json(), { success: true, postsCreated: 5 });
+
+      assertEquals(gateway.requests.length, 6);
+      assertEquals(gateway.requests[0].modalities, ['image', 'text']);
+
+      const { data: posts } = await supabase.from('feed_posts').select('photo_url').eq('user_id', fixture.userId);
+      assertEquals(posts?.length, 5);
+      assertStringIncludes(String(posts?.[0].photo_url), 'https://images.example.com/desk-');
+    } finally {
+      await removeUser(supabase, fixture);
+    }
+  })
+);
+
+dbTest('create-demo-posts passes rate limits through to the client', (supabase) =>
+  withGateway(async (gateway) => {
+    const fixture = await createUserWithClass(supabase);
+    try {
+      gateway.reply({ status: 429 });
+
+      const response = await createDemoPosts(jsonRequest({ classIds: [fixture.classId] }, fixture.accessToken));
+      assertEquals(response.status, 429);
+      assertStringIncludes((await response.json()).error, 'Rate limit');
+      assertEquals(gateway.requests.length, 1);
+    } finally {
+      await removeUser(supabase, fixture);
+    }
+  })
+);
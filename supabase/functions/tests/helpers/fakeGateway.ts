@@ -0,0 +1,72 @@
+// A stand-in for the AI gateway: an OpenAI-compatible /v1/chat/completions endpoint on a
+// local port that answers with queued fixture replies and records every request. Handlers
+// reach it through the real "openai" provider in _shared/ai.ts.
+
+import { textToEventStream } from '../../_shared/ai.ts';
+
+// A reply to send, an image URL to reply with, or an HTTP error status to fail the next
+// request with
+type QueuedReply = string | { image: string } | { status: number };
+
+export interface GatewayRequest {
+  model: string;
+  messages: { role: string; content: unknown }[];
+  stream?: boolean;
+  response_format?: { type: string };
+  modalities?: string[];
+}
+
+export interface FakeGateway {
+  url: string;
+  requests: GatewayRequest[];
+  reply(...replies: QueuedReply[]): void;
+  close(): Promise<void>;
+}
+
+export function startFakeGateway(): FakeGateway {
+  const queue: QueuedReply[] = [];
+  const requests: GatewayRequest[] = [];
+  const controller = new AbortController();
+
+  const server = Deno.serve({ port: 0, signal: controller.signal, onListen: () => {} }, async (req) => {
+    if (new URL(req.url).pathname !== '/v1/chat/completions') {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const body: GatewayRequest = await req.json();
+    requests.push(body);
+
+    const next = queue.shift();
+    if (next === undefined) {
+      return Response.json({ error: 'No reply queued in the fake gateway' }, { status: 500 });
+    }
+    if (typeof next !== 'string' && 'status' in next) {
+      return Response.json({ error: `Fake error ${next.status}` }, { status: next.status });
+    }
+    if (typeof next !== 'string') {
+      const images = [{ type: 'image_url', image_url: { url: next.image } }];
+      return Response.json({ choices: [{ message: { role: 'assistant', content: '', images } }] });
+    }
+    if (body.stream) {
+      return new Response(textToEventStream(next), { headers: { 'Content-Type': 'text/event-stream' } });
+    }
+    return Response.json({ choices: [{ message: { role: 'assistant', content: next } }] });
+  });
+
+  return {
+    url: `http://localhost:${server.addr.port}/v1`,
+    requests,
+    reply: (...replies) => queue.push(...replies),
+    close: async () => {
+      controller.abort();
+      await server.finished;
+    },
+  };
+}
+
+// Points getAIProvider() at the fake gateway
+export function pointAIAtGateway(gateway: FakeGateway) {
+  Deno.env.set('AI_PROVIDER', 'openai');
+  Deno.env.set('AI_BASE_URL', gateway.url);
+  Deno.env.set('AI_MODEL', 'fake-model');
+}
@@ -0,0 +1,20 @@
+// Fixture model replies and syllabi. Replies use {{today}}, {{today+7}} or {{today-7}}
+// placeholders for dates, so the term is always current when the tests run.
+
+import { addDays } from '../../_shared/dates.ts';
+
+const fixturesDir = new URL('../fixtures/', import.meta.url);
+
+export const today = () => new Date().toISOString().split('T')[0];
+
+export const fillDates = (text: string) =>
+  text.replace(/\{\{today([+-]\d+)?\}\}/g, (_, offset?: string) => addDays(today(), Number(offset ?? 0)));
+
+// A canned model reply from fixtures/replies, with its dates filled in
+export async function loadReply(fileName: string): Promise<string> {
+  return fillDates(await Deno.readTextFile(new URL(`replies/${fileName}`, fixturesDir)));
+}
+
+export async function loadSyllabus(fileName: string): Promise<Uint8Array> {
+  return await Deno.readFile(new URL(`syllabi/${fileName}`, fixturesDir));
+}
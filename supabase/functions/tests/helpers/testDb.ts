@@ -0,0 +1,103 @@
+// Access to the local Supabase stack (`supabase start`) for handler tests. Each test
+// creates its own user and class and removes everything it wrote afterwards, so the
+// suite can run against a database that is also used for development.
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+export const hasLocalDb = !!(Deno.env.get('SUPABASE_URL') && Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+
+export function adminClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+// A test that needs the local database; skipped when SUPABASE_URL is not set.
+// supabase-js keeps connections open between calls, so the resource sanitizers are off.
+export function dbTest(
+  name: string,
+  fn: (supabase: SupabaseClient) => Promise<void>,
+  { ignore = false }: { ignore?: boolean } = {}
+) {
+  Deno.test({
+    name,
+    ignore: ignore || !hasLocalDb,
+    sanitizeOps: false,
+    sanitizeResources: false,
+    fn: () => fn(adminClient()),
+  });
+}
+
+export interface TestFixture {
+  userId: string;
+  classId: string;
+  // The user's session JWT, for the Authorization header
+  accessToken: string;
+}
+
+// A fresh signed-in user (with the profile the signup trigger creates) and one class
+export async function createUserWithClass(
+  supabase: SupabaseClient,
+  { className = 'Biology 101', timeZone = 'UTC' } = {}
+): Promise<TestFixture> {
+  const email = `test-${crypto.randomUUID()}@example.com`;
+  const password = crypto.randomUUID();
+  const { data: created, error: userError } = await supabase.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+  });
+  if (userError || !created.user) throw new Error(`Failed to create test user: ${userError?.message}`);
+  const userId = created.user.id;
+
+  // Signing in on the shared client would replace its service role key with the session
+  const { data: signedIn, error: signInError } = await adminClient().auth.signInWithPassword({ email, password });
+  if (signInError || !signedIn.session) throw new Error(`Failed to sign in test user: ${signInError?.message}`);
+
+  const { error: profileError } = await supabase.from('profiles').update({ timezone: timeZone }).eq('user_id', userId);
+  if (profileError) throw new Error(`Failed to update test profile: ${profileError.message}`);
+
+  const { data: classRow, error: classError } = await supabase
+    .from('classes')
+    .insert({ user_id: userId, name: className })
+    .select('id')
+    .single();
+  if (classError) throw new Error(`Failed to create test class: ${classError.message}`);
+
+  return { userId, classId: classRow.id, accessToken: signedIn.session.access_token };
+}
+
+export async function uploadSyllabus(
+  supabase: SupabaseClient,
+  { userId, classId }: TestFixture,
+  contents: Uint8Array,
+  extension: string,
+  contentType: string
+): Promise<string> {
+  const path = `${userId}/${classId}.${extension}`;
+  const { error } = await supabase.storage.from('syllabi').upload(path, contents, { contentType, upsert: true });
+  if (error) throw new Error(`Failed to upload test syllabus: ${error.message}`);
+  return path;
+}
+
+// Removes the user and every row the handlers may have written for them
+export async function removeUser(supabase: SupabaseClient, { userId, classId }: TestFixture) {
+  await supabase.storage.from('syllabi').remove([`${userId}/${classId}.txt`, `${userId}/${classId}.pdf`]);
+  for (const table of ['pinky_promises', 'feed_posts', 'study_sessions', 'study_blocks', 'parse_jobs', 'term_exceptions']) {
+    await supabase.from(table).delete().eq('user_id', userId);
+  }
+  // Topics, assignments and grading categories cascade from the class
+  await supabase.from('classes').delete().eq('user_id', userId);
+  await supabase.from('profiles').delete().eq('user_id', userId);
+  await supabase.auth.admin.deleteUser(userId);
+}
+
+// Calls a handler the way supabase.functions.invoke would, as the holder of `token`
+// (a user's access token, or the service role key for scheduled functions)
+export function jsonRequest(body: unknown, token?: string): Request {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return new Request('http://localhost/', { method: 'POST', headers, body: JSON.stringify(body) });
+}
+
+export const serviceRoleKey = () => Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -0,0 +1,60 @@
+// iCalendar export of study blocks. These run without a database: the builder is pure.
+
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildCalendar, CalendarBlock } from '../_shared/icalendar.ts';
+
+const now = new Date('2025-12-01T12:00:00Z');
+const timeZone = 'America/New_York';
+
+const block = (overrides: Partial<CalendarBlock> = {}): CalendarBlock => ({
+  id: 'b1',
+  blockDate: '2025-12-02',
+  startTime: '16:00',
+  durationMinutes: 45,
+  kind: 'study',
+  className: 'BIO 101',
+  assignmentTitle: 'Lab report',
+  ...overrides,
+});
+
+// Unfolds continuation lines so assertions can look at whole properties
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+Deno.test('timed blocks are written as UTC instants in the student timezone', () => {
+  const ics = buildCalendar([block()], { timeZone, now });
+
+  assertStringIncludes(ics, 'UID:b1@nudge.study\r\n');
+  assertStringIncludes(ics, 'DTSTART:20251202T210000Z\r\n');
+  assertStringIncludes(ics, 'DTEND:20251202T214500Z\r\n');
+  assertStringIncludes(ics, 'SUMMARY:BIO 101 · Study session\r\n');
+});
+
+Deno.test('blocks without a time are all-day events', () => {
+  const ics = buildCalendar([block({ startTime: null })], { timeZone, now });
+
+  assertStringIncludes(ics, 'DTSTART;VALUE=DATE:20251202\r\n');
+  assertStringIncludes(ics, 'DTEND;VALUE=DATE:20251203\r\n');
+});
+
+Deno.test('the description has the assignment, duration and pinky promise', () => {
+  const ics = unfold(buildCalendar([block({ promiseStatus: 'active', assignmentTitle: 'Ch. 3; notes, part 2' })], { timeZone, now }));
+
+  assertStringIncludes(ics, 'DESCRIPTION:Assignment: Ch. 3\\; notes\\, part 2\\nDuration: 45 min\\n🤙 Pinky promised\r\n');
+});
+
+Deno.test('long lines are folded at 75 octets', () => {
+  const ics = buildCalendar([block({ assignmentTitle: 'Ä'.repeat(80) })], { timeZone, now });
+
+  for (const line of ics.split('\r\n')) {
+    assert(new TextEncoder().encode(line).length <= 75, `line too long: ${line}`);
+  }
+  assertStringIncludes(unfold(ics), `Assignment: ${'Ä'.repeat(80)}`);
+});
+
+Deno.test('class meetings are named after their meeting kind', () => {
+  const ics = buildCalendar([block({ kind: 'class_meeting', meetingKind: 'lab', location: 'Science 210' })], { timeZone, now });
+
+  assertStringIncludes(ics, 'SUMMARY:BIO 101 · Lab\r\n');
+  assertStringIncludes(ics, 'LOCATION:Science 210\r\n');
+  assertEquals(ics.endsWith('END:VCALENDAR\r\n'), true);
+});
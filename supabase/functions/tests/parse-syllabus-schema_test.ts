@@ -0,0 +1,102 @@
+// Validation of the fixture model replies. These run without a database and cover
+// the shapes of model output that have broken parsing before.
+
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { extractJson, ParsedSyllabus, validateSyllabus } from '../parse-syllabus/schema.ts';
+import { generateMeetingBlocks } from '../_shared/meetings.ts';
+import { loadReply, today } from './helpers/fixtures.ts';
+import { addDays } from '../_shared/dates.ts';
+
+async function parseFixture(fileName: string): Promise<ParsedSyllabus> {
+  const result = validateSyllabus(extractJson(await loadReply(fileName)));
+  if (!result.ok) {
+    throw new Error(`${fileName} failed validation: ${JSON.stringify(result.issues)}`);
+  }
+  return result.value;
+}
+
+Deno.test('complete reply keeps meetings, readings, weights and exceptions', async () => {
+  const parsed = await parseFixture('complete.json');
+
+  assertEquals(parsed.schedule?.meetings.map((m) => [m.kind, m.days, m.startTime, m.endTime]), [
+    ['lecture', ['Monday', 'Wednesday', 'Friday'], '10:00', '10:50'],
+    ['office_hours', ['Tuesday'], '15:00', '16:00'],
+  ]);
+
+  const [reading, problemSet, midterm] = parsed.assignments;
+  assertEquals([reading.type, reading.textbook, reading.chapter, reading.pageStart, reading.pageEnd], [
+    'reading', 'Campbell Biology', '3', 45, 72,
+  ]);
+  assertEquals(problemSet.category, 'Homework');
+  assertEquals(midterm.weight, 25);
+  assertEquals(midterm.confidence, { dueDate: 0.4 });
+  assertEquals(parsed.gradingCategories.length, 2);
+  assertEquals(parsed.exceptions[0].kind, 'break');
+});
+
+Deno.test('missing schedule is allowed and free-form types are mapped', async () => {
+  const parsed = await parseFixture('missing-schedule.json');
+
+  assertEquals(parsed.schedule, null);
+  assertEquals(parsed.assignments.map((a) => [a.type, a.dueDate]), [
+    ['project', addDays(today(), 14)],
+    ['project', null],
+  ]);
+  assertEquals(generateMeetingBlocks(parsed.schedule, parsed.exceptions), []);
+});
+
+Deno.test('day abbreviations such as TR, MWF and Tu/Th are expanded', async () => {
+  const parsed = await parseFixture('day-abbreviations.json');
+
+  assertEquals(parsed.schedule?.meetings.map((m) => [m.kind, m.days, m.startTime, m.endTime]), [
+    ['lecture', ['Tuesday', 'Thursday'], '09:30', '10:45'],
+    ['recitation', ['Monday', 'Wednesday', 'Friday'], '13:00', '13:50'],
+    ['lab', ['Tuesday', 'Thursday'], '14:00', '16:50'],
+    ['recitation', ['Monday', 'Wednesday'], '16:00', '16:50'],
+  ]);
+
+  const lectureDays = generateMeetingBlocks(parsed.schedule, [])
+    .filter((block) => block.meetingKind === 'lecture')
+    .map((block) => new Date(`${block.blockDate}T00:00:00Z`).getUTCDay());
+  assert(lectureDays.length > 0);
+  assert(lectureDays.every((day) => day === 2 || day === 4));
+});
+
+Deno.test('overnight meetings run past midnight instead of going negative', async () => {
+  const parsed = await parseFixture('overnight.json');
+
+  const [lab] = parsed.schedule!.meetings;
+  assertEquals([lab.startTime, lab.endTime], ['22:00', '01:30']);
+
+  const blocks = generateMeetingBlocks(parsed.schedule, []);
+  assert(blocks.length > 0);
+  assert(blocks.every((block) => block.durationMinutes === 210 && block.startTime === '22:00'));
+});
+
+Deno.test('JSON wrapped in a markdown fence and prose is extracted', async () => {
+  const parsed = await parseFixture('fenced.txt');
+
+  assertEquals(parsed.topics.map((t) => t.title), ['Introduction']);
+  assertEquals(parsed.assignments[0].type, 'exam');
+});
+
+Deno.test('truncated JSON is rejected before validation', async () => {
+  const reply = await loadReply('malformed.txt');
+  assertThrows(() => extractJson(reply));
+});
+
+Deno.test('invalid fields are reported with their paths', async () => {
+  const result = validateSyllabus(extractJson(await loadReply('invalid-fields.json')));
+
+  assert(!result.ok);
+  const paths = result.issues.map((issue) => issue.path);
+  for (const path of [
+    'schedule.meetings[0].days',
+    'schedule.meetings[0].startTime',
+    'assignments[0].dueDate',
+    'assignments[0].type',
+    'assignments[0].estimatedMinutes',
+  ]) {
+    assert(paths.includes(path), `expected an issue at ${path}, got ${paths.join(', ')}`);
+  }
+});
@@ -0,0 +1,311 @@
+// parse-syllabus against the local database, with the AI gateway replaced by fixture
+// replies. Outside the edge runtime the handler finishes the job before responding, so
+// the parse_jobs row is final as soon as the response arrives.
+
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { handler } from '../parse-syllabus/handler.ts';
+import { FakeGateway, pointAIAtGateway, startFakeGateway } from './helpers/fakeGateway.ts';
+import { loadReply, loadSyllabus } from './helpers/fixtures.ts';
+import { createUserWithClass, dbTest, jsonRequest, removeUser, TestFixture, uploadSyllabus } from './helpers/testDb.ts';
+
+interface ParseContext extends TestFixture {
+  supabase: SupabaseClient;
+  gateway: FakeGateway;
+  syllabusPath: string;
+}
+
+function parseTest(name: string, fn: (ctx: ParseContext) => Promise<void>) {
+  dbTest(name, async (supabase) => {
+    const gateway = startFakeGateway();
+    pointAIAtGateway(gateway);
+    const fixture = await createUserWithClass(supabase);
+    try {
+      const syllabusPath = await uploadSyllabus(supabase, fixture, await loadSyllabus('biology-101.txt'), 'txt', 'text/plain');
+      await fn({ ...fixture, supabase, gateway, syllabusPath });
+    } finally {
+      await removeUser(supabase, fixture);
+      await gateway.close();
+    }
+  });
+}
+
+async function invokeParse(ctx: ParseContext, body: Record<string, unknown>, token = ctx.accessToken) {
+  const response = await handler(jsonRequest({
+    classId: ctx.classId,
+    syllabusUrl: ctx.syllabusPath,
+    weekdayHours: 2,
+    ...body,
+  }, token));
+  return { status: response.status, payload: await response.json() };
+}
+
+async function loadJob(supabase: SupabaseClient, jobId: string) {
+  const { data, error } = await supabase.from('parse_jobs').select('*').eq('id', jobId).single();
+  if (error) throw new Error(`Failed to load parse job: ${error.message}`);
+  return data;
+}
+
+async function countRows(supabase: SupabaseClient, table: string, classId: string) {
+  const { count, error } = await supabase.from(table).select('id', { count: 'exact', head: true }).eq('class_id', classId);
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`);
+  return count ?? 0;
+}
+
+async function loadMeetingBlocks(supabase: SupabaseClient, classId: string) {
+  const { data, error } = await supabase
+    .from('study_blocks')
+    .select('block_date, start_time, duration_minutes, kind, meeting_kind, location')
+    .eq('class_id', classId)
+    .not('meeting_kind', 'is', null);
+  if (error) throw new Error(`Failed to load blocks: ${error.message}`);
+  return data || [];
+}
+
+parseTest('preview returns the parsed syllabus without writing anything', async (ctx) => {
+  ctx.gateway.reply(await loadReply('complete.json'));
+
+  const { status, payload } = await invokeParse(ctx, { mode: 'preview' });
+  assertEquals(status, 202);
+
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals([job.mode, job.status], ['preview', 'done']);
+  assertEquals(job.assignments_count, 3);
+  assertEquals(job.result.diff.assignments.added, ['Read Chapter 3', 'Problem Set 1', 'Midterm Exam']);
+
+  // 28 pages at the default 4 minutes a page, rounded up to 5 minutes
+  assertEquals(job.result.parsed.assignments[0].estimatedMinutes, 115);
+
+  assertEquals(await countRows(ctx.supabase, 'syllabus_assignments', ctx.classId), 0);
+  assertEquals(await countRows(ctx.supabase, 'study_blocks', ctx.classId), 0);
+
+  // The text syllabus is sent inline, in JSON mode
+  assertEquals(ctx.gateway.requests.length, 1);
+  assertEquals(ctx.gateway.requests[0].response_format?.type, 'json_object');
+  assertStringIncludes(JSON.stringify(ctx.gateway.requests[0].messages), 'BIOLOGY 101');
+});
+
+parseTest('reading estimates follow the reading speed on the profile', async (ctx) => {
+  await ctx.supabase.from('profiles').update({ reading_minutes_per_page: 2 }).eq('user_id', ctx.userId);
+  ctx.gateway.reply(await loadReply('complete.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'preview' });
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.result.parsed.assignments[0].estimatedMinutes, 60);
+});
+
+parseTest('a malformed reply is repaired with a second request', async (ctx) => {
+  ctx.gateway.reply(await loadReply('malformed.txt'), await loadReply('complete.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'preview' });
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.status, 'done');
+
+  assertEquals(ctx.gateway.requests.length, 2);
+  const repairRequest = ctx.gateway.requests[1].messages;
+  assertStringIncludes(String(repairRequest[repairRequest.length - 1].content), 'did not match the required format');
+});
+
+parseTest('the job fails when the repaired reply is still invalid', async (ctx) => {
+  const invalid = await loadReply('invalid-fields.json');
+  ctx.gateway.reply(invalid, invalid);
+
+  const { status, payload } = await invokeParse(ctx, { mode: 'preview' });
+  assertEquals(status, 202);
+
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.status, 'failed');
+  assertStringIncludes(job.error, 'invalid syllabus format');
+});
+
+parseTest('gateway errors fail the job with a readable message', async (ctx) => {
+  ctx.gateway.reply({ status: 429 });
+
+  const { payload } = await invokeParse(ctx, { mode: 'preview' });
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.status, 'failed');
+  assertStringIncludes(job.error, 'Rate limit');
+});
+
+parseTest('requests without a class are rejected', async (ctx) => {
+  const { status, payload } = await invokeParse(ctx, { classId: undefined });
+  assertEquals(status, 400);
+  assertStringIncludes(payload.error, 'Missing required parameters');
+  assertEquals(ctx.gateway.requests.length, 0);
+});
+
+parseTest('requests without a session are rejected', async (ctx) => {
+  const { status } = await invokeParse(ctx, { mode: 'preview' }, '');
+  assertEquals(status, 401);
+
+  const anonymous = await invokeParse(ctx, { mode: 'preview' }, 'not-a-jwt');
+  assertEquals(anonymous.status, 401);
+  assertEquals(ctx.gateway.requests.length, 0);
+});
+
+parseTest('another student cannot parse into this class or read its syllabus', async (ctx) => {
+  const other = await createUserWithClass(ctx.supabase);
+  try {
+    const intoTheirClass = await invokeParse(ctx, { mode: 'apply' }, other.accessToken);
+    assertEquals(intoTheirClass.status, 403);
+
+    const theirUpload = await invokeParse(ctx, { mode: 'preview', classId: other.classId }, other.accessToken);
+    assertEquals(theirUpload.status, 403);
+
+    const claimingToBeThem = await invokeParse(ctx, { mode: 'preview', userId: other.userId });
+    assertEquals(claimingToBeThem.status, 403);
+  } finally {
+    await removeUser(ctx.supabase, other);
+  }
+
+  assertEquals(ctx.gateway.requests.length, 0);
+  assertEquals(await countRows(ctx.supabase, 'parse_jobs', ctx.classId), 0);
+});
+
+parseTest('overnight labs are stored as blocks that run past midnight', async (ctx) => {
+  ctx.gateway.reply(await loadReply('overnight.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'apply' });
+  assertEquals((await loadJob(ctx.supabase, payload.jobId)).status, 'done');
+
+  const blocks = await loadMeetingBlocks(ctx.supabase, ctx.classId);
+  assert(blocks.length > 0);
+  for (const block of blocks) {
+    assertEquals([block.kind, block.meeting_kind, block.start_time, block.duration_minutes, block.location], [
+      'class_meeting', 'lab', '22:00:00', 210, 'Observatory',
+    ]);
+  }
+
+  const { data: classRow } = await ctx.supabase.from('classes').select('ai_parsed').eq('id', ctx.classId).single();
+  assertEquals(classRow?.ai_parsed, true);
+});
+
+parseTest('TR lectures only land on Tuesdays and Thursdays', async (ctx) => {
+  ctx.gateway.reply(await loadReply('day-abbreviations.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'apply' });
+  assertEquals((await loadJob(ctx.supabase, payload.jobId)).status, 'done');
+
+  const lectures = (await loadMeetingBlocks(ctx.supabase, ctx.classId)).filter((b) => b.meeting_kind === 'lecture');
+  assert(lectures.length > 0);
+  for (const lecture of lectures) {
+    const weekday = new Date(`${lecture.block_date}T00:00:00Z`).getUTCDay();
+    assert(weekday === 2 || weekday === 4, `lecture on ${lecture.block_date}`);
+  }
+});
+
+parseTest('a confirmed preview is applied without calling the model again', async (ctx) => {
+  ctx.gateway.reply(await loadReply('day-abbreviations.json'));
+
+  const preview = await invokeParse(ctx, { mode: 'preview' });
+  const { result } = await loadJob(ctx.supabase, preview.payload.jobId);
+
+  const applied = await invokeParse(ctx, { mode: 'apply', syllabusUrl: undefined, parsed: result.parsed });
+  assertEquals((await loadJob(ctx.supabase, applied.payload.jobId)).status, 'done');
+
+  assertEquals(ctx.gateway.requests.length, 1);
+  assert((await loadMeetingBlocks(ctx.supabase, ctx.classId)).length > 0);
+});
+
+parseTest('applying the same syllabus twice does not duplicate anything', async (ctx) => {
+  const reply = await loadReply('complete.json');
+  ctx.gateway.reply(reply, reply);
+
+  for (let run = 0; run < 2; run++) {
+    const { payload } = await invokeParse(ctx, { mode: 'apply' });
+    const job = await loadJob(ctx.supabase, payload.jobId);
+    assertEquals(job.status, 'done', job.error);
+  }
+
+  assertEquals(await countRows(ctx.supabase, 'syllabus_topics', ctx.classId), 2);
+  assertEquals(await countRows(ctx.supabase, 'syllabus_assignments', ctx.classId), 3);
+  assertEquals(await countRows(ctx.supabase, 'grading_categories', ctx.classId), 2);
+
+  const { data: reading } = await ctx.supabase
+    .from('syllabus_assignments')
+    .select('textbook, chapter, page_start, page_end')
+    .eq('class_id', ctx.classId)
+    .eq('type', 'reading')
+    .single();
+  assertEquals(reading, { textbook: 'Campbell Biology', chapter: '3', page_start: 45, page_end: 72 });
+});
+
+parseTest('re-parsing keeps meetings marked with attendance', async (ctx) => {
+  const reply = await loadReply('day-abbreviations.json');
+  ctx.gateway.reply(reply, reply);
+
+  const first = await invokeParse(ctx, { mode: 'apply' });
+  assertEquals((await loadJob(ctx.supabase, first.payload.jobId)).status, 'done');
+
+  const { data: meeting, error } = await ctx.supabase
+    .from('study_blocks')
+    .select('id, block_date, start_time')
+    .eq('class_id', ctx.classId)
+    .eq('kind', 'class_meeting')
+    .order('block_date', { ascending: false })
+    .limit(1)
+    .single();
+  if (error) throw new Error(`Failed to load meeting: ${error.message}`);
+  await ctx.supabase.from('study_blocks').update({ attendance: 'cancelled' }).eq('id', meeting.id);
+
+  const second = await invokeParse(ctx, { mode: 'apply' });
+  assertEquals((await loadJob(ctx.supabase, second.payload.jobId)).status, 'done');
+
+  const { data: sameSlot } = await ctx.supabase
+    .from('study_blocks')
+    .select('id, attendance')
+    .eq('class_id', ctx.classId)
+    .eq('block_date', meeting.block_date)
+    .eq('start_time', meeting.start_time);
+  assertEquals(sameSlot, [{ id: meeting.id, attendance: 'cancelled' }]);
+});
+
+parseTest('study sessions point at the parsed assignments', async (ctx) => {
+  ctx.gateway.reply(await loadReply('complete.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'apply' });
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.status, 'done', job.error);
+
+  const { data: blocks, error } = await ctx.supabase
+    .from('study_blocks')
+    .select('assignment_id, syllabus_assignments(title)')
+    .eq('class_id', ctx.classId)
+    .not('assignment_id', 'is', null);
+  if (error) throw new Error(`Failed to load blocks: ${error.message}`);
+
+  const titles = new Set((blocks || []).map((b) => (b.syllabus_assignments as unknown as { title: string }).title));
+  assertEquals([...titles].sort(), ['Midterm Exam', 'Problem Set 1', 'Read Chapter 3']);
+});
+
+parseTest('exams get review sessions and everything else study sessions', async (ctx) => {
+  ctx.gateway.reply(await loadReply('complete.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'apply' });
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.status, 'done', job.error);
+
+  const { data: blocks, error } = await ctx.supabase
+    .from('study_blocks')
+    .select('kind, syllabus_assignments(type)')
+    .eq('class_id', ctx.classId)
+    .not('assignment_id', 'is', null);
+  if (error) throw new Error(`Failed to load blocks: ${error.message}`);
+
+  assert((blocks || []).length > 0);
+  for (const block of blocks || []) {
+    const { type } = block.syllabus_assignments as unknown as { type: string };
+    assertEquals(block.kind, type === 'exam' ? 'review' : 'study');
+  }
+});
+
+parseTest('a syllabus without a schedule creates no class meetings', async (ctx) => {
+  ctx.gateway.reply(await loadReply('missing-schedule.json'));
+
+  const { payload } = await invokeParse(ctx, { mode: 'apply' });
+  const job = await loadJob(ctx.supabase, payload.jobId);
+  assertEquals(job.status, 'done', job.error);
+
+  assertEquals((await loadMeetingBlocks(ctx.supabase, ctx.classId)).length, 0);
+  assertEquals(await countRows(ctx.supabase, 'syllabus_assignments', ctx.classId), 2);
+});
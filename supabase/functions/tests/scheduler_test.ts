@@ -0,0 +1,112 @@
+// The shared study scheduler: deadline order, daily budgets, work that does not fit, and
+// splitting each day's budget between classes by difficulty. These run without a
+// database: the scheduler is pure.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { scheduleStudyBlocks, ScheduleResult, StudyBudget } from '../_shared/scheduler.ts';
+import { DIFFICULTY_FACTORS } from '../_shared/difficulty.ts';
+
+// Monday; work due Thursday is planned Monday to Wednesday
+const today = '2025-12-01';
+const budget: StudyBudget = { weekdayMinutes: 120, weekendMinutes: 120, earliestTime: '07:00', latestTime: '23:00' };
+const classShares = { organic: DIFFICULTY_FACTORS.heavy, film: DIFFICULTY_FACTORS.chill };
+
+const minutesPerAssignment = ({ blocks }: ScheduleResult) =>
+  blocks.reduce<number[]>((totals, block) => {
+    totals[block.assignmentIndex] = (totals[block.assignmentIndex] || 0) + block.durationMinutes;
+    return totals;
+  }, []);
+
+const minutesPerDay = ({ blocks }: ScheduleResult) =>
+  blocks.reduce<Record<string, number>>((totals, block) => {
+    totals[block.blockDate] = (totals[block.blockDate] || 0) + block.durationMinutes;
+    return totals;
+  }, {});
+
+Deno.test('the earliest deadline is planned first', () => {
+  // Monday to Wednesday hold 180 minutes; the essay could take all of them, but the quiz
+  // due Tuesday can only be studied for on Monday
+  const plan = scheduleStudyBlocks(
+    [
+      { dueDate: '2025-12-04', estimatedMinutes: 180 },
+      { dueDate: '2025-12-02', estimatedMinutes: 60 },
+    ],
+    [],
+    { ...budget, weekdayMinutes: 60 },
+    { today }
+  );
+
+  assertEquals(
+    plan.blocks.filter((b) => b.assignmentIndex === 1).map((b) => [b.blockDate, b.durationMinutes]),
+    [['2025-12-01', 60]]
+  );
+  assertEquals(plan.unscheduled, [{ assignmentIndex: 0, minutes: 60 }]);
+});
+
+Deno.test('study time stays within the daily budget and around what is already planned', () => {
+  const plan = scheduleStudyBlocks(
+    [{ dueDate: '2025-12-05', estimatedMinutes: 270 }],
+    [
+      // A kept study session uses up most of Thursday's budget
+      { blockDate: '2025-12-04', startTime: '18:00', durationMinutes: 60, countsTowardBudget: true },
+      // A lecture takes up time but no budget
+      { blockDate: '2025-12-03', startTime: '16:00', durationMinutes: 90 },
+    ],
+    { ...budget, weekdayMinutes: 90 },
+    { today }
+  );
+
+  assertEquals(minutesPerDay(plan), { '2025-12-01': 90, '2025-12-02': 90, '2025-12-03': 90 });
+  // After the lecture and a 15 minute break
+  assertEquals(plan.blocks.find((b) => b.blockDate === '2025-12-03')?.startTime, '17:45');
+  assertEquals(plan.unscheduled, []);
+});
+
+Deno.test('work that does not fit before the deadline is reported as unscheduled', () => {
+  // Only Monday and Tuesday are left before the day kept free ahead of Wednesday's deadline
+  const plan = scheduleStudyBlocks([{ dueDate: '2025-12-03', estimatedMinutes: 600 }], [], budget, { today });
+
+  assertEquals(minutesPerDay(plan), { '2025-12-01': 120, '2025-12-02': 120 });
+  assertEquals(plan.unscheduled, [{ assignmentIndex: 0, minutes: 360 }]);
+});
+
+Deno.test('a heavy class gets a bigger share of each day than a chill one', () => {
+  const plan = scheduleStudyBlocks(
+    [
+      { dueDate: '2025-12-04', estimatedMinutes: 600, classId: 'organic' },
+      { dueDate: '2025-12-04', estimatedMinutes: 600, classId: 'film' },
+    ],
+    [],
+    budget,
+    { today, classShares }
+  );
+
+  // 120 minutes a day split 1.5 : 0.75 over three days
+  assertEquals(minutesPerAssignment(plan), [240, 120]);
+});
+
+Deno.test('time one class does not need goes to the others', () => {
+  const plan = scheduleStudyBlocks(
+    [
+      { dueDate: '2025-12-04', estimatedMinutes: 600, classId: 'organic' },
+      { dueDate: '2025-12-04', estimatedMinutes: 30, classId: 'film' },
+    ],
+    [],
+    budget,
+    { today, classShares }
+  );
+
+  assertEquals(minutesPerAssignment(plan), [330, 30]);
+});
+
+Deno.test('study sessions already on the calendar count toward their class share', () => {
+  const plan = scheduleStudyBlocks(
+    [{ dueDate: '2025-12-02', estimatedMinutes: 120, classId: 'film' }],
+    [{ blockDate: today, startTime: '16:00', durationMinutes: 80, countsTowardBudget: true, classId: 'organic' }],
+    budget,
+    { today, classShares }
+  );
+
+  // Only Monday is open, and organic chemistry already used 80 of the day's 120 minutes
+  assertEquals(minutesPerAssignment(plan), [40]);
+});
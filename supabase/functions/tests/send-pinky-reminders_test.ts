@@ -0,0 +1,72 @@
+// send-pinky-reminders settling promises against the local database. RESEND_API_KEY is
+// cleared so no email is sent. The function runs on a schedule with the service role key.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { handler } from '../send-pinky-reminders/handler.ts';
+import { addDays } from '../_shared/dates.ts';
+import { today } from './helpers/fixtures.ts';
+import { createUserWithClass, dbTest, jsonRequest, removeUser, serviceRoleKey, TestFixture } from './helpers/testDb.ts';
+
+async function createPromisedBlock(supabase: SupabaseClient, { userId, classId }: TestFixture, date: string) {
+  const { data: block, error: blockError } = await supabase
+    .from('study_blocks')
+    .insert({ user_id: userId, class_id: classId, block_date: date, start_time: '18:00', duration_minutes: 60 })
+    .select('id')
+    .single();
+  if (blockError) throw new Error(`Failed to create study block: ${blockError.message}`);
+
+  const { data: promise, error: promiseError } = await supabase
+    .from('pinky_promises')
+    .insert({ user_id: userId, block_id: block.id, date, status: 'active' })
+    .select('id')
+    .single();
+  if (promiseError) throw new Error(`Failed to create promise: ${promiseError.message}`);
+
+  return { blockId: block.id as string, promiseId: promise.id as string };
+}
+
+async function promiseStatus(supabase: SupabaseClient, promiseId: string) {
+  const { data } = await supabase.from('pinky_promises').select('status').eq('id', promiseId).single();
+  return data?.status;
+}
+
+dbTest('past promises are settled as kept or broken', async (supabase) => {
+  Deno.env.delete('RESEND_API_KEY');
+  const fixture = await createUserWithClass(supabase);
+  try {
+    const studied = await createPromisedBlock(supabase, fixture, addDays(today(), -2));
+    const skipped = await createPromisedBlock(supabase, fixture, addDays(today(), -2));
+    const upcoming = await createPromisedBlock(supabase, fixture, addDays(today(), 1));
+
+    const startedAt = new Date(Date.now() - 2 * 86400000);
+    await supabase.from('study_sessions').insert({
+      user_id: fixture.userId,
+      class_id: fixture.classId,
+      block_id: studied.blockId,
+      started_at: startedAt.toISOString(),
+      completed_at: new Date(startedAt.getTime() + 3600000).toISOString(),
+      minutes_studied: 60,
+    });
+
+    const response = await handler(jsonRequest({}, serviceRoleKey()));
+    assertEquals(response.status, 200);
+    assertEquals((await response.json()).success, true);
+
+    assertEquals(await promiseStatus(supabase, studied.promiseId), 'kept');
+    assertEquals(await promiseStatus(supabase, skipped.promiseId), 'broken');
+    assertEquals(await promiseStatus(supabase, upcoming.promiseId), 'active');
+  } finally {
+    await removeUser(supabase, fixture);
+  }
+});
+
+dbTest('students cannot trigger the reminder job', async (supabase) => {
+  const fixture = await createUserWithClass(supabase);
+  try {
+    const response = await handler(jsonRequest({}, fixture.accessToken));
+    assertEquals(response.status, 401);
+  } finally {
+    await removeUser(supabase, fixture);
+  }
+});
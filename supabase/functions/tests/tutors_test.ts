@@ -0,0 +1,133 @@
+// chat-tutor and class-tutor against the fake AI gateway
+
+import { assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handler as chatTutor } from '../chat-tutor/handler.ts';
+import { handler as classTutor } from '../class-tutor/handler.ts';
+import { FakeGateway, pointAIAtGateway, startFakeGateway } from './helpers/fakeGateway.ts';
+import { createUserWithClass, dbTest, jsonRequest, removeUser } from './helpers/testDb.ts';
+
+async function withGateway(fn: (gateway: FakeGateway) => Promise<void>) {
+  const gateway = startFakeGateway();
+  pointAIAtGateway(gateway);
+  try {
+    await fn(gateway);
+  } finally {
+    await gateway.close();
+  }
+}
+
+// Joins the content of an OpenAI-style event stream back into the full reply
+async function readEventStream(response: Response): Promise<string> {
+  let text = '';
+  for (const line of (await response.text()).split('\n')) {
+    if (!line.startsWith('data: ') || line === 'data: [DONE]') continue;
+    text += JSON.parse(line.slice(6)).choices?.[0]?.delta?.content || '';
+  }
+  return text;
+}
+
+dbTest('chat-tutor answers with the model reply and the study context', (supabase) =>
+  withGateway(async (gateway) => {
+    const fixture = await createUserWithClass(supabase);
+    try {
+      gateway.reply('Mitochondria make ATP. 💡');
+
+      const response = await chatTutor(jsonRequest({
+        context: 'Cell respiration',
+        messages: [{ role: 'user', content: 'What do mitochondria do?' }],
+      }, fixture.accessToken));
+      assertEquals(response.status, 200);
+      assertEquals(await response.json(), { response: 'Mitochondria make ATP. 💡' });
+
+      const [request] = gateway.requests;
+      assertEquals(request.model, 'fake-model');
+      assertEquals(request.messages.map((m) => m.role), ['system', 'user']);
+      assertStringIncludes(String(request.messages[0].content), 'Cell respiration');
+    } finally {
+      await removeUser(supabase, fixture);
+    }
+  })
+);
+
+dbTest('chat-tutor passes rate limits through to the client', (supabase) =>
+  withGateway(async (gateway) => {
+    const fixture = await createUserWithClass(supabase);
+    try {
+      gateway.reply({ status: 429 });
+
+      const response = await chatTutor(jsonRequest({
+        context: 'Algebra',
+        messages: [{ role: 'user', content: 'Hi' }],
+      }, fixture.accessToken));
+      assertEquals(response.status, 429);
+      assertStringIncludes((await response.json()).error, 'Rate limit');
+    } finally {
+      await removeUser(supabase, fixture);
+    }
+  })
+);
+
+dbTest('chat-tutor rejects requests without a session', () =>
+  withGateway(async (gateway) => {
+    const response = await chatTutor(jsonRequest({ context: 'Algebra', messages: [{ role: 'user', content: 'Hi' }] }));
+    assertEquals(response.status, 401);
+    assertEquals(gateway.requests.length, 0);
+  })
+);
+
+dbTest('class-tutor streams a reply grounded in the class syllabus', (supabase) =>
+  withGateway(async (gateway) => {
+    const fixture = await createUserWithClass(supabase, { className: 'Organic Chemistry' });
+    try {
+      await supabase.from('syllabus_topics').insert({
+        class_id: fixture.classId,
+        title: 'Alkenes',
+        description: 'Addition reactions',
+        order_index: 1,
+        estimated_minutes: 60,
+      });
+      await supabase.from('syllabus_assignments').insert({
+        class_id: fixture.classId,
+        title: 'Problem Set 4',
+        type: 'hw',
+        due_date: '2030-01-15',
+        estimated_minutes: 120,
+      });
+      gateway.reply('Start with Problem Set 4 and review alkenes first.');
+
+      const response = await classTutor(jsonRequest({
+        classId: fixture.classId,
+        messages: [{ role: 'user', content: 'What should I do next?' }],
+      }, fixture.accessToken));
+      assertEquals(response.headers.get('Content-Type'), 'text/event-stream');
+      assertEquals(await readEventStream(response), 'Start with Problem Set 4 and review alkenes first.');
+
+      const [request] = gateway.requests;
+      assertEquals(request.stream, true);
+      const systemPrompt = String(request.messages[0].content);
+      for (const expected of ['Organic Chemistry', 'Alkenes: Addition reactions', 'Problem Set 4 (hw): Due 2030-01-15']) {
+        assertStringIncludes(systemPrompt, expected);
+      }
+    } finally {
+      await removeUser(supabase, fixture);
+    }
+  })
+);
+
+dbTest("class-tutor does not reveal another student's class", (supabase) =>
+  withGateway(async (gateway) => {
+    const owner = await createUserWithClass(supabase);
+    const other = await createUserWithClass(supabase);
+    try {
+      const response = await classTutor(jsonRequest({
+        classId: owner.classId,
+        messages: [{ role: 'user', content: 'What is on the syllabus?' }],
+      }, other.accessToken));
+      assertEquals(response.status, 403);
+      assertEquals(gateway.requests.length, 0);
+    } finally {
+      await removeUser(supabase, owner);
+      await removeUser(supabase, other);
+    }
+  })
+);
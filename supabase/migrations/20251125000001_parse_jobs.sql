@@ -0,0 +1,37 @@
+-- Background syllabus parse jobs, so parsing survives page reloads and the
+-- client can follow real progress instead of racing a timeout
+
+CREATE TABLE IF NOT EXISTS public.parse_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL DEFAULT 'apply' CHECK (mode IN ('apply', 'preview')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'downloading', 'extracting', 'scheduling', 'done', 'failed')),
+  error TEXT,
+  topics_count INTEGER,
+  assignments_count INTEGER,
+  blocks_count INTEGER,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.parse_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the parse-syllabus edge function with the service role;
+-- students can only read their own
+CREATE POLICY "Users can view their own parse jobs"
+ON public.parse_jobs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_parse_jobs_updated_at
+BEFORE UPDATE ON public.parse_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_parse_jobs_class_created ON public.parse_jobs(class_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_parse_jobs_user_id ON public.parse_jobs(user_id);
+
+-- Enable realtime so AIProcessing can follow job progress
+ALTER PUBLICATION supabase_realtime ADD TABLE public.parse_jobs;
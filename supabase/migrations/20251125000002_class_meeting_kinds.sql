@@ -0,0 +1,143 @@
+-- Classes can meet in several patterns (lectures, labs, recitations, office hours).
+-- Class-meeting blocks record which kind of meeting they are and where it happens.
+
+ALTER TABLE public.study_blocks
+ADD COLUMN IF NOT EXISTS meeting_kind TEXT CHECK (meeting_kind IN ('lecture', 'lab', 'recitation', 'office_hours')),
+ADD COLUMN IF NOT EXISTS location TEXT;
+
+-- Existing class-meeting blocks of parsed classes were generated from a single lecture schedule
+UPDATE public.study_blocks
+SET meeting_kind = 'lecture'
+WHERE source = 'syllabus'
+  AND assignment_id IS NULL
+  AND meeting_kind IS NULL;
+
+-- p_blocks entries may now carry meeting_kind and location
+CREATE OR REPLACE FUNCTION public.apply_syllabus_diff(
+  p_class_id UUID,
+  p_user_id UUID,
+  p_topics JSONB,
+  p_removed_topic_ids UUID[],
+  p_assignments JSONB,
+  p_removed_assignment_ids UUID[],
+  p_blocks JSONB,
+  p_total_minutes INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_item JSONB;
+  v_id UUID;
+  v_assignment_ids UUID[] := '{}';
+  v_blocks_removed INTEGER;
+  v_blocks_inserted INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.classes WHERE id = p_class_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Class % not found for user', p_class_id;
+  END IF;
+
+  -- Topics
+  DELETE FROM public.syllabus_topics
+  WHERE class_id = p_class_id AND id = ANY(p_removed_topic_ids);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    IF v_item->>'id' IS NOT NULL THEN
+      UPDATE public.syllabus_topics
+      SET
+        title = v_item->>'title',
+        description = v_item->>'description',
+        order_index = (v_item->>'order_index')::INTEGER,
+        estimated_minutes = (v_item->>'estimated_minutes')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND class_id = p_class_id;
+    ELSE
+      INSERT INTO public.syllabus_topics (class_id, title, description, order_index, estimated_minutes)
+      VALUES (
+        p_class_id,
+        v_item->>'title',
+        v_item->>'description',
+        (v_item->>'order_index')::INTEGER,
+        (v_item->>'estimated_minutes')::INTEGER
+      );
+    END IF;
+  END LOOP;
+
+  -- Assignments (ids are collected in input order so blocks can reference them by index)
+  UPDATE public.study_blocks
+  SET assignment_id = NULL
+  WHERE class_id = p_class_id AND assignment_id = ANY(p_removed_assignment_ids);
+
+  DELETE FROM public.syllabus_assignments
+  WHERE class_id = p_class_id AND id = ANY(p_removed_assignment_ids);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_assignments) LOOP
+    IF v_item->>'id' IS NOT NULL THEN
+      UPDATE public.syllabus_assignments
+      SET
+        title = v_item->>'title',
+        type = v_item->>'type',
+        due_date = (v_item->>'due_date')::DATE,
+        estimated_minutes = (v_item->>'estimated_minutes')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND class_id = p_class_id
+      RETURNING id INTO v_id;
+    ELSE
+      INSERT INTO public.syllabus_assignments (class_id, title, type, due_date, estimated_minutes)
+      VALUES (
+        p_class_id,
+        v_item->>'title',
+        v_item->>'type',
+        (v_item->>'due_date')::DATE,
+        (v_item->>'estimated_minutes')::INTEGER
+      )
+      RETURNING id INTO v_id;
+    END IF;
+    v_assignment_ids := array_append(v_assignment_ids, v_id);
+  END LOOP;
+
+  -- Study blocks: drop regenerable blocks, keep anything a session or pinky promise points at
+  DELETE FROM public.study_blocks b
+  WHERE b.class_id = p_class_id
+    AND b.user_id = p_user_id
+    AND b.source = 'syllabus'
+    AND b.block_date >= CURRENT_DATE
+    AND NOT EXISTS (SELECT 1 FROM public.study_sessions s WHERE s.block_id = b.id::TEXT)
+    AND NOT EXISTS (SELECT 1 FROM public.pinky_promises p WHERE p.block_id = b.id::TEXT);
+  GET DIAGNOSTICS v_blocks_removed = ROW_COUNT;
+
+  INSERT INTO public.study_blocks (user_id, class_id, assignment_id, block_date, start_time, duration_minutes, source, meeting_kind, location)
+  SELECT
+    p_user_id,
+    p_class_id,
+    CASE
+      WHEN blk->>'assignment_index' IS NULL THEN NULL
+      ELSE v_assignment_ids[(blk->>'assignment_index')::INTEGER + 1]
+    END,
+    (blk->>'block_date')::DATE,
+    (blk->>'start_time')::TIME,
+    (blk->>'duration_minutes')::INTEGER,
+    'syllabus',
+    blk->>'meeting_kind',
+    blk->>'location'
+  FROM jsonb_array_elements(p_blocks) blk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.study_blocks e
+    WHERE e.class_id = p_class_id
+      AND e.block_date = (blk->>'block_date')::DATE
+      AND e.start_time IS NOT DISTINCT FROM (blk->>'start_time')::TIME
+  );
+  GET DIAGNOSTICS v_blocks_inserted = ROW_COUNT;
+
+  UPDATE public.classes
+  SET
+    ai_parsed = true,
+    estimated_total_minutes = p_total_minutes,
+    estimated_remaining_minutes = p_total_minutes
+  WHERE id = p_class_id;
+
+  RETURN jsonb_build_object(
+    'blocksRemoved', v_blocks_removed,
+    'blocksInserted', v_blocks_inserted
+  );
+END;
+$$;
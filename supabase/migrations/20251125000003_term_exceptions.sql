@@ -0,0 +1,191 @@
+-- Academic-calendar exceptions: holidays, breaks and cancelled meetings.
+-- Rows come from the parsed syllabus (source = 'syllabus') or are added by the student.
+-- A NULL class_id applies to every class of the student.
+
+CREATE TABLE IF NOT EXISTS public.term_exceptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'holiday' CHECK (kind IN ('holiday', 'break', 'cancelled')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('syllabus', 'user')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+ALTER TABLE public.term_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own term exceptions"
+ON public.term_exceptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own term exceptions"
+ON public.term_exceptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own term exceptions"
+ON public.term_exceptions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own term exceptions"
+ON public.term_exceptions FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_term_exceptions_user_dates ON public.term_exceptions(user_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_term_exceptions_class_id ON public.term_exceptions(class_id);
+
+-- The parsed meeting patterns, so class meetings can be regenerated when exceptions change
+ALTER TABLE public.classes
+ADD COLUMN IF NOT EXISTS meeting_schedule JSONB;
+
+-- apply_syllabus_diff now also stores the schedule and the syllabus exceptions
+DROP FUNCTION IF EXISTS public.apply_syllabus_diff(UUID, UUID, JSONB, UUID[], JSONB, UUID[], JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.apply_syllabus_diff(
+  p_class_id UUID,
+  p_user_id UUID,
+  p_topics JSONB,
+  p_removed_topic_ids UUID[],
+  p_assignments JSONB,
+  p_removed_assignment_ids UUID[],
+  p_blocks JSONB,
+  p_total_minutes INTEGER,
+  p_schedule JSONB DEFAULT NULL,
+  p_exceptions JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_item JSONB;
+  v_id UUID;
+  v_assignment_ids UUID[] := '{}';
+  v_blocks_removed INTEGER;
+  v_blocks_inserted INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.classes WHERE id = p_class_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Class % not found for user', p_class_id;
+  END IF;
+
+  -- Topics
+  DELETE FROM public.syllabus_topics
+  WHERE class_id = p_class_id AND id = ANY(p_removed_topic_ids);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    IF v_item->>'id' IS NOT NULL THEN
+      UPDATE public.syllabus_topics
+      SET
+        title = v_item->>'title',
+        description = v_item->>'description',
+        order_index = (v_item->>'order_index')::INTEGER,
+        estimated_minutes = (v_item->>'estimated_minutes')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND class_id = p_class_id;
+    ELSE
+      INSERT INTO public.syllabus_topics (class_id, title, description, order_index, estimated_minutes)
+      VALUES (
+        p_class_id,
+        v_item->>'title',
+        v_item->>'description',
+        (v_item->>'order_index')::INTEGER,
+        (v_item->>'estimated_minutes')::INTEGER
+      );
+    END IF;
+  END LOOP;
+
+  -- Assignments (ids are collected in input order so blocks can reference them by index)
+  UPDATE public.study_blocks
+  SET assignment_id = NULL
+  WHERE class_id = p_class_id AND assignment_id = ANY(p_removed_assignment_ids);
+
+  DELETE FROM public.syllabus_assignments
+  WHERE class_id = p_class_id AND id = ANY(p_removed_assignment_ids);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_assignments) LOOP
+    IF v_item->>'id' IS NOT NULL THEN
+      UPDATE public.syllabus_assignments
+      SET
+        title = v_item->>'title',
+        type = v_item->>'type',
+        due_date = (v_item->>'due_date')::DATE,
+        estimated_minutes = (v_item->>'estimated_minutes')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND class_id = p_class_id
+      RETURNING id INTO v_id;
+    ELSE
+      INSERT INTO public.syllabus_assignments (class_id, title, type, due_date, estimated_minutes)
+      VALUES (
+        p_class_id,
+        v_item->>'title',
+        v_item->>'type',
+        (v_item->>'due_date')::DATE,
+        (v_item->>'estimated_minutes')::INTEGER
+      )
+      RETURNING id INTO v_id;
+    END IF;
+    v_assignment_ids := array_append(v_assignment_ids, v_id);
+  END LOOP;
+
+  -- Study blocks: drop regenerable blocks, keep anything a session or pinky promise points at
+  DELETE FROM public.study_blocks b
+  WHERE b.class_id = p_class_id
+    AND b.user_id = p_user_id
+    AND b.source = 'syllabus'
+    AND b.block_date >= CURRENT_DATE
+    AND NOT EXISTS (SELECT 1 FROM public.study_sessions s WHERE s.block_id = b.id::TEXT)
+    AND NOT EXISTS (SELECT 1 FROM public.pinky_promises p WHERE p.block_id = b.id::TEXT);
+  GET DIAGNOSTICS v_blocks_removed = ROW_COUNT;
+
+  INSERT INTO public.study_blocks (user_id, class_id, assignment_id, block_date, start_time, duration_minutes, source, meeting_kind, location)
+  SELECT
+    p_user_id,
+    p_class_id,
+    CASE
+      WHEN blk->>'assignment_index' IS NULL THEN NULL
+      ELSE v_assignment_ids[(blk->>'assignment_index')::INTEGER + 1]
+    END,
+    (blk->>'block_date')::DATE,
+    (blk->>'start_time')::TIME,
+    (blk->>'duration_minutes')::INTEGER,
+    'syllabus',
+    blk->>'meeting_kind',
+    blk->>'location'
+  FROM jsonb_array_elements(p_blocks) blk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.study_blocks e
+    WHERE e.class_id = p_class_id
+      AND e.block_date = (blk->>'block_date')::DATE
+      AND e.start_time IS NOT DISTINCT FROM (blk->>'start_time')::TIME
+  );
+  GET DIAGNOSTICS v_blocks_inserted = ROW_COUNT;
+
+  -- Syllabus exceptions are replaced wholesale; the student's own entries are kept
+  DELETE FROM public.term_exceptions
+  WHERE class_id = p_class_id AND source = 'syllabus';
+
+  INSERT INTO public.term_exceptions (user_id, class_id, name, kind, start_date, end_date, source)
+  SELECT
+    p_user_id,
+    p_class_id,
+    e->>'name',
+    e->>'kind',
+    (e->>'start_date')::DATE,
+    (e->>'end_date')::DATE,
+    'syllabus'
+  FROM jsonb_array_elements(p_exceptions) e;
+
+  UPDATE public.classes
+  SET
+    ai_parsed = true,
+    estimated_total_minutes = p_total_minutes,
+    estimated_remaining_minutes = p_total_minutes,
+    meeting_schedule = p_schedule
+  WHERE id = p_class_id;
+
+  RETURN jsonb_build_object(
+    'blocksRemoved', v_blocks_removed,
+    'blocksInserted', v_blocks_inserted
+  );
+END;
+$$;
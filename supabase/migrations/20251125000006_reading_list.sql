@@ -0,0 +1,196 @@
+-- Reading list: where each reading is (textbook, chapter, pages) so its time can be
+-- estimated from the page count, and a completion mark for the reading checklist.
+
+ALTER TABLE public.syllabus_assignments
+ADD COLUMN IF NOT EXISTS textbook TEXT,
+ADD COLUMN IF NOT EXISTS chapter TEXT,
+ADD COLUMN IF NOT EXISTS page_start INTEGER CHECK (page_start > 0),
+ADD COLUMN IF NOT EXISTS page_end INTEGER CHECK (page_end > 0),
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.syllabus_assignments
+ADD CONSTRAINT syllabus_assignments_page_range_check CHECK (page_end >= page_start);
+
+-- Minutes the student needs per page; NULL uses the default of 4
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS reading_minutes_per_page NUMERIC(3, 1) CHECK (reading_minutes_per_page > 0 AND reading_minutes_per_page <= 30);
+
+-- apply_syllabus_diff now also stores the reading location of each assignment.
+-- completed_at is left alone, so a re-parse keeps readings the student has ticked off.
+CREATE OR REPLACE FUNCTION public.apply_syllabus_diff(
+  p_class_id UUID,
+  p_user_id UUID,
+  p_topics JSONB,
+  p_removed_topic_ids UUID[],
+  p_assignments JSONB,
+  p_removed_assignment_ids UUID[],
+  p_blocks JSONB,
+  p_total_minutes INTEGER,
+  p_schedule JSONB DEFAULT NULL,
+  p_exceptions JSONB DEFAULT '[]'::JSONB,
+  p_grading_categories JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_item JSONB;
+  v_id UUID;
+  v_assignment_ids UUID[] := '{}';
+  v_blocks_removed INTEGER;
+  v_blocks_inserted INTEGER;
+  v_today DATE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.classes WHERE id = p_class_id AND user_id = p_user_id) THEN
+    RAISE EXCEPTION 'Class % not found for user', p_class_id;
+  END IF;
+
+  -- "Today" is the student's local date, not the database server's
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT pr.timezone FROM public.profiles pr
+     WHERE pr.user_id = p_user_id AND pr.timezone IN (SELECT name FROM pg_timezone_names)),
+    'UTC'
+  ))::DATE
+  INTO v_today;
+
+  -- Topics
+  DELETE FROM public.syllabus_topics
+  WHERE class_id = p_class_id AND id = ANY(p_removed_topic_ids);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_topics) LOOP
+    IF v_item->>'id' IS NOT NULL THEN
+      UPDATE public.syllabus_topics
+      SET
+        title = v_item->>'title',
+        description = v_item->>'description',
+        order_index = (v_item->>'order_index')::INTEGER,
+        estimated_minutes = (v_item->>'estimated_minutes')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND class_id = p_class_id;
+    ELSE
+      INSERT INTO public.syllabus_topics (class_id, title, description, order_index, estimated_minutes)
+      VALUES (
+        p_class_id,
+        v_item->>'title',
+        v_item->>'description',
+        (v_item->>'order_index')::INTEGER,
+        (v_item->>'estimated_minutes')::INTEGER
+      );
+    END IF;
+  END LOOP;
+
+  -- Assignments (ids are collected in input order so blocks can reference them by index)
+  UPDATE public.study_blocks
+  SET assignment_id = NULL
+  WHERE class_id = p_class_id AND assignment_id = ANY(p_removed_assignment_ids);
+
+  DELETE FROM public.syllabus_assignments
+  WHERE class_id = p_class_id AND id = ANY(p_removed_assignment_ids);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_assignments) LOOP
+    IF v_item->>'id' IS NOT NULL THEN
+      UPDATE public.syllabus_assignments
+      SET
+        title = v_item->>'title',
+        type = v_item->>'type',
+        due_date = (v_item->>'due_date')::DATE,
+        estimated_minutes = (v_item->>'estimated_minutes')::INTEGER,
+        category = v_item->>'category',
+        weight = (v_item->>'weight')::NUMERIC,
+        textbook = v_item->>'textbook',
+        chapter = v_item->>'chapter',
+        page_start = (v_item->>'page_start')::INTEGER,
+        page_end = (v_item->>'page_end')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND class_id = p_class_id
+      RETURNING id INTO v_id;
+    ELSE
+      INSERT INTO public.syllabus_assignments (
+        class_id, title, type, due_date, estimated_minutes, category, weight, textbook, chapter, page_start, page_end
+      )
+      VALUES (
+        p_class_id,
+        v_item->>'title',
+        v_item->>'type',
+        (v_item->>'due_date')::DATE,
+        (v_item->>'estimated_minutes')::INTEGER,
+        v_item->>'category',
+        (v_item->>'weight')::NUMERIC,
+        v_item->>'textbook',
+        v_item->>'chapter',
+        (v_item->>'page_start')::INTEGER,
+        (v_item->>'page_end')::INTEGER
+      )
+      RETURNING id INTO v_id;
+    END IF;
+    v_assignment_ids := array_append(v_assignment_ids, v_id);
+  END LOOP;
+
+  -- Study blocks: drop regenerable blocks, keep anything a session or pinky promise points at
+  DELETE FROM public.study_blocks b
+  WHERE b.class_id = p_class_id
+    AND b.user_id = p_user_id
+    AND b.source = 'syllabus'
+    AND b.block_date >= v_today
+    AND NOT EXISTS (SELECT 1 FROM public.study_sessions s WHERE s.block_id = b.id::TEXT)
+    AND NOT EXISTS (SELECT 1 FROM public.pinky_promises p WHERE p.block_id = b.id::TEXT);
+  GET DIAGNOSTICS v_blocks_removed = ROW_COUNT;
+
+  INSERT INTO public.study_blocks (user_id, class_id, assignment_id, block_date, start_time, duration_minutes, source, meeting_kind, location)
+  SELECT
+    p_user_id,
+    p_class_id,
+    CASE
+      WHEN blk->>'assignment_index' IS NULL THEN NULL
+      ELSE v_assignment_ids[(blk->>'assignment_index')::INTEGER + 1]
+    END,
+    (blk->>'block_date')::DATE,
+    (blk->>'start_time')::TIME,
+    (blk->>'duration_minutes')::INTEGER,
+    'syllabus',
+    blk->>'meeting_kind',
+    blk->>'location'
+  FROM jsonb_array_elements(p_blocks) blk
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.study_blocks e
+    WHERE e.class_id = p_class_id
+      AND e.block_date = (blk->>'block_date')::DATE
+      AND e.start_time IS NOT DISTINCT FROM (blk->>'start_time')::TIME
+  );
+  GET DIAGNOSTICS v_blocks_inserted = ROW_COUNT;
+
+  -- Syllabus exceptions are replaced wholesale; the student's own entries are kept
+  DELETE FROM public.term_exceptions
+  WHERE class_id = p_class_id AND source = 'syllabus';
+
+  INSERT INTO public.term_exceptions (user_id, class_id, name, kind, start_date, end_date, source)
+  SELECT
+    p_user_id,
+    p_class_id,
+    e->>'name',
+    e->>'kind',
+    (e->>'start_date')::DATE,
+    (e->>'end_date')::DATE,
+    'syllabus'
+  FROM jsonb_array_elements(p_exceptions) e;
+
+  -- The grading breakdown is replaced wholesale
+  DELETE FROM public.grading_categories WHERE class_id = p_class_id;
+
+  INSERT INTO public.grading_categories (class_id, name, weight)
+  SELECT p_class_id, g->>'name', (g->>'weight')::NUMERIC
+  FROM jsonb_array_elements(p_grading_categories) g;
+
+  UPDATE public.classes
+  SET
+    ai_parsed = true,
+    estimated_total_minutes = p_total_minutes,
+    estimated_remaining_minutes = p_total_minutes,
+    meeting_schedule = p_schedule
+  WHERE id = p_class_id;
+
+  RETURN jsonb_build_object(
+    'blocksRemoved', v_blocks_removed,
+    'blocksInserted', v_blocks_inserted
+  );
+END;
+$$;
@@ -0,0 +1,56 @@
+-- One assignment model. The parser, the class page and the study planner all work with
+-- syllabus_assignments, but session setup and the dashboard still read the legacy
+-- assignments table, and study_blocks / study_sessions.assignment_id point at it.
+-- Legacy rows move over with their ids, so existing references stay valid, and the
+-- legacy table is dropped.
+
+-- Legacy assignments could carry a free-text description
+ALTER TABLE public.syllabus_assignments
+ADD COLUMN IF NOT EXISTS description TEXT;
+
+INSERT INTO public.syllabus_assignments (id, class_id, title, type, due_date, estimated_minutes, description, created_at)
+SELECT
+  a.id,
+  a.class_id,
+  a.title,
+  -- Legacy types were free text; syllabus assignments allow four
+  CASE
+    WHEN a.type IN ('reading', 'hw', 'project', 'exam') THEN a.type
+    WHEN lower(a.type) IN ('read', 'readings') THEN 'reading'
+    WHEN lower(a.type) IN ('quiz', 'test', 'midterm', 'final') THEN 'exam'
+    WHEN lower(a.type) IN ('paper', 'essay', 'presentation') THEN 'project'
+    ELSE 'hw'
+  END,
+  a.due_date,
+  COALESCE(a.estimated_minutes, 0),
+  a.description,
+  a.created_at
+FROM public.assignments a
+ON CONFLICT (id) DO NOTHING;
+
+-- Re-point the foreign keys. References to neither table (the parser's study blocks
+-- could never be saved with one, but a failed half-migration could leave some) are cleared.
+ALTER TABLE public.study_blocks DROP CONSTRAINT IF EXISTS study_blocks_assignment_id_fkey;
+ALTER TABLE public.study_sessions DROP CONSTRAINT IF EXISTS study_sessions_assignment_id_fkey;
+
+UPDATE public.study_blocks b
+SET assignment_id = NULL
+WHERE b.assignment_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.syllabus_assignments s WHERE s.id = b.assignment_id);
+
+UPDATE public.study_sessions ss
+SET assignment_id = NULL
+WHERE ss.assignment_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.syllabus_assignments s WHERE s.id = ss.assignment_id);
+
+ALTER TABLE public.study_blocks
+ADD CONSTRAINT study_blocks_assignment_id_fkey
+FOREIGN KEY (assignment_id) REFERENCES public.syllabus_assignments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.study_sessions
+ADD CONSTRAINT study_sessions_assignment_id_fkey
+FOREIGN KEY (assignment_id) REFERENCES public.syllabus_assignments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_study_blocks_assignment_id ON public.study_blocks(assignment_id);
+
+DROP TABLE IF EXISTS public.assignments;
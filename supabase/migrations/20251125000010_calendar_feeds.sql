@@ -0,0 +1,46 @@
+-- Secret tokens for the calendar-feed function. Calendar apps subscribe to a URL that
+-- carries the token instead of signing in. Profiles are readable by everyone, so the
+-- token lives in its own table that only its owner can read.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  rotated_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed"
+ON public.calendar_feeds FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Tokens are only created or replaced here, never chosen by the client. Rotating cuts
+-- off every calendar subscribed with the old token.
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.calendar_feeds (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    token = replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+    rotated_at = now()
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.rotate_calendar_feed_token() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token() TO authenticated;
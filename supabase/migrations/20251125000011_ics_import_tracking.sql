@@ -0,0 +1,16 @@
+-- Remembers where imported calendar events came from, so importing the same calendar
+-- again updates or removes its blocks instead of adding duplicates. A recurring event
+-- becomes one block per occurrence; each carries the event's UID and the original start
+-- of its occurrence (RECURRENCE-ID), or NULL for one-off events.
+
+ALTER TABLE public.study_blocks
+ADD COLUMN IF NOT EXISTS import_source TEXT,
+ADD COLUMN IF NOT EXISTS external_uid TEXT,
+ADD COLUMN IF NOT EXISTS external_recurrence_id TEXT;
+
+ALTER TABLE public.study_blocks
+ADD CONSTRAINT study_blocks_external_uid_ics_check CHECK (external_uid IS NULL OR source = 'ics');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_study_blocks_external_event
+ON public.study_blocks(user_id, import_source, external_uid, COALESCE(external_recurrence_id, ''))
+WHERE external_uid IS NOT NULL;
@@ -0,0 +1,34 @@
+-- Remembered class mappings for calendar imports. Events whose class label (the course
+-- an event names, normalized) matches a rule go to the rule's class, or are skipped
+-- when the rule has no class.
+
+CREATE TABLE IF NOT EXISTS public.calendar_class_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  event_label TEXT NOT NULL,
+  class_id UUID REFERENCES public.classes(id) ON DELETE CASCADE,
+  skip BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, event_label),
+  CHECK ((class_id IS NULL) = skip)
+);
+
+ALTER TABLE public.calendar_class_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar class rules"
+ON public.calendar_class_rules FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar class rules"
+ON public.calendar_class_rules FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calendar class rules"
+ON public.calendar_class_rules FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar class rules"
+ON public.calendar_class_rules FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_class_rules_class_id ON public.calendar_class_rules(class_id);
@@ -0,0 +1,49 @@
+-- Replanning swaps a student's upcoming syllabus study blocks for a new plan. The swap
+-- happens in one transaction so a failed insert or a closed tab never leaves the old
+-- sessions deleted with nothing in their place.
+
+CREATE OR REPLACE FUNCTION public.replace_study_blocks(
+  p_removed_block_ids UUID[],
+  p_blocks JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_blocks_removed INTEGER;
+  v_blocks_inserted INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  -- Only the caller's generated blocks go, and never one a session or pinky promise
+  -- started pointing at since the plan was made
+  DELETE FROM public.study_blocks b
+  WHERE b.id = ANY(p_removed_block_ids)
+    AND b.user_id = auth.uid()
+    AND b.source = 'syllabus'
+    AND NOT EXISTS (SELECT 1 FROM public.study_sessions s WHERE s.block_id = b.id::TEXT)
+    AND NOT EXISTS (SELECT 1 FROM public.pinky_promises p WHERE p.block_id = b.id::TEXT);
+  GET DIAGNOSTICS v_blocks_removed = ROW_COUNT;
+
+  INSERT INTO public.study_blocks (user_id, class_id, assignment_id, block_date, start_time, duration_minutes, source, kind)
+  SELECT
+    auth.uid(),
+    (blk->>'class_id')::UUID,
+    (blk->>'assignment_id')::UUID,
+    (blk->>'block_date')::DATE,
+    (blk->>'start_time')::TIME,
+    (blk->>'duration_minutes')::INTEGER,
+    'syllabus',
+    blk->>'kind'
+  FROM jsonb_array_elements(p_blocks) AS blk;
+  GET DIAGNOSTICS v_blocks_inserted = ROW_COUNT;
+
+  RETURN jsonb_build_object('removed', v_blocks_removed, 'inserted', v_blocks_inserted);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_study_blocks(UUID[], JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.replace_study_blocks(UUID[], JSONB) TO authenticated;
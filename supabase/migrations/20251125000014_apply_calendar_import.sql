@@ -0,0 +1,83 @@
+-- Applies an imported calendar's new, changed and removed events in one transaction, so
+-- a failure partway never leaves half an import behind for the next preview to compare
+-- against. New events upsert on their UID, which makes applying the same plan twice
+-- harmless.
+
+CREATE OR REPLACE FUNCTION public.apply_calendar_import(
+  p_inserts JSONB,
+  p_updates JSONB,
+  p_deleted_block_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_inserted INTEGER;
+  v_updated INTEGER;
+  v_deleted INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.study_blocks (
+    user_id, class_id, block_date, start_time, duration_minutes, location, kind, meeting_kind,
+    source, import_source, external_uid, external_recurrence_id
+  )
+  SELECT
+    auth.uid(),
+    (evt->>'class_id')::UUID,
+    (evt->>'block_date')::DATE,
+    (evt->>'start_time')::TIME,
+    (evt->>'duration_minutes')::INTEGER,
+    evt->>'location',
+    evt->>'kind',
+    evt->>'meeting_kind',
+    'ics',
+    evt->>'import_source',
+    evt->>'external_uid',
+    evt->>'external_recurrence_id'
+  FROM jsonb_array_elements(p_inserts) AS evt
+  ON CONFLICT (user_id, import_source, external_uid, COALESCE(external_recurrence_id, ''))
+  WHERE external_uid IS NOT NULL
+  DO UPDATE SET
+    class_id = EXCLUDED.class_id,
+    block_date = EXCLUDED.block_date,
+    start_time = EXCLUDED.start_time,
+    duration_minutes = EXCLUDED.duration_minutes,
+    location = EXCLUDED.location,
+    kind = EXCLUDED.kind,
+    meeting_kind = EXCLUDED.meeting_kind;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  UPDATE public.study_blocks b
+  SET
+    class_id = (evt->>'class_id')::UUID,
+    block_date = (evt->>'block_date')::DATE,
+    start_time = (evt->>'start_time')::TIME,
+    duration_minutes = (evt->>'duration_minutes')::INTEGER,
+    location = evt->>'location',
+    kind = evt->>'kind',
+    meeting_kind = evt->>'meeting_kind',
+    import_source = evt->>'import_source',
+    external_uid = evt->>'external_uid',
+    external_recurrence_id = evt->>'external_recurrence_id'
+  FROM jsonb_array_elements(p_updates) AS evt
+  WHERE b.id = (evt->>'id')::UUID
+    AND b.user_id = auth.uid()
+    AND b.source = 'ics';
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  DELETE FROM public.study_blocks
+  WHERE id = ANY(p_deleted_block_ids)
+    AND user_id = auth.uid()
+    AND source = 'ics';
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  RETURN jsonb_build_object('inserted', v_inserted, 'updated', v_updated, 'deleted', v_deleted);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_calendar_import(JSONB, JSONB, UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_calendar_import(JSONB, JSONB, UUID[]) TO authenticated;